@@ -0,0 +1,18 @@
+import { Stack } from 'expo-router';
+
+import { useTranslation } from '@/hooks/use-translation';
+
+/**
+ * Screens shown until the driver has signed in: enter a phone number, then
+ * the code texted to it.
+ */
+export default function OnboardingLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ title: t('nav.signIn'), headerShown: false }} />
+      <Stack.Screen name="verify" options={{ title: t('nav.verify') }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,160 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { authStore } from '@/services/authStore';
+import { formatAsYouType } from '@/utils/phoneNumber';
+
+export default function SignInScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const getSignal = useAbortSignal();
+
+  const handleSendCode = async () => {
+    setSending(true);
+    try {
+      const challenge = await authStore.requestOtp(phoneNumber, getSignal());
+      setError(null);
+      router.push({
+        pathname: '/verify',
+        params: {
+          requestId: challenge.requestId,
+          phoneNumber: challenge.phoneNumber,
+          resendAt: String(challenge.resendAt),
+        },
+      });
+    } catch (sendError) {
+      if (isCancelled(sendError)) return;
+      setError(sendError instanceof Error ? sendError.message : t('auth.failed'));
+    }
+    setSending(false);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={[styles.container, styles.content]}>
+          <View style={styles.header}>
+            <Ionicons name="car-sport" size={56} color={Colors[theme].tint} />
+            <ThemedText type="title" accessibilityRole="header">
+              {t('auth.welcomeTitle')}
+            </ThemedText>
+            <ThemedText style={styles.muted}>{t('auth.welcomeMessage')}</ThemedText>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText type="defaultSemiBold">{t('auth.phoneLabel')}</ThemedText>
+            <TextInput
+              style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+              placeholder={t('auth.phonePlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              keyboardType="phone-pad"
+              autoComplete="tel"
+              textContentType="telephoneNumber"
+              accessibilityLabel={t('auth.phoneLabel')}
+              value={phoneNumber}
+              onChangeText={(value) => {
+                setPhoneNumber(formatAsYouType(value));
+                setError(null);
+              }}
+              editable={!sending}
+              returnKeyType="go"
+              onSubmitEditing={handleSendCode}
+              autoFocus
+            />
+            {error && (
+              <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+                {error}
+              </ThemedText>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: Colors[theme].tint },
+              (sending || !phoneNumber.trim()) && styles.buttonDisabled,
+            ]}
+            onPress={handleSendCode}
+            disabled={sending || !phoneNumber.trim()}
+            accessibilityRole="button">
+            {sending ? (
+              <ActivityIndicator color={Colors[theme].background} />
+            ) : (
+              <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+                {t('auth.sendCode')}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    justifyContent: 'center',
+    gap: 32,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  section: {
+    gap: 10,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 18,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,193 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNow } from '@/hooks/use-now';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { authStore } from '@/services/authStore';
+import { formatInternational } from '@/utils/phoneNumber';
+
+const CODE_LENGTH = 6;
+
+export default function VerifyScreen() {
+  const params = useLocalSearchParams<{ requestId: string; phoneNumber: string; resendAt: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [requestId, setRequestId] = useState(params.requestId);
+  const [resendAt, setResendAt] = useState(Number(params.resendAt) || 0);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const getSignal = useAbortSignal();
+  const now = useNow(Date.now() < resendAt);
+  const resendInSeconds = Math.max(0, Math.ceil((resendAt - now) / 1000));
+
+  // Once signed in the root layout swaps this stack for the app
+  const verify = async (value: string) => {
+    setVerifying(true);
+    try {
+      await authStore.verifyOtp(requestId, value, getSignal());
+    } catch (verifyError) {
+      if (isCancelled(verifyError)) return;
+      setError(verifyError instanceof Error ? verifyError.message : t('auth.failed'));
+      setCode('');
+      setVerifying(false);
+    }
+  };
+
+  const handleChangeCode = (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, CODE_LENGTH);
+    setCode(digits);
+    setError(null);
+    if (digits.length === CODE_LENGTH) {
+      verify(digits);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      const challenge = await authStore.requestOtp(params.phoneNumber, getSignal());
+      setRequestId(challenge.requestId);
+      setResendAt(challenge.resendAt);
+      setCode('');
+      setError(null);
+      toast.success(t('auth.codeResent'));
+    } catch (resendError) {
+      if (isCancelled(resendError)) return;
+      setError(resendError instanceof Error ? resendError.message : t('auth.failed'));
+    }
+    setResending(false);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={[styles.container, styles.content]}>
+        <ThemedText style={styles.muted}>
+          {t('auth.codeSent', { number: formatInternational(params.phoneNumber) })}
+        </ThemedText>
+
+        <View style={styles.section}>
+          <TextInput
+            style={[styles.codeInput, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+            placeholder={'•'.repeat(CODE_LENGTH)}
+            placeholderTextColor={Colors[theme].icon}
+            keyboardType="number-pad"
+            autoComplete="sms-otp"
+            textContentType="oneTimeCode"
+            accessibilityLabel={t('auth.codeLabel')}
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChangeText={handleChangeCode}
+            editable={!verifying}
+            autoFocus
+          />
+          {error && (
+            <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+              {error}
+            </ThemedText>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: Colors[theme].tint },
+            (verifying || code.length < CODE_LENGTH) && styles.buttonDisabled,
+          ]}
+          onPress={() => verify(code)}
+          disabled={verifying || code.length < CODE_LENGTH}
+          accessibilityRole="button">
+          {verifying ? (
+            <ActivityIndicator color={Colors[theme].background} />
+          ) : (
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('auth.verify')}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.links}>
+          <TouchableOpacity
+            onPress={handleResend}
+            disabled={resending || resendInSeconds > 0}
+            accessibilityRole="button">
+            <ThemedText
+              type="link"
+              style={(resending || resendInSeconds > 0) && styles.buttonDisabled}>
+              {resendInSeconds > 0
+                ? t('auth.resendIn', { seconds: resendInSeconds })
+                : t('auth.resend')}
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.back()} accessibilityRole="button">
+            <ThemedText type="link">{t('auth.changeNumber')}</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 24,
+    gap: 24,
+  },
+  section: {
+    gap: 10,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 14,
+    fontSize: 28,
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  links: {
+    alignItems: 'center',
+    gap: 16,
+  },
+});
@@ -3,10 +3,16 @@ import React from 'react';
 import { View } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/theme';
+import { useAuth } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFleets } from '@/hooks/use-fleets';
+import { useTranslation } from '@/hooks/use-translation';
 
 export default function DrawerLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const fleets = useFleets();
 
   return (
     <Drawer
@@ -34,7 +40,7 @@ export default function DrawerLayout() {
       <Drawer.Screen
         name="index"
         options={{
-          title: 'Home',
+          title: t('nav.home'),
           drawerIcon: ({ color, size }) => (
             <Ionicons name="home" size={size} color={color} />
           ),
@@ -45,7 +51,7 @@ export default function DrawerLayout() {
       <Drawer.Screen
         name="profile"
         options={{
-          title: 'Profile',
+          title: t('nav.profile'),
           drawerIcon: ({ color, size }) => (
             <Ionicons name="person" size={size} color={color} />
           ),
@@ -55,7 +61,7 @@ export default function DrawerLayout() {
       <Drawer.Screen
         name="settings"
         options={{
-          title: 'Settings',
+          title: t('nav.settings'),
           drawerIcon: ({ color, size }) => (
             <Ionicons name="settings" size={size} color={color} />
           ),
@@ -63,7 +69,7 @@ export default function DrawerLayout() {
       /><Drawer.Screen
         name="history"
         options={{
-          title: 'History',
+          title: t('nav.history'),
           drawerIcon: ({ color, size }) => (
             <Ionicons name="document-text" size={size} color={color} />
           ),
@@ -72,12 +78,48 @@ export default function DrawerLayout() {
       <Drawer.Screen
         name="vehicles"
         options={{
-          title: 'My Vehicles',
+          title: t('nav.vehicles'),
           drawerIcon: ({ color, size }) => (
             <Ionicons name="car" size={size} color={color} />
           ),
         }}
       />
+      <Drawer.Screen
+        name="reservations"
+        options={{
+          title: t('nav.reservations'),
+          drawerIcon: ({ color, size }) => (
+            <Ionicons name="calendar" size={size} color={color} />
+          ),
+        }}
+      />
+
+
+      {/* County parking attendants only */}
+      <Drawer.Protected guard={user?.role === 'officer'}>
+        <Drawer.Screen
+          name="enforcement"
+          options={{
+            title: t('nav.enforcement'),
+            drawerIcon: ({ color, size }) => (
+              <Ionicons name="shield-checkmark" size={size} color={color} />
+            ),
+          }}
+        />
+      </Drawer.Protected>
+
+      {/* Admins of a company fleet only */}
+      <Drawer.Protected guard={fleets.some((fleet) => fleet.role === 'admin')}>
+        <Drawer.Screen
+          name="fleet"
+          options={{
+            title: t('nav.fleet'),
+            drawerIcon: ({ color, size }) => (
+              <Ionicons name="business" size={size} color={color} />
+            ),
+          }}
+        />
+      </Drawer.Protected>
       
       {/* Add more drawer screens as needed */}
     </Drawer>
@@ -0,0 +1,303 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, FlatList, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { PARKING_ZONES } from '@/constants/zones';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import { useViolations } from '@/hooks/use-violations';
+import { isCancelled } from '@/services/apiRequest';
+import { enforcementApi, type EnforcementSession } from '@/services/enforcementApi';
+import type { Violation } from '@/services/violationStore';
+import { getOverstayMinutes } from '@/utils/enforcement';
+import { formatMinutesDuration } from '@/utils/i18n';
+import { formatPlate, normalizePlate } from '@/utils/plateValidator';
+import { formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+type Lookup =
+  | { status: 'idle' }
+  | { status: 'found'; plate: string; session: EnforcementSession }
+  | { status: 'notFound'; plate: string };
+
+const findZone = (zoneId: string | null) => PARKING_ZONES.find((zone) => zone.id === zoneId) ?? null;
+
+export default function EnforcementScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t, language } = useTranslation();
+  const violations = useViolations();
+  const getSignal = useAbortSignal();
+  const [plate, setPlate] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [lookup, setLookup] = useState<Lookup>({ status: 'idle' });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async () => {
+    const query = formatPlate(plate) ?? normalizePlate(plate);
+    if (!query) return;
+
+    setSearching(true);
+    setError(null);
+    try {
+      const session = await enforcementApi.lookupPlate(query, getSignal());
+      setLookup(session ? { status: 'found', plate: query, session } : { status: 'notFound', plate: query });
+    } catch (searchError) {
+      if (!isCancelled(searchError)) {
+        setLookup({ status: 'idle' });
+        setError(searchError instanceof Error ? searchError.message : t('enforcement.searchFailed'));
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const logViolation = (params: { plate: string; sessionId?: string; zoneId?: string }) =>
+    router.push({ pathname: '/enforcement/violation', params });
+
+  const renderResult = () => {
+    if (lookup.status === 'notFound') {
+      return (
+        <View style={[styles.card, { borderColor: Colors[theme].icon }]}>
+          <View style={styles.row}>
+            <Ionicons name="alert-circle" size={20} color={Colors[theme].danger} />
+            <ThemedText type="defaultSemiBold" style={styles.flex}>
+              {t('enforcement.noSession', { plate: lookup.plate })}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: Colors[theme].tint }]}
+            onPress={() => logViolation({ plate: lookup.plate })}
+            accessibilityRole="button">
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('enforcement.logViolation')}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (lookup.status !== 'found') return null;
+
+    const { session } = lookup;
+    const zone = findZone(session.zoneId);
+    const overstayMinutes = getOverstayMinutes(session, zone);
+
+    return (
+      <View style={[styles.card, { borderColor: overstayMinutes > 0 ? Colors[theme].danger : Colors[theme].icon }]}>
+        <View style={styles.row}>
+          <Ionicons
+            name={overstayMinutes > 0 ? 'alert-circle' : 'checkmark-circle'}
+            size={20}
+            color={overstayMinutes > 0 ? Colors[theme].danger : Colors[theme].success}
+          />
+          <ThemedText type="defaultSemiBold" style={styles.flex}>
+            {session.plate}
+          </ThemedText>
+        </View>
+        <ThemedText style={styles.detail}>
+          {t('enforcement.zone', { zone: zone?.name ?? t('common.notAvailable') })}
+        </ThemedText>
+        <ThemedText style={styles.detail}>
+          {t('enforcement.startedAt', { time: formatSessionTime(session.startedAt, language) })}
+        </ThemedText>
+        <ThemedText style={styles.detail}>
+          {session.paidUntil
+            ? t('enforcement.paidUntil', { time: formatSessionTime(session.paidUntil, language) })
+            : t('enforcement.paysOnExit')}
+        </ThemedText>
+        <ThemedText style={overstayMinutes > 0 ? [styles.overstay, { color: Colors[theme].danger }] : styles.detail}>
+          {overstayMinutes > 0
+            ? t('enforcement.overstay', { duration: formatMinutesDuration(overstayMinutes, language) })
+            : t('enforcement.withinTime')}
+        </ThemedText>
+        {overstayMinutes > 0 && (
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: Colors[theme].tint }]}
+            onPress={() =>
+              logViolation({ plate: session.plate, sessionId: session.id, zoneId: session.zoneId ?? undefined })
+            }
+            accessibilityRole="button">
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('enforcement.logViolation')}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderViolation = ({ item }: { item: Violation }) => (
+    <View style={[styles.item, { borderBottomColor: Colors[theme].icon }]}>
+      <View style={styles.itemHeader}>
+        <ThemedText type="defaultSemiBold">{item.plate}</ThemedText>
+        <ThemedText style={styles.detail}>
+          {item.syncedAt ? t('enforcement.uploaded') : t('enforcement.waitingToUpload')}
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.detail} numberOfLines={1}>
+        {formatSessionDate(item.loggedAt, language)} · {formatSessionTime(item.loggedAt, language)}
+        {item.notes ? ` · ${item.notes}` : ''}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={violations}
+        keyExtractor={(item) => item.id}
+        renderItem={renderViolation}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.flex, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+                placeholder={t('enforcement.platePlaceholder')}
+                placeholderTextColor={Colors[theme].icon}
+                accessibilityLabel={t('enforcement.plateLabel')}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                value={plate}
+                onChangeText={(value) => {
+                  setPlate(value);
+                  setError(null);
+                }}
+                returnKeyType="search"
+                onSubmitEditing={handleSearch}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.searchButton,
+                  { backgroundColor: Colors[theme].tint },
+                  (searching || !plate.trim()) && styles.buttonDisabled,
+                ]}
+                onPress={handleSearch}
+                disabled={searching || !plate.trim()}
+                accessibilityRole="button"
+                accessibilityLabel={t('enforcement.search')}>
+                {searching ? (
+                  <ActivityIndicator color={Colors[theme].background} />
+                ) : (
+                  <Ionicons name="search" size={20} color={Colors[theme].background} />
+                )}
+              </TouchableOpacity>
+            </View>
+            {error && (
+              <ThemedText style={[styles.error, { color: Colors[theme].danger }]} accessibilityLiveRegion="polite">
+                {error}
+              </ThemedText>
+            )}
+
+            {renderResult()}
+
+            <View style={styles.row}>
+              <TouchableOpacity
+                style={[styles.action, { borderColor: Colors[theme].icon }]}
+                onPress={() => router.push('/enforcement/map')}
+                accessibilityRole="button">
+                <Ionicons name="map-outline" size={20} color={Colors[theme].text} />
+                <ThemedText>{t('enforcement.zoneMap')}</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.action, { borderColor: Colors[theme].icon }]}
+                onPress={() => logViolation({ plate: lookup.status === 'idle' ? '' : lookup.plate })}
+                accessibilityRole="button">
+                <Ionicons name="camera-outline" size={20} color={Colors[theme].text} />
+                <ThemedText>{t('enforcement.logViolation')}</ThemedText>
+              </TouchableOpacity>
+            </View>
+
+            <ThemedText type="subtitle">{t('enforcement.recentViolations')}</ThemedText>
+          </View>
+        }
+        ListEmptyComponent={<ThemedText style={styles.empty}>{t('enforcement.noViolations')}</ThemedText>}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    gap: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 18,
+  },
+  searchButton: {
+    borderRadius: 10,
+    padding: 12,
+  },
+  error: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  overstay: {
+    fontWeight: '600',
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  action: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  item: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  empty: {
+    paddingHorizontal: 16,
+    opacity: 0.7,
+  },
+});
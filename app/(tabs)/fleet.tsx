@@ -0,0 +1,288 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect, useNavigation } from 'expo-router';
+import React, { useCallback, useLayoutEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFleets } from '@/hooks/use-fleets';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { fleetApi, type FleetSpend } from '@/services/fleetApi';
+import { shareFleetInvoice, type ExportFormat } from '@/services/receipts';
+import { formatInternational } from '@/utils/phoneNumber';
+
+const MONTHS_AVAILABLE = 12;
+
+// Calendar months, newest first, keyed the way the backend expects ("2026-10")
+const getRecentMonths = (locale: string) => {
+  const now = new Date();
+  return Array.from({ length: MONTHS_AVAILABLE }, (_, index) => {
+    const start = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return {
+      key: `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`,
+      label: start.toLocaleDateString(locale, { month: 'short', year: 'numeric' }),
+    };
+  });
+};
+
+/**
+ * Fleet admins: what the company's drivers and vehicles spent on parking in
+ * a month, and that month's invoice to share with accounts.
+ */
+export default function FleetScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t, locale } = useTranslation();
+  const formatCurrency = useFormatCurrency();
+  const toast = useToast();
+  const navigation = useNavigation();
+  const getSignal = useAbortSignal();
+  const fleets = useFleets().filter((fleet) => fleet.role === 'admin');
+  const months = useMemo(() => getRecentMonths(locale), [locale]);
+  const [fleetId, setFleetId] = useState<string | null>(null);
+  const [month, setMonth] = useState(months[0].key);
+  const [spend, setSpend] = useState<FleetSpend | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const fleet = fleets.find((item) => item.id === fleetId) ?? fleets[0] ?? null;
+  const selectedId = fleet?.id ?? null;
+
+  const loadSpend = useCallback(async () => {
+    if (!selectedId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setSpend(await fleetApi.spend(selectedId, month, getSignal()));
+    } catch (loadError) {
+      if (isCancelled(loadError)) return;
+      setSpend(null);
+      setError(loadError instanceof Error ? loadError.message : t('fleet.loadFailed'));
+    }
+    setLoading(false);
+  }, [selectedId, month, getSignal, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSpend();
+    }, [loadSpend])
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () =>
+        fleet && (
+          <TouchableOpacity
+            onPress={() => router.push({ pathname: '/fleet/manage', params: { id: fleet.id } })}
+            style={styles.headerButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('fleet.manage')}>
+            <Ionicons name="people-outline" size={22} color={Colors[theme].text} />
+          </TouchableOpacity>
+        ),
+    });
+  }, [navigation, theme, fleet, t]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!fleet) return;
+    setExporting(format);
+    try {
+      const invoice = await fleetApi.invoice(fleet.id, month, getSignal());
+      if (invoice.charges.length === 0) {
+        toast.error(t('fleet.noCharges'), { title: t('fleet.invoice') });
+        return;
+      }
+      await shareFleetInvoice(invoice, format);
+    } catch (exportError) {
+      if (!isCancelled(exportError)) toast.error(t('fleet.exportFailed'), { title: t('fleet.invoice') });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (!fleet) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.muted}>{t('fleet.noFleets')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const renderChips = <T extends string>(
+    items: { key: T; label: string }[],
+    selected: T,
+    onSelect: (key: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+      {items.map((item) => (
+        <TouchableOpacity
+          key={item.key}
+          onPress={() => onSelect(item.key)}
+          style={[
+            styles.chip,
+            { borderColor: Colors[theme].icon },
+            item.key === selected && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+          ]}>
+          <ThemedText style={[styles.chipText, item.key === selected && { color: Colors[theme].background }]}>
+            {item.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const renderLine = (key: string, label: string, amount: number, sessions: number) => (
+    <View key={key} style={[styles.line, { borderBottomColor: Colors[theme].icon }]}>
+      <View style={styles.flex}>
+        <ThemedText type="defaultSemiBold">{label}</ThemedText>
+        <ThemedText style={styles.detail}>{t('fleet.sessionCount', { count: sessions })}</ThemedText>
+      </View>
+      <ThemedText type="defaultSemiBold">{formatCurrency(amount)}</ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {fleets.length > 1 &&
+          renderChips(
+            fleets.map((item) => ({ key: item.id, label: item.name })),
+            fleet.id,
+            setFleetId
+          )}
+        {renderChips(months, month, setMonth)}
+
+        <View style={[styles.card, { borderColor: Colors[theme].icon }]}>
+          <ThemedText style={styles.detail}>{fleet.name}</ThemedText>
+          {loading ? (
+            <ActivityIndicator />
+          ) : error ? (
+            <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+              {error}
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText type="title">{formatCurrency(spend?.total ?? 0)}</ThemedText>
+              <ThemedText style={styles.detail}>{t('fleet.sessionCount', { count: spend?.sessions ?? 0 })}</ThemedText>
+            </>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          {(['csv', 'pdf'] as ExportFormat[]).map((format) => (
+            <TouchableOpacity
+              key={format}
+              disabled={exporting !== null}
+              onPress={() => handleExport(format)}
+              style={[styles.button, { backgroundColor: Colors[theme].tint }, exporting !== null && styles.buttonDisabled]}
+              accessibilityRole="button"
+              accessibilityLabel={t('fleet.exportInvoice', { format: format.toUpperCase() })}>
+              {exporting === format ? (
+                <ActivityIndicator color={Colors[theme].background} />
+              ) : (
+                <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+                  {t('fleet.exportInvoice', { format: format.toUpperCase() })}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {spend && !loading && (
+          <>
+            <ThemedText type="subtitle">{t('fleet.byDriver')}</ThemedText>
+            {spend.drivers.length === 0 && <ThemedText style={styles.detail}>{t('fleet.noSpend')}</ThemedText>}
+            {spend.drivers.map((driver) =>
+              renderLine(driver.phoneNumber, formatInternational(driver.phoneNumber), driver.amount, driver.sessions)
+            )}
+
+            <ThemedText type="subtitle">{t('fleet.byVehicle')}</ThemedText>
+            {spend.vehicles.length === 0 && <ThemedText style={styles.detail}>{t('fleet.noSpend')}</ThemedText>}
+            {spend.vehicles.map((vehicle) => renderLine(vehicle.plate, vehicle.plate, vehicle.amount, vehicle.sessions))}
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  filterRow: {
+    flexGrow: 0,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  flex: {
+    flex: 1,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerButton: {
+    paddingHorizontal: 16,
+  },
+});
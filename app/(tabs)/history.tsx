@@ -0,0 +1,229 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect, useNavigation } from 'expo-router';
+import React, { useCallback, useLayoutEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ExpenseExportSheet } from '@/components/expense-export-sheet';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { historyStore, type CompletedSession, type HistoryFilter } from '@/services/historyStore';
+import type { MessageKey } from '@/utils/i18n';
+import { formatDuration, formatLocation, formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+type DateRange = 'all' | '7d' | '30d' | 'month';
+
+const DATE_RANGES: { key: DateRange; label: MessageKey }[] = [
+  { key: 'all', label: 'history.range.all' },
+  { key: '7d', label: 'history.range.7d' },
+  { key: '30d', label: 'history.range.30d' },
+  { key: 'month', label: 'history.range.month' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRangeStart = (range: DateRange): number | undefined => {
+  const now = new Date();
+  switch (range) {
+    case '7d':
+      return now.getTime() - 7 * DAY_MS;
+    case '30d':
+      return now.getTime() - 30 * DAY_MS;
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    default:
+      return undefined;
+  }
+};
+
+export default function HistoryScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const formatCurrency = useFormatCurrency();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [sessions, setSessions] = useState<CompletedSession[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<DateRange>('all');
+  const [plate, setPlate] = useState<string | null>(null);
+  const [plates, setPlates] = useState<string[]>([]);
+  const [exportVisible, setExportVisible] = useState(false);
+  const navigation = useNavigation();
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => setExportVisible(true)} style={styles.headerButton}>
+          <Ionicons name="share-outline" size={22} color={Colors[theme].text} />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, theme]);
+
+  const buildFilter = useCallback(
+    (): HistoryFilter => ({ from: getRangeStart(range), vehiclePlate: plate }),
+    [range, plate]
+  );
+
+  // Reload from the first page whenever the screen gains focus or filters change
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      (async () => {
+        setLoading(true);
+        const [page, knownPlates] = await Promise.all([
+          historyStore.getPage(buildFilter()),
+          historyStore.getVehiclePlates(),
+        ]);
+        if (cancelled) return;
+        setSessions(page.sessions);
+        setHasMore(page.hasMore);
+        setPlates(knownPlates);
+        setLoading(false);
+      })();
+
+      return () => {
+        cancelled = true;
+      };
+    }, [buildFilter])
+  );
+
+  const loadMore = async () => {
+    if (loading || !hasMore) return;
+    setLoading(true);
+    const page = await historyStore.getPage(buildFilter(), sessions.length);
+    setSessions((current) => [...current, ...page.sessions]);
+    setHasMore(page.hasMore);
+    setLoading(false);
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: Colors[theme].icon },
+        active && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+      ]}>
+      <ThemedText
+        style={[styles.chipText, active && { color: Colors[theme].background }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderItem = ({ item }: { item: CompletedSession }) => (
+    <TouchableOpacity
+      style={[styles.item, { borderBottomColor: Colors[theme].icon }]}
+      onPress={() => router.push({ pathname: '/history/[id]', params: { id: item.id } })}>
+      <View style={styles.itemHeader}>
+        <ThemedText type="defaultSemiBold">
+          {formatSessionDate(item.startedAt)} · {formatSessionTime(item.startedAt)}
+        </ThemedText>
+        <ThemedText type="defaultSemiBold">{formatCurrency(item.amount)}</ThemedText>
+      </View>
+      <ThemedText style={styles.itemDetail} numberOfLines={1}>
+        <Ionicons name="location-outline" size={14} /> {formatLocation(item.locationName, item.coords)}
+      </ThemedText>
+      <View style={styles.itemHeader}>
+        <ThemedText style={styles.itemDetail}>
+          {formatDuration(item.durationSeconds)}
+          {item.vehiclePlate ? ` · ${item.vehiclePlate}` : ''}
+        </ThemedText>
+        <ThemedText style={styles.itemDetail}>{item.mpesaReceipt}</ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {DATE_RANGES.map(({ key, label }) => renderChip(t(label), range === key, () => setRange(key)))}
+      </ScrollView>
+      {plates.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+          {renderChip(t('history.allVehicles'), plate === null, () => setPlate(null))}
+          {plates.map((item) => renderChip(item, plate === item, () => setPlate(item)))}
+        </ScrollView>
+      )}
+
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.empty}>
+              <Ionicons name="document-text-outline" size={48} color={Colors[theme].icon} />
+              <ThemedText style={styles.emptyText}>{t('history.empty')}</ThemedText>
+            </View>
+          )
+        }
+        ListFooterComponent={loading ? <ActivityIndicator style={styles.footer} /> : null}
+      />
+
+      <ExpenseExportSheet
+        visible={exportVisible}
+        vehiclePlate={plate}
+        onClose={() => setExportVisible(false)}
+        onError={(message) => toast.error(message, { title: t('export.alertTitle') })}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  filterRow: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  item: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  itemDetail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 64,
+  },
+  emptyText: {
+    marginTop: 12,
+    opacity: 0.7,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+  headerButton: {
+    paddingHorizontal: 16,
+  },
+});
@@ -1,148 +1,487 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
+  AccessibilityInfo,
   View, 
   Text, 
-  Modal, 
   StatusBar, 
-  TextInput, 
   ActivityIndicator,
   Alert,
   Dimensions,
-  KeyboardAvoidingView,
   Platform,
   TouchableOpacity,
   StyleSheet,
-  PanResponder,
-  Animated,
+  ScrollView,
+  useWindowDimensions,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import MapView, { Marker } from 'react-native-maps';
+import MapView, { Marker, Polygon } from 'react-native-maps';
 import SwipeButton from 'rn-swipe-button';
+import { BottomSheetScrollView, BottomSheetTextInput } from '@gorhom/bottom-sheet';
 import { TailwindProvider } from 'tailwindcss-react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import type { LocationObject } from 'expo-location';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 
 import { CONFIG } from '../../constants/config';
 import { styles } from '../../constants/styles';
 import { mapStyle } from '../../constants/mapStyle';
+import { darkMapStyle } from '../../constants/darkMapStyle';
+import { Colors, type ThemeColors } from '../../constants/theme';
 import { useParking } from '../../hooks/useParking';
 import { usePayment } from '../../hooks/usePayment';
-import { formatPhoneNumber, validatePhoneNumber } from '../../utils/phoneFormatter';
 import { locationService } from '../../services/locationService';
+import { toE164 } from '../../utils/phoneNumber';
+import { VehiclePicker } from '../../components/vehicle-picker';
+import { BottomSheet } from '../../components/bottom-sheet';
+import { vehicleStore, type Vehicle } from '../../services/vehicleStore';
+import {
+  PARKING_ZONES,
+  findZoneAt,
+  formatOperatingHours,
+  isZoneOpen,
+  type ParkingZone,
+} from '../../constants/zones';
+import { DEFAULT_TARIFF, getRatePeriod, type Tariff } from '../../utils/tariff';
+import { TariffBreakdown } from '../../components/tariff-breakdown';
+import { NearbyParkingSheet } from '../../components/nearby-parking-sheet';
+import { openDirections, type NearbyParkingLocation } from '../../services/parkingLocations';
+import { formatBearing, formatDistance, getBearingDegrees, getDistanceMeters, type LatLng } from '../../utils/geo';
+import { ParkedCarSheet } from '../../components/parked-car-sheet';
+import { parkedCarStore, type ParkedCar, type ParkedCarDetails } from '../../services/parkedCarStore';
+import { useLiveLocation } from '../../hooks/use-live-location';
+import { useNow } from '../../hooks/use-now';
+import { PrepaidSheet } from '../../components/prepaid-sheet';
+import type { ReconciledCheckout } from '../../services/pendingCheckouts';
+import type { PrepaidPurchase, PrepaidSession } from '../../services/prepaidStore';
+import { cancelReminders, scheduleExpiryReminders } from '../../services/reminders';
+import { formatCountdown, formatDuration, formatSessionTime } from '../../utils/sessionFormat';
+import type { CompletedSession } from '../../services/historyStore';
+import { RECEIPT_LANGUAGE } from '../../services/receipts';
+import {
+  formatSavedPhoneNumber,
+  profileStore,
+  toLocalPhoneNumber,
+  type SavedPhoneNumber,
+} from '../../services/profileStore';
+import { useColorScheme } from '../../hooks/use-color-scheme';
+import { useFormatCurrency, useSettings } from '../../hooks/use-settings';
+import { useScreenReaderEnabled } from '../../hooks/use-screen-reader';
+import { useToast } from '../../hooks/use-toast';
+import { useIsOnline } from '../../hooks/use-online';
+import { usePendingSessionEvents } from '../../hooks/use-session-sync';
+import { getElapsedSeconds } from '../../services/sessionStore';
+import { sessionSync } from '../../services/sessionSync';
+import { useFleets } from '../../hooks/use-fleets';
+import { fleetApi, type FleetCharge } from '../../services/fleetApi';
+import { findFleetByPlate, fleetStore } from '../../services/fleetStore';
+import { reservationStore } from '../../services/reservationStore';
+import { toApiError } from '../../services/apiRequest';
+import { useTranslation } from '../../hooks/use-translation';
+import { formatMinutesDuration, translate, type MessageKey, type TranslateParams } from '../../utils/i18n';
+import { haptics } from '../../services/haptics';
 
-const SCREEN_HEIGHT = Dimensions.get('window').height;
-const DRAWER_MIN_HEIGHT = 100;
-const DRAWER_MAX_HEIGHT = SCREEN_HEIGHT * 0.75;
+// Minimized shows just the header; expanded leaves the map peeking out above
+const PAYMENT_SNAP_POINTS = [100, '75%'];
+const PAYMENT_MINIMIZED = 0;
+const PAYMENT_EXPANDED = 1;
+const SWIPE_HEIGHT = 56;
+// Single-line controls stop growing past this so large text doesn't clip them
+const MAX_CONTROL_FONT_SCALE = 1.5;
+
+// Rate currently in force under a tariff, e.g. "KSH 100 first hr, then KSH 50/hr"
+const formatTariffRate = (
+  tariff: Tariff,
+  formatCurrency: (amount: number) => string,
+  t: (key: MessageKey, params?: TranslateParams) => string
+) => {
+  const { firstHourRate, subsequentHourlyRate } = tariff.rates[getRatePeriod(tariff, new Date())];
+  return t('parking.zoneRate', {
+    first: formatCurrency(firstHourRate),
+    subsequent: formatCurrency(subsequentHourlyRate),
+  });
+};
 
 const Parking = () => {
-  const [location, setLocation] = useState<any | null>(null);
+  const [location, setLocation] = useState<LocationObject | null>(null);
   const [loadingLocation, setLoadingLocation] = useState(true);
-  const [modalVisible, setModalVisible] = useState(false);
-  const [modalMessage, setModalMessage] = useState('');
-  const [modalType, setModalType] = useState<'success' | 'error' | 'warning'>('success');
   const [paymentModalVisible, setPaymentModalVisible] = useState(false);
-  const [drawerHeight, setDrawerHeight] = useState(new Animated.Value(DRAWER_MAX_HEIGHT));
-  const [isDrawerMinimized, setIsDrawerMinimized] = useState(false);
-  const phoneInputRef = useRef<TextInput>(null);
-
-  const parking = useParking();
-  const payment = usePayment({
-    onPaymentSuccess: (mpesaReceipt) => {
-      parking.completeParking(mpesaReceipt);
+  const [paymentSheetIndex, setPaymentSheetIndex] = useState(PAYMENT_EXPANDED);
+  const [vehiclePickerVisible, setVehiclePickerVisible] = useState(false);
+  const [activeVehicle, setActiveVehicle] = useState<Vehicle | null>(null);
+  const [activeZone, setActiveZone] = useState<ParkingZone | null>(null);
+  const [nearbyVisible, setNearbyVisible] = useState(false);
+  const [selectedSpot, setSelectedSpot] = useState<NearbyParkingLocation | null>(null);
+  const [parkedCar, setParkedCar] = useState<ParkedCar | null>(null);
+  const [parkedCarSheetVisible, setParkedCarSheetVisible] = useState(false);
+  const [prepaidSheet, setPrepaidSheet] = useState<{
+    mode: 'start' | 'extend';
+    startedAt: number;
+    paidUntil: number;
+    minMinutes: number;
+  } | null>(null);
+  // Where and what is parking while a prepaid start waits for payment
+  const pendingStartRef = useRef<{
+    vehicle: Vehicle | null;
+    position: LocationObject | null;
+    zone: ParkingZone | null;
+  } | null>(null);
+  // Reservation being checked in on while its session starts; its deposit was already paid
+  const reservationStartRef = useRef<string | null>(null);
+  const { reservationId } = useLocalSearchParams<{ reservationId?: string }>();
+  const [savedNumbers, setSavedNumbers] = useState<SavedPhoneNumber[]>([]);
+  const [billing, setBilling] = useState(false);
+  const phoneInputRef = useRef<React.ComponentRef<typeof BottomSheetTextInput>>(undefined);
+  const mapRef = useRef<MapView>(null);
+
+  const parking = useParking(activeZone?.tariff ?? DEFAULT_TARIFF, {
+    // Another device or an attendant ended the session; clear away what was on screen for it
+    onEndedElsewhere: () => {
+      payment.resetPayment();
+      resetSessionState();
+      setPaymentModalVisible(false);
+      toast.warning(t('sync.endedElsewhere'));
     },
   });
+  const prepaidSession = parking.prepaid;
+  const colorScheme = useColorScheme() ?? 'light';
+  const palette = Colors[colorScheme];
+  const surfaceStyles = useMemo(() => createSurfaceStyles(palette), [palette]);
+  const paymentStyles = useMemo(() => createPaymentStyles(palette), [palette]);
+  const prepaidStyles = useMemo(() => createPrepaidStyles(palette), [palette]);
+  const offlineStyles = useMemo(() => createOfflineStyles(palette), [palette]);
+  const findCarStyles = useMemo(() => createFindCarStyles(palette), [palette]);
+  const nearbyStyles = useMemo(() => createNearbyStyles(palette), [palette]);
+  const parkButtonStyles = useMemo(() => createParkButtonStyles(palette), [palette]);
+  const formatCurrency = useFormatCurrency();
+  const { t, language } = useTranslation();
+  const { tapToPark } = useSettings();
+  const toast = useToast();
+  const isOnline = useIsOnline();
+  const pendingSessionEvents = usePendingSessionEvents();
+  const fleets = useFleets();
+  const screenReaderEnabled = useScreenReaderEnabled();
+  const { fontScale } = useWindowDimensions();
+  const liveLocation = useLiveLocation(parking.isParking);
+  const minuteNow = useNow(parking.isParking, 60 * 1000);
+  const payment = usePayment({ sessionId: parking.session?.id ?? null });
 
-  // Pan responder for drawer drag
-  const panResponder = React.useRef(
-    PanResponder.create({
-      onStartShouldSetPanResponder: () => true,
-      onMoveShouldSetPanResponder: () => true,
-      onPanResponderMove: (evt, gestureState) => {
-        if (gestureState.dy > 0) {
-          const newHeight = Math.max(
-            DRAWER_MIN_HEIGHT,
-            DRAWER_MAX_HEIGHT - gestureState.dy
-          );
-          drawerHeight.setValue(newHeight);
-        }
-      },
-      onPanResponderRelease: (evt, gestureState) => {
-        const currentHeight = DRAWER_MAX_HEIGHT - gestureState.dy;
-        const threshold = (DRAWER_MIN_HEIGHT + DRAWER_MAX_HEIGHT) / 2;
-
-        if (currentHeight < threshold) {
-          // Minimize
-          Animated.spring(drawerHeight, {
-            toValue: DRAWER_MIN_HEIGHT,
-            useNativeDriver: false,
-          }).start();
-          setIsDrawerMinimized(true);
-        } else {
-          // Maximize
-          Animated.spring(drawerHeight, {
-            toValue: DRAWER_MAX_HEIGHT,
-            useNativeDriver: false,
-          }).start();
-          setIsDrawerMinimized(false);
-        }
-      },
-    })
-  ).current;
-
-  // Show modal with auto-dismiss
-  const showModal = (message: string, type: 'success' | 'error' | 'warning' = 'success') => {
-    setModalMessage(message);
-    setModalType(type);
-    setModalVisible(true);
-    
-    setTimeout(() => {
-      setModalVisible(false);
-    }, CONFIG.UI.MODAL_AUTO_DISMISS);
-  };
+  const isDrawerMinimized = paymentSheetIndex === PAYMENT_MINIMIZED;
+  // A fleet vehicle the driver may park goes on the company's invoice instead of M-Pesa
+  const fleet = findFleetByPlate(fleets, activeVehicle?.plate);
+  const isSettling = payment.isProcessingPayment || billing;
 
   // Handle parking toggle
   const toggleParking = () => {
-    if (parking.isParking) {
+    if (parking.isParking && prepaidSession) {
+      handleEndPrepaid(prepaidSession);
+    } else if (parking.isParking) {
       // Don't actually stop parking - just show payment modal
       // Timer continues in background
       setPaymentModalVisible(true);
       // Maximize drawer when payment modal opens
-      Animated.spring(drawerHeight, {
-        toValue: DRAWER_MAX_HEIGHT,
-        useNativeDriver: false,
-      }).start();
-      setIsDrawerMinimized(false);
+      setPaymentSheetIndex(PAYMENT_EXPANDED);
       // Focus phone input after modal opens
       setTimeout(() => {
         phoneInputRef.current?.focus();
       }, 500);
     } else {
-      parking.startParking();
-      showModal('Parking started successfully!', 'success');
+      // Ask which vehicle is parking before the session starts
+      setVehiclePickerVisible(true);
+    }
+  };
+
+  // Start parking once a vehicle has been chosen
+  const handleVehicleSelected = async (vehicle: Vehicle | null) => {
+    setVehiclePickerVisible(false);
+    setActiveVehicle(vehicle);
+
+    // Take a fresh fix so the parked position is where the car is, not where the app opened
+    const position: LocationObject | null = (await locationService.getCurrentLocation()) ?? location;
+
+    // Work out which zone the session is in from where the driver is now
+    const zone = position ? findZoneAt(position.coords) : null;
+    setActiveZone(zone);
+
+    // Arriving on a reservation: the session is paid for when leaving, like any other,
+    // and its synced start checks the reservation in, even if there's no signal at the gate
+    const checkingIn = reservationStartRef.current;
+    if (checkingIn) {
+      reservationStartRef.current = null;
+      await beginParking(vehicle, position, zone, checkingIn);
+      await reservationStore.checkIn(checkingIn);
+      return;
+    }
+
+    Alert.alert(
+      t('parking.howToPayTitle'),
+      t('parking.howToPayMessage'),
+      [
+        {
+          text: t('parking.payWhenLeaving'),
+          onPress: () => beginParking(vehicle, position, zone),
+        },
+        {
+          text: t('parking.prepay'),
+          onPress: () => {
+            const startAt = Date.now();
+            pendingStartRef.current = { vehicle, position, zone };
+            setPrepaidSheet({ mode: 'start', startedAt: startAt, paidUntil: startAt, minMinutes: 0 });
+          },
+        },
+      ]
+    );
+  };
+
+  const beginParking = async (
+    vehicle: Vehicle | null,
+    position: LocationObject | null,
+    zone: ParkingZone | null,
+    reservationId: string | null = null
+  ) => {
+    parking.startParking({
+      reservationId,
+      zoneId: zone?.id ?? null,
+      vehiclePlate: vehicle?.plate ?? null,
+      coords: position ? { latitude: position.coords.latitude, longitude: position.coords.longitude } : null,
+    });
+    haptics.impact(Haptics.ImpactFeedbackStyle.Medium);
+
+    if (position) {
+      setParkedCar(await parkedCarStore.record(position.coords, position.coords.accuracy ?? null));
+    }
+
+    if (zone && !isZoneOpen(zone)) {
+      toast.warning(
+        t('parking.outsideHours', { zone: zone.name, hours: formatOperatingHours(zone.operatingHours) })
+      );
+      return;
+    }
+
+    toast.success(
+      zone
+        ? vehicle
+          ? t('parking.startedInFor', { zone: zone.name, plate: vehicle.plate })
+          : t('parking.startedIn', { zone: zone.name })
+        : vehicle ? t('parking.startedFor', { plate: vehicle.plate }) : t('parking.started')
+    );
+  };
+
+  const handleSaveParkedCarDetails = async (details: ParkedCarDetails) => {
+    setParkedCarSheetVisible(false);
+    setParkedCar(await parkedCarStore.updateDetails(details));
+  };
+
+  const clearParkedCar = () => {
+    parkedCarStore.clear();
+    setParkedCar(null);
+  };
+
+  // Forget everything tied to the session that just ended
+  const resetSessionState = () => {
+    setActiveVehicle(null);
+    setActiveZone(null);
+    clearParkedCar();
+  };
+
+  const openExtendSheet = (minMinutes = 0) => {
+    if (!prepaidSession) return;
+    setPrepaidSheet({
+      mode: 'extend',
+      startedAt: prepaidSession.startedAt,
+      paidUntil: prepaidSession.paidUntil,
+      minMinutes,
+    });
+  };
+
+  // Keep a copy of the finished session for history and receipts. Prepaid
+  // sessions cost what was paid up front, others what the tariff quotes for
+  // the time on the stopped clock. The lines are worded as on the receipt, and
+  // left off when the amount came from elsewhere and they don't add up to it.
+  const recordCompletedSession = async (
+    mpesaReceipt: string,
+    billedTo: string | null = null,
+    paidAmount: number | null = null
+  ): Promise<CompletedSession | null> => {
+    const stopped = parking.stopParking();
+    if (!stopped) return null;
+    const { quote, receiptLines } = stopped;
+
+    const amount =
+      paidAmount ??
+      (prepaidSession ? prepaidSession.purchases.reduce((sum, purchase) => sum + purchase.amount, 0) : quote.total);
+    const session = await parking.completeParking({
+      mpesaReceipt,
+      amount,
+      billedTo,
+      tariffLines: prepaidSession
+        ? prepaidSession.purchases.map((purchase) => ({
+            label: translate(
+              'prepaid.purchaseLine',
+              {
+                duration: formatMinutesDuration(purchase.minutes, RECEIPT_LANGUAGE),
+                receipt: purchase.mpesaReceipt,
+              },
+              RECEIPT_LANGUAGE
+            ),
+            period: null,
+            minutes: purchase.minutes,
+            rate: null,
+            amount: purchase.amount,
+          }))
+        : amount === quote.total
+          ? receiptLines
+          : null,
+    });
+    return session;
+  };
+
+  // Clear the finished session away and point the driver at its receipt
+  const showReceiptPrompt = (
+    title: string,
+    message: string,
+    session: CompletedSession | null,
+    onDone: () => void
+  ) => {
+    haptics.notify(Haptics.NotificationFeedbackType.Success);
+    onDone();
+    toast.success(message, {
+      title,
+      action: session
+        ? {
+            label: t('receipt.view'),
+            onPress: () => router.push({ pathname: '/history/[id]', params: { id: session.id } }),
+          }
+        : undefined,
+    });
+  };
+
+  // Prepaid time is already paid for, so ending only needs a confirmation
+  const handleEndPrepaid = (session: PrepaidSession) => {
+    const remaining = parking.prepaidRemaining ?? 0;
+
+    if (remaining < 0) {
+      const overstayMinutes = Math.ceil(-remaining / 60);
+      Alert.alert(
+        t('parking.exceededTitle'),
+        t('parking.exceededMessage', { duration: formatMinutesDuration(overstayMinutes, language) }),
+        [
+          { text: t('parking.notNow'), style: 'cancel' },
+          { text: t('parking.extend'), onPress: () => openExtendSheet(overstayMinutes) },
+        ]
+      );
+      return;
     }
+
+    Alert.alert(
+      t('parking.endTitle'),
+      t('parking.endMessage'),
+      [
+        { text: t('parking.keepParking'), style: 'cancel' },
+        {
+          text: t('parking.endParking'),
+          onPress: async () => {
+            const lastPurchase = session.purchases[session.purchases.length - 1];
+            const completed = await recordCompletedSession(lastPurchase.mpesaReceipt);
+
+            showReceiptPrompt(t('parking.endedTitle'), t('parking.endedMessage'), completed, () => {
+              parking.resetParking();
+              resetSessionState();
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  // Pay for a prepaid block, either to start the session or to extend it
+  const handlePrepay = (minutes: number, amount: number) => {
+    if (!isOnline) {
+      toast.warning(t('offline.paymentBlocked'));
+      return;
+    }
+
+    const formattedPhone = toE164(payment.phoneNumber);
+    if (!formattedPhone) {
+      toast.error(t('payment.invalidPhone'));
+      return;
+    }
+
+    const isExtension = prepaidSheet?.mode === 'extend' && prepaidSession !== null;
+
+    payment.initiatePayment(
+      formattedPhone,
+      amount,
+      async (transaction) => {
+        const purchase = {
+          minutes,
+          amount,
+          mpesaReceipt: transaction.mpesaReceiptNumber || 'N/A',
+          paidAt: Date.now(),
+        };
+
+        if (isExtension && prepaidSession) {
+          await extendPrepaid(prepaidSession, purchase);
+        } else {
+          const pending = pendingStartRef.current;
+          pendingStartRef.current = null;
+          await beginParking(pending?.vehicle ?? null, pending?.position ?? null, pending?.zone ?? null);
+          await startPrepaid(purchase);
+        }
+
+        payment.resetPayment();
+        setPrepaidSheet(null);
+      },
+      (error: string) => {
+        toast.error(error, { title: t('payment.errorTitle') });
+      },
+      minutes
+    );
+  };
+
+  const startPrepaid = async (purchase: PrepaidPurchase) => {
+    const reminderIds = await scheduleExpiryReminders(purchase.paidAt + purchase.minutes * 60 * 1000);
+    await parking.prepay(purchase, reminderIds);
+  };
+
+  const extendPrepaid = async (session: PrepaidSession, purchase: PrepaidPurchase) => {
+    await cancelReminders(session.reminderIds);
+    const reminderIds = await scheduleExpiryReminders(session.paidUntil + purchase.minutes * 60 * 1000);
+    await parking.prepay(purchase, reminderIds);
+    toast.success(t('parking.extendedBy', { duration: formatMinutesDuration(purchase.minutes, language) }));
   };
 
   // Handle cancel payment
   const handleCancelPayment = () => {
     Alert.alert(
-      'Cancel Parking?',
-      'Are you sure you want to cancel this parking session?',
+      t('parking.cancelTitle'),
+      t('parking.cancelMessage'),
       [
         {
-          text: 'Continue Parking',
+          text: t('parking.continueParking'),
           onPress: () => {
             // Use resumeParking instead of startParking
-            parking.resumeParking(location?.coords);
+            parking.resumeParking();
             setPaymentModalVisible(false);
           },
           style: 'default',
         },
         {
-          text: 'Yes, Cancel',
+          text: t('parking.confirmCancel'),
           onPress: () => {
-            parking.resetParking();
             payment.resetPayment();
             setPaymentModalVisible(false);
-            showModal('Parking cancelled', 'warning');
+            // The session is only thrown away once the chance to undo has passed
+            toast.warning(t('parking.cancelled'), {
+              action: {
+                label: t('common.undo'),
+                onPress: () => parking.resumeParking(),
+              },
+              onDismiss: () => {
+                parking.cancelParking();
+                resetSessionState();
+              },
+            });
           },
           style: 'destructive',
         },
@@ -152,78 +491,141 @@ const Parking = () => {
 
   // Handle payment initiation
   const handleInitiatePayment = () => {
+    if (!isOnline) {
+      toast.warning(t('offline.paymentBlocked'));
+      return;
+    }
+
     if (!payment.phoneNumber.trim()) {
-      showModal('Please enter a phone number', 'error');
+      toast.error(t('payment.phoneRequired'));
       return;
     }
 
-    const formattedPhone = formatPhoneNumber(payment.phoneNumber);
+    const formattedPhone = toE164(payment.phoneNumber);
     if (!formattedPhone) {
-      showModal('Please enter a valid Kenyan phone number (e.g., 0712345678)', 'error');
+      toast.error(t('payment.invalidPhone'));
       return;
     }
 
+    // The amount asked for is what the session cost when the driver chose to pay
+    const stopped = parking.stopParking();
+    if (!stopped) return;
+    const { quote } = stopped;
+
     payment.initiatePayment(
       formattedPhone,
-      parking.parkingCost,
-      async (transaction) => {
-        // Save the parking session first
-        await parking.completeParking(transaction.mpesaReceiptNumber || 'N/A');
-        
-        Alert.alert(
-          'Payment Successful! 🎉',
-          `Receipt: ${transaction.mpesaReceiptNumber || 'N/A'}\n\nYour parking payment has been confirmed.`,
-          [
-            {
-              text: 'Done',
-              onPress: () => {
-                parking.resetParking();
-                payment.resetPayment();
-                setPaymentModalVisible(false);
-              },
-            },
-          ]
-        );
-      },
+      quote.total,
+      (transaction) => completePaidSession(transaction.mpesaReceiptNumber),
       (error) => {
-        Alert.alert('Payment Error', error, [{ text: 'OK' }]);
+        parking.resumeParking();
+        toast.error(error, { title: t('payment.errorTitle') });
       }
     );
   };
 
-  // Get modal styles
-  const getModalStyles = () => {
-    const styleMap = {
-      error: {
-        backgroundColor: '#fee',
-        borderColor: '#fcc',
-        icon: 'warning',
-        iconColor: '#ff3b30',
-      },
-      warning: {
-        backgroundColor: '#fff9e6',
-        borderColor: '#ffe58f',
-        icon: 'warning',
-        iconColor: '#faad14',
-      },
-      success: {
-        backgroundColor: '#f6ffed',
-        borderColor: '#b7eb8f',
-        icon: 'checkmark-circle',
-        iconColor: '#52c41a',
-      },
-    };
-    return styleMap[modalType];
+  // Paid on leaving: file the session and show its receipt
+  const completePaidSession = async (mpesaReceipt: string | null, paidAmount: number | null = null) => {
+    const completed = await recordCompletedSession(mpesaReceipt || 'N/A', null, paidAmount);
+
+    showReceiptPrompt(
+      t('payment.successTitle'),
+      t('payment.successMessage', { receipt: mpesaReceipt || t('common.notAvailable') }),
+      completed,
+      () => {
+        parking.resetParking();
+        payment.resetPayment();
+        resetSessionState();
+        setPaymentModalVisible(false);
+      }
+    );
   };
 
-  const modalStyles = getModalStyles();
+  // Charge the session to the fleet; the driver gets a charge reference instead of an M-Pesa receipt
+  const handleBillToCompany = async () => {
+    if (!fleet || !activeVehicle) return;
+    if (!isOnline) {
+      toast.warning(t('offline.paymentBlocked'));
+      return;
+    }
+
+    const sessionId = await sessionSync.getOpenSessionId();
+    if (!sessionId) {
+      toast.error(t('fleet.billFailed'), { title: t('payment.errorTitle') });
+      return;
+    }
+
+    // The backend prices the session; the clock stops while it does
+    if (!parking.stopParking()) return;
+
+    setBilling(true);
+    let charge: FleetCharge;
+    try {
+      charge = await fleetApi.bill(fleet.id, { sessionId, plate: activeVehicle.plate });
+    } catch (error) {
+      setBilling(false);
+      parking.resumeParking();
+      // Refused means the admin took the vehicle or the driver off the fleet,
+      // so refresh and the drawer falls back to M-Pesa
+      const refused = toApiError(error).status === 403;
+      if (refused) fleetStore.refresh();
+      toast.error(refused ? t('fleet.notAuthorised', { fleet: fleet.name }) : t('fleet.billFailed'), {
+        title: t('payment.errorTitle'),
+      });
+      return;
+    }
+
+    const completed = await recordCompletedSession(charge.reference, fleet.name, charge.amount);
+    setBilling(false);
+
+    showReceiptPrompt(
+      t('fleet.billedTitle'),
+      t('fleet.billedMessage', { fleet: fleet.name, reference: charge.reference }),
+      completed,
+      () => {
+        parking.resetParking();
+        payment.resetPayment();
+        resetSessionState();
+        setPaymentModalVisible(false);
+      }
+    );
+  };
+
+  // Refresh the position so nearby results are sorted from where the driver is now
+  const openNearbyParking = async () => {
+    const currentLocation = await locationService.getCurrentLocation();
+    if (currentLocation) {
+      setLocation(currentLocation);
+    }
+    setNearbyVisible(true);
+  };
+
+  // Highlight the chosen spot and bring it into view
+  const handleSpotSelected = (spot: NearbyParkingLocation) => {
+    setNearbyVisible(false);
+    setSelectedSpot(spot);
+    mapRef.current?.animateToRegion({
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+      latitudeDelta: 0.01,
+      longitudeDelta: 0.01,
+    });
+  };
+
+  const handleNavigate = async () => {
+    if (!selectedSpot) return;
+    try {
+      await openDirections(selectedSpot);
+    } catch {
+      toast.error(t('parking.directionsFailed'));
+    }
+  };
 
   // Fetch location
   useEffect(() => {
     (async () => {
       const hasPermission = await locationService.requestPermission();
       if (!hasPermission) {
-        showModal('Location permission is required', 'error');
+        toast.error(translate('parking.locationPermissionRequired'));
         setLoadingLocation(false);
         return;
       }
@@ -232,238 +634,498 @@ const Parking = () => {
       if (currentLocation) {
         setLocation(currentLocation);
       } else {
-        showModal('Unable to fetch location', 'error');
+        toast.error(translate('parking.locationUnavailable'));
       }
       setLoadingLocation(false);
     })();
+  }, [toast]);
+
+  // Restore where the car was left if the app restarted mid-session
+  useEffect(() => {
+    parkedCarStore.load().then(setParkedCar);
   }, []);
 
+  // A session picked back up after a restart brings its zone and vehicle with it
+  const sessionId = parking.session?.id;
+  const sessionZoneId = parking.session?.zoneId ?? null;
+  const sessionPlate = parking.session?.vehiclePlate ?? null;
+  useEffect(() => {
+    if (!sessionId) return;
+    setActiveZone(PARKING_ZONES.find((zone) => zone.id === sessionZoneId) ?? null);
+    vehicleStore.getAll().then((vehicles) =>
+      setActiveVehicle(vehicles.find((vehicle) => vehicle.plate === sessionPlate) ?? null)
+    );
+  }, [sessionId, sessionZoneId, sessionPlate]);
+
+  // A payment approved after the app was closed still counts: prepaid time
+  // starts or extends the session, and paying on leaving ends it for what was paid
+  const recoverPayment = (recovered: ReconciledCheckout) => {
+    payment.clearRecoveredPayment();
+    const { checkout, result } = recovered;
+
+    if (checkout.sessionId === null || parking.prepaid) {
+      if (!checkout.prepaidMinutes) return;
+      const purchase = {
+        minutes: checkout.prepaidMinutes,
+        amount: checkout.amount,
+        mpesaReceipt: result.mpesaReceiptNumber || 'N/A',
+        paidAt: checkout.createdAt,
+      };
+      if (checkout.sessionId === null && !parking.session) {
+        beginParking(null, null, null).then(() => startPrepaid(purchase));
+      } else if (parking.prepaid && checkout.sessionId === parking.session?.id) {
+        extendPrepaid(parking.prepaid, purchase);
+      }
+      return;
+    }
+
+    if (checkout.sessionId !== parking.session?.id) return;
+    parking.stopParking(checkout.createdAt);
+    completePaidSession(result.mpesaReceiptNumber, checkout.amount);
+  };
+
+  // Keep the latest handler so the payment is only recovered once, when it arrives
+  const recoverPaymentRef = useRef(recoverPayment);
+  useEffect(() => {
+    recoverPaymentRef.current = recoverPayment;
+  });
+
+  const { recoveredPayment } = payment;
+  const { isRestored } = parking;
+  useEffect(() => {
+    if (recoveredPayment && isRestored) recoverPaymentRef.current(recoveredPayment);
+  }, [recoveredPayment, isRestored]);
+
+  // Settles any reservation deposit left unconfirmed when the app last closed
+  useEffect(() => {
+    reservationStore.start();
+  }, []);
+
+  // Checking in on the reservation screen comes back here to start the session
+  const { isParking } = parking;
+  useEffect(() => {
+    if (!reservationId) return;
+    router.setParams({ reservationId: undefined });
+    if (isParking) return;
+    reservationStartRef.current = reservationId;
+    setVehiclePickerVisible(true);
+  }, [reservationId, isParking]);
+
+  // Saved M-Pesa numbers may change on the Profile screen while this one stays mounted
+  useFocusEffect(
+    useCallback(() => {
+      profileStore.load().then((profile) => setSavedNumbers(profile.phoneNumbers));
+    }, [])
+  );
+
+  // Pre-fill the default M-Pesa number whenever a payment is about to be asked for
+  const paymentRequested = paymentModalVisible || prepaidSheet !== null;
+  const { setPhoneNumber } = payment;
+  useEffect(() => {
+    const defaultNumber = savedNumbers.find((item) => item.isDefault);
+    if (paymentRequested && defaultNumber) {
+      // Only into an empty field, never over what the driver typed
+      setPhoneNumber((current) => (current.trim() ? current : toLocalPhoneNumber(defaultNumber.number)));
+    }
+  }, [paymentRequested, savedNumbers, setPhoneNumber]);
+
+  const prepaidRemaining = parking.prepaidRemaining;
+  const prepaidExpired = prepaidRemaining !== null && prepaidRemaining < 0;
+  // Prepaid time can't be bought past the zone's maximum stay; pay-as-you-go is held to it here
+  const maxStayRemaining =
+    parking.isParking && !prepaidSession && activeZone
+      ? activeZone.maxStayMinutes * 60 - parking.elapsedSeconds
+      : null;
+  const maxStayExceeded = maxStayRemaining !== null && maxStayRemaining < 0;
+
+  // Tell the driver to move once per session when the maximum stay runs out
+  const maxStayWarnedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!maxStayExceeded || !activeZone || !sessionId || maxStayWarnedRef.current === sessionId) return;
+    maxStayWarnedRef.current = sessionId;
+    haptics.notify(Haptics.NotificationFeedbackType.Warning);
+    toast.warning(
+      t('parking.maxStayReached', {
+        zone: activeZone.name,
+        duration: formatMinutesDuration(activeZone.maxStayMinutes, language),
+      })
+    );
+  }, [maxStayExceeded, activeZone, sessionId, toast, t, language]);
+
+  // Spoken form of the timer; minute precision so screen readers aren't flooded
+  const parkedMinutesLabel = parking.session
+    ? formatDuration(getElapsedSeconds(parking.session, minuteNow), language)
+    : parking.formatTime();
+
+  // Screen reader announcements for changes that are otherwise only visual
+  const { parkingCost } = parking;
+  const lastAnnouncedCostRef = useRef<number | null>(null);
+  useEffect(() => {
+    const previousCost = lastAnnouncedCostRef.current;
+    lastAnnouncedCostRef.current = isParking ? parkingCost : null;
+    if (!screenReaderEnabled || previousCost === null || previousCost === parkingCost) return;
+    AccessibilityInfo.announceForAccessibility(
+      t('a11y.costChanged', { cost: formatCurrency(parkingCost), duration: parkedMinutesLabel })
+    );
+  }, [isParking, parkingCost, screenReaderEnabled, t, formatCurrency, parkedMinutesLabel]);
+
+  // Once each time the paid time runs out
+  const announcedExpiryRef = useRef(false);
+  useEffect(() => {
+    if (!prepaidExpired) {
+      announcedExpiryRef.current = false;
+      return;
+    }
+    if (!screenReaderEnabled || announcedExpiryRef.current) return;
+    announcedExpiryRef.current = true;
+    AccessibilityInfo.announceForAccessibility(t('a11y.prepaidExpired'));
+  }, [prepaidExpired, screenReaderEnabled, t]);
+
+  // Android reads the drawer subtitle through its live region instead
+  const { paymentStatus } = payment;
+  useEffect(() => {
+    if (Platform.OS === 'ios' && paymentStatus === 'pending') {
+      AccessibilityInfo.announceForAccessibility(t('payment.waitingOnPhone'));
+    }
+  }, [paymentStatus, t]);
+
+  // Distance and direction from the driver back to the car
+  const youAreHere: LatLng | null = liveLocation ?? location?.coords ?? null;
+  const wayBack = parkedCar && youAreHere
+    ? {
+        distance: formatDistance(getDistanceMeters(youAreHere, parkedCar.coords)),
+        direction: formatBearing(getBearingDegrees(youAreHere, parkedCar.coords)),
+      }
+    : null;
+  const spotDetails = parkedCar
+    ? [
+        parkedCar.floor && t('parking.floor', { floor: parkedCar.floor }),
+        parkedCar.bay && t('parking.bay', { bay: parkedCar.bay }),
+        parkedCar.notes,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : '';
+
   return (
     <TailwindProvider>
-      <View style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor="transparent" translucent />
-        
-        {/* Dynamic Modal */}
-        <Modal
-          animationType="fade"
-          transparent={true}
-          visible={modalVisible}
-          onRequestClose={() => setModalVisible(false)}
-        >
-          <View style={styles.modalOverlay}>
-            <View style={[styles.modalContent, 
-              { backgroundColor: modalStyles.backgroundColor, borderColor: modalStyles.borderColor }]}>
-              <View style={styles.modalHeader}>
-                <Ionicons 
-                  name={modalStyles.icon as any} 
-                  size={24} 
-                  color={modalStyles.iconColor} 
-                />
-                <Text style={styles.modalTitle}>
-                  {modalType === 'error' ? 'Error' : 
-                   modalType === 'warning' ? 'Warning' : 'Success'}
-                </Text>
-              </View>
-              <Text style={styles.modalMessage}>{modalMessage}</Text>
-              <View style={styles.modalProgressBar}>
-                <View 
-                  style={[
-                    styles.modalProgressFill,
-                    { backgroundColor: modalStyles.iconColor }
-                  ]} 
-                />
-              </View>
-            </View>
-          </View>
-        </Modal>
+      <View style={[styles.container, surfaceStyles.screen]}>
+        <StatusBar
+          barStyle={colorScheme === 'dark' ? 'light-content' : 'dark-content'}
+          backgroundColor="transparent"
+          translucent
+        />
 
-        {/* Payment Modal - Minimizable Drawer */}
-        <Modal
-          animationType="none"
-          transparent={true}
+        <VehiclePicker
+          visible={vehiclePickerVisible}
+          onSelect={handleVehicleSelected}
+          onClose={() => {
+            reservationStartRef.current = null;
+            setVehiclePickerVisible(false);
+          }}
+        />
+
+        {prepaidSheet && (
+          <PrepaidSheet
+            visible
+            mode={prepaidSheet.mode}
+            tariff={activeZone?.tariff ?? DEFAULT_TARIFF}
+            startedAt={prepaidSheet.startedAt}
+            paidUntil={prepaidSheet.paidUntil}
+            maxStayMinutes={activeZone?.maxStayMinutes ?? null}
+            minMinutes={prepaidSheet.minMinutes}
+            phoneNumber={payment.phoneNumber}
+            onChangePhoneNumber={payment.setPhoneNumber}
+            isProcessing={payment.isProcessingPayment}
+            isWaitingForConfirmation={payment.paymentStatus === 'pending'}
+            onPay={handlePrepay}
+            onClose={() => {
+              pendingStartRef.current = null;
+              setPrepaidSheet(null);
+            }}
+          />
+        )}
+
+        <ParkedCarSheet
+          visible={parkedCarSheetVisible}
+          parkedCar={parkedCar}
+          onSave={handleSaveParkedCarDetails}
+          onClose={() => setParkedCarSheetVisible(false)}
+        />
+
+        {location && (
+          <NearbyParkingSheet
+            visible={nearbyVisible}
+            origin={location.coords}
+            onSelect={handleSpotSelected}
+            onClose={() => setNearbyVisible(false)}
+          />
+        )}
+
+        {/* Payment Drawer - minimizable bottom sheet */}
+        <BottomSheet
           visible={paymentModalVisible}
-          onRequestClose={() => !payment.isProcessingPayment && handleCancelPayment()}
+          snapPoints={PAYMENT_SNAP_POINTS}
+          index={paymentSheetIndex}
+          onIndexChange={setPaymentSheetIndex}
+          dismissible={!isSettling}
+          onRequestClose={handleCancelPayment}
+          expandLabel={t('a11y.expandPayment')}
+          collapseLabel={t('a11y.collapsePayment')}
         >
-          <View style={paymentStyles.overlay}>
-            <TouchableOpacity 
-              style={paymentStyles.backdrop}
-              activeOpacity={0.8}
-              onPress={() => !payment.isProcessingPayment && handleCancelPayment()}
-            />
-            
-            <Animated.View
-              style={[
-                paymentStyles.drawer,
-                { height: drawerHeight }
-              ]}
-              {...panResponder.panHandlers}
+          {/* Header with Close Button */}
+          <View style={paymentStyles.headerContainer}>
+            <TouchableOpacity
+              style={{ flex: 1 }}
+              disabled={!isDrawerMinimized}
+              onPress={() => setPaymentSheetIndex(PAYMENT_EXPANDED)}
+              accessibilityRole="header"
             >
-              {/* Drawer Handle */}
-              <View style={paymentStyles.handleContainer}>
-                <View style={paymentStyles.handle} />
-              </View>
-
-              {/* Header with Close Button */}
-              <View style={paymentStyles.headerContainer}>
-                <View style={{ flex: 1 }}>
-                  <Text style={styles.paymentModalTitle}>Complete Payment</Text>
-                  {isDrawerMinimized && (
-                    <Text style={paymentStyles.minimizedSubtitle}>
-                      Tap to expand • KSH {parking.parkingCost}
-                    </Text>
-                  )}
-                </View>
-                <TouchableOpacity
-                  onPress={handleCancelPayment}
-                  disabled={payment.isProcessingPayment}
-                  style={paymentStyles.closeButton}
-                >
-                  <Ionicons 
-                    name="close" 
-                    size={24} 
-                    color={payment.isProcessingPayment ? '#ccc' : CONFIG.UI.COLORS.TEXT_PRIMARY}
-                  />
-                </TouchableOpacity>
-              </View>
+              <Text
+                style={[styles.paymentModalTitle, surfaceStyles.text]}
+                maxFontSizeMultiplier={MAX_CONTROL_FONT_SCALE}
+              >
+                {t('payment.title')}
+              </Text>
+              {isDrawerMinimized && (
+                <Text style={paymentStyles.minimizedSubtitle} maxFontSizeMultiplier={MAX_CONTROL_FONT_SCALE}>
+                  {t('payment.tapToExpand', { amount: formatCurrency(parking.parkingCost) })}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleCancelPayment}
+              disabled={isSettling}
+              style={paymentStyles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('payment.cancelPayment')}
+            >
+              <Ionicons 
+                name="close" 
+                size={24} 
+                color={isSettling ? palette.disabled : palette.text}
+              />
+            </TouchableOpacity>
+          </View>
 
-              {/* Scrollable Content */}
-              {!isDrawerMinimized && (
-                <KeyboardAvoidingView
-                  behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-                  style={{ flex: 1 }}
-                  keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+          {/* Scrollable Content */}
+          {!isDrawerMinimized && (
+            <BottomSheetScrollView keyboardShouldPersistTaps="handled">
+              <View style={styles.paymentModalContent}>
+                <Text
+                  style={[styles.paymentModalSubtitle, surfaceStyles.textSecondary]}
+                  accessibilityLiveRegion="polite"
                 >
-                  <View style={styles.paymentModalContent}>
-                    <Text style={styles.paymentModalSubtitle}>
-                      {payment.paymentStatus === 'pending' 
-                        ? 'Waiting for payment confirmation...' 
-                        : 'Enter your phone number to pay'}
-                    </Text>
+                  {payment.paymentStatus === 'pending' 
+                    ? t('payment.waitingForConfirmation') 
+                    : fleet
+                      ? t('fleet.billSubtitle')
+                      : t('payment.enterPhone')}
+                </Text>
 
-                    <View style={styles.summarySectionPayment}>
-                      <View style={styles.summaryRow}>
-                        <Text style={styles.summaryLabel}>Duration</Text>
-                        <Text style={styles.summaryValue}>{parking.formatTime()}</Text>
-                      </View>
-                      <View style={styles.summaryDivider} />
+                <View style={styles.summarySectionPayment}>
+                  {activeVehicle && (
+                    <>
                       <View style={styles.summaryRow}>
-                        <Text style={styles.summaryLabel}>Rate</Text>
-                        <Text style={styles.summaryValue}>KSH {CONFIG.PARKING.HOURLY_RATE}/hr</Text>
+                        <Text style={[styles.summaryLabel, surfaceStyles.textSecondary]}>{t('payment.vehicle')}</Text>
+                        <Text style={[styles.summaryValue, surfaceStyles.text]}>{activeVehicle.plate}</Text>
                       </View>
-                      <View style={styles.summaryDivider} />
-                      <View style={styles.summaryRow}>
-                        <Text style={styles.summaryLabelTotal}>Total Amount</Text>
-                        <Text style={styles.summaryValueTotal}>KSH {parking.parkingCost}</Text>
-                      </View>
-                    </View>
+                      <View style={[styles.summaryDivider, surfaceStyles.divider]} />
+                    </>
+                  )}
+                  <View style={styles.summaryRow}>
+                    <Text style={[styles.summaryLabel, surfaceStyles.textSecondary]}>{t('payment.duration')}</Text>
+                    <Text style={[styles.summaryValue, surfaceStyles.text]}>{parking.formatTime()}</Text>
+                  </View>
+                  <View style={[styles.summaryDivider, surfaceStyles.divider]} />
+                  {parking.quote && parking.quote.lines.length > 0 && (
+                    <>
+                      <TariffBreakdown
+                        quote={parking.quote}
+                        rowStyle={styles.summaryRow}
+                        labelStyle={[styles.summaryLabel, surfaceStyles.textSecondary]}
+                        valueStyle={[styles.summaryValue, surfaceStyles.text]}
+                      />
+                      <View style={[styles.summaryDivider, surfaceStyles.divider]} />
+                    </>
+                  )}
+                  <View style={styles.summaryRow}>
+                    <Text style={[styles.summaryLabelTotal, surfaceStyles.text]}>{t('payment.total')}</Text>
+                    <Text style={[styles.summaryValueTotal, surfaceStyles.text]}>{formatCurrency(parking.parkingCost)}</Text>
+                  </View>
+                </View>
 
-                    {payment.paymentStatus === 'pending' ? (
-                      <View style={styles.paymentProcessingContainer}>
-                        <ActivityIndicator size="large" color={CONFIG.UI.COLORS.PRIMARY} />
-                        <Text style={styles.processingText}>
-                          Waiting for you to complete payment on your phone...
-                        </Text>
-                        <Text style={styles.processingHint}>
-                          Check your phone for M-Pesa STK Push prompt
-                        </Text>
-                        
-                        {payment.checkoutRequestID && (
-                          <View style={styles.transactionInfo}>
-                            <Text style={styles.transactionId}>
-                              Transaction ID: {payment.checkoutRequestID.substring(0, 12)}...
-                            </Text>
-                          </View>
-                        )}
-                      </View>
-                    ) : (
-                      <View style={styles.inputSection}>
-                        <Text style={styles.inputLabel}>Phone Number</Text>
-                        <View style={styles.phoneInputContainer}>
-                          <Text style={styles.countryCode}>+{CONFIG.PHONE.COUNTRY_CODE}</Text>
-                          <TextInput
-                            ref={phoneInputRef}
-                            style={styles.phoneInput}
-                            placeholder="712 345 678"
-                            placeholderTextColor="#ccc"
-                            keyboardType="phone-pad"
-                            value={payment.phoneNumber}
-                            onChangeText={payment.setPhoneNumber}
-                            maxLength={CONFIG.PHONE.MAX_LENGTH}
-                            editable={!payment.isProcessingPayment}
-                            returnKeyType="go"
-                            onSubmitEditing={handleInitiatePayment}
-                          />
-                        </View>
-                        <Text style={styles.inputHint}>
-                          Enter your M-Pesa registered phone number
+                {payment.paymentStatus === 'pending' ? (
+                  <View style={styles.paymentProcessingContainer}>
+                    <ActivityIndicator size="large" color={palette.primary} />
+                    <Text style={[styles.processingText, surfaceStyles.text]}>
+                      {t('payment.waitingOnPhone')}
+                    </Text>
+                    <Text style={[styles.processingHint, surfaceStyles.textSecondary]}>
+                      {t('payment.checkPhone')}
+                    </Text>
+                    
+                    {payment.checkoutRequestID && (
+                      <View style={[styles.transactionInfo, surfaceStyles.muted]}>
+                        <Text style={[styles.transactionId, surfaceStyles.textSecondary]}>
+                          {t('payment.transactionId', { id: payment.checkoutRequestID.substring(0, 12) })}
                         </Text>
                       </View>
                     )}
-
-                    <View style={styles.paymentButtonContainer}>
-                      <Text style={styles.paymentInfo}>
-                        A payment prompt will be sent to your phone via M-Pesa
-                      </Text>
-                      
-                      <View style={styles.buttonGroup}>
-                        {payment.paymentStatus === 'pending' ? (
-                          <TouchableOpacity
-                            style={paymentStyles.cancelPaymentButton}
-                            onPress={() => payment.cancelPayment()}
-                          >
-                            <Text style={paymentStyles.cancelPaymentButtonText}>
-                              Cancel Payment
-                            </Text>
-                          </TouchableOpacity>
-                        ) : (
-                          <>
-                            <TouchableOpacity
-                              style={[styles.payButton, payment.isProcessingPayment && styles.payButtonDisabled]}
-                              onPress={handleInitiatePayment}
-                              disabled={payment.isProcessingPayment}
-                            >
-                              {payment.isProcessingPayment ? (
-                                <ActivityIndicator size="small" color="white" />
-                              ) : (
-                                <>
-                                  <Ionicons name="card-outline" size={20} color="white" />
-                                  <Text style={styles.payButtonText}>
-                                    Pay KSH {parking.parkingCost}
-                                  </Text>
-                                </>
-                              )}
-                            </TouchableOpacity>
-                            
+                  </View>
+                ) : fleet ? (
+                  <View style={styles.inputSection}>
+                    <Text style={[styles.inputLabel, surfaceStyles.text]}>{t('fleet.billTo')}</Text>
+                    <View style={[styles.phoneInputContainer, surfaceStyles.muted]}>
+                      <Ionicons name="business-outline" size={20} color={palette.primary} />
+                      <Text style={[styles.phoneInput, surfaceStyles.text]}>{fleet.name}</Text>
+                    </View>
+                    <Text style={[styles.inputHint, surfaceStyles.textSecondary]}>
+                      {t('fleet.billHint')}
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={styles.inputSection}>
+                    <Text style={[styles.inputLabel, surfaceStyles.text]}>{t('payment.phoneNumber')}</Text>
+                    {savedNumbers.length > 0 && (
+                      <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={paymentStyles.quickPicks}
+                        keyboardShouldPersistTaps="handled"
+                      >
+                        {savedNumbers.map((item) => {
+                          const selected = toE164(payment.phoneNumber) === item.number;
+                          return (
                             <TouchableOpacity
-                              onPress={handleCancelPayment}
+                              key={item.id}
+                              style={[
+                                paymentStyles.quickPick,
+                                selected && paymentStyles.quickPickSelected,
+                              ]}
+                              onPress={() => payment.setPhoneNumber(toLocalPhoneNumber(item.number))}
                               disabled={payment.isProcessingPayment}
                             >
-                              <Text style={[
-                                styles.cancelButton,
-                                payment.isProcessingPayment && { opacity: 0.5 }
-                              ]}>
-                                Cancel
+                              <Text
+                                style={[
+                                  paymentStyles.quickPickText,
+                                  selected && paymentStyles.quickPickTextSelected,
+                                ]}
+                              >
+                                {item.label || formatSavedPhoneNumber(item.number)}
                               </Text>
                             </TouchableOpacity>
-                          </>
-                        )}
-                      </View>
+                          );
+                        })}
+                      </ScrollView>
+                    )}
+                    <View style={[styles.phoneInputContainer, surfaceStyles.muted]}>
+                      <Text style={[styles.countryCode, surfaceStyles.text]}>+{CONFIG.PHONE.COUNTRY_CODE}</Text>
+                      <BottomSheetTextInput
+                        ref={phoneInputRef}
+                        style={[styles.phoneInput, surfaceStyles.text]}
+                        placeholder="712 345 678"
+                        placeholderTextColor={palette.disabled}
+                        keyboardType="phone-pad"
+                        value={payment.phoneNumber}
+                        onChangeText={payment.setPhoneNumber}
+                        maxLength={CONFIG.PHONE.MAX_LENGTH}
+                        editable={!payment.isProcessingPayment}
+                        returnKeyType="go"
+                        onSubmitEditing={handleInitiatePayment}
+                      />
                     </View>
+                    <Text style={[styles.inputHint, surfaceStyles.textSecondary]}>
+                      {t('payment.phoneHint')}
+                    </Text>
                   </View>
-                </KeyboardAvoidingView>
-              )}
-            </Animated.View>
-          </View>
-        </Modal>
+                )}
+
+                <View style={styles.paymentButtonContainer}>
+                  {isOnline ? (
+                    <Text style={[styles.paymentInfo, surfaceStyles.textSecondary]}>
+                      {fleet ? t('fleet.invoiceInfo') : t('payment.promptInfo')}
+                    </Text>
+                  ) : (
+                    <View style={offlineStyles.notice} accessibilityLiveRegion="polite">
+                      <Ionicons name="cloud-offline-outline" size={16} color={palette.warning} />
+                      <Text style={[offlineStyles.noticeText, surfaceStyles.text]}>
+                        {t('offline.paymentBlocked')}
+                      </Text>
+                    </View>
+                  )}
+                  
+                  <View style={styles.buttonGroup}>
+                    {payment.paymentStatus === 'pending' ? (
+                      <TouchableOpacity
+                        style={paymentStyles.cancelPaymentButton}
+                        onPress={() => {
+                          payment.cancelPayment();
+                          parking.resumeParking();
+                        }}
+                      >
+                        <Text style={paymentStyles.cancelPaymentButtonText}>
+                          {t('payment.cancelPayment')}
+                        </Text>
+                      </TouchableOpacity>
+                    ) : (
+                      <>
+                        <TouchableOpacity
+                          style={[
+                            styles.payButton,
+                            surfaceStyles.payButton,
+                            (isSettling || !isOnline) && styles.payButtonDisabled,
+                          ]}
+                          onPress={fleet ? handleBillToCompany : handleInitiatePayment}
+                          disabled={isSettling || !isOnline}
+                        >
+                          {isSettling ? (
+                            <ActivityIndicator size="small" color={palette.onPrimary} />
+                          ) : (
+                            <>
+                              <Ionicons
+                                name={fleet ? 'business-outline' : 'card-outline'}
+                                size={20}
+                                color={palette.onPrimary}
+                              />
+                              <Text style={styles.payButtonText}>
+                                {fleet
+                                  ? t('fleet.billButton', { amount: formatCurrency(parking.parkingCost) })
+                                  : t('payment.pay', { amount: formatCurrency(parking.parkingCost) })}
+                              </Text>
+                            </>
+                          )}
+                        </TouchableOpacity>
+                        
+                        <TouchableOpacity
+                          onPress={handleCancelPayment}
+                          disabled={isSettling}
+                        >
+                          <Text style={[
+                            styles.cancelButton,
+                            isSettling && { opacity: 0.5 }
+                          ]}>
+                            {t('common.cancel')}
+                          </Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </View>
+                </View>
+              </View>
+            </BottomSheetScrollView>
+          )}
+        </BottomSheet>
         
         {/* Map Background */}
         {loadingLocation ? (
-          <View style={styles.loadingContainer}>
-            <Ionicons name="location" size={48} color={CONFIG.UI.COLORS.PRIMARY} />
-            <Text style={styles.loadingText}>Finding your location...</Text>
+          <View style={[styles.loadingContainer, surfaceStyles.screen]}>
+            <Ionicons name="location" size={48} color={palette.primary} />
+            <Text style={[styles.loadingText, surfaceStyles.text]}>{t('parking.findingLocation')}</Text>
           </View>
         ) : location ? (
           <MapView
+            ref={mapRef}
             style={styles.map}
             initialRegion={{
               latitude: location.coords.latitude,
@@ -471,55 +1133,246 @@ const Parking = () => {
               latitudeDelta: 0.01,
               longitudeDelta: 0.01,
             }}
-            customMapStyle={mapStyle}>
+            customMapStyle={colorScheme === 'dark' ? darkMapStyle : mapStyle}
+            userInterfaceStyle={colorScheme}>
+            {PARKING_ZONES.map((zone) => (
+              <Polygon
+                key={zone.id}
+                coordinates={zone.polygon}
+                strokeColor={zone.color}
+                fillColor={`${zone.color}33`}
+                strokeWidth={activeZone?.id === zone.id ? 3 : 1}
+              />
+            ))}
             <Marker
-              coordinate={{
+              coordinate={parking.isParking && parkedCar ? parkedCar.coords : {
                 latitude: location.coords.latitude,
                 longitude: location.coords.longitude,
               }}
             >
               <View style={styles.markerContainer}>
-                <View style={[styles.markerPin, parking.isParking && styles.markerPinActive]}>
-                  <Ionicons name="car" size={16} color="white" />
+                <View style={[styles.markerPin, parking.isParking && surfaceStyles.markerPinActive]}>
+                  <Ionicons name="car" size={16} color={palette.onPrimary} />
                 </View>
                 <View style={styles.markerPulse} />
               </View>
             </Marker>
+            {parking.isParking && liveLocation && (
+              <Marker coordinate={liveLocation} anchor={{ x: 0.5, y: 0.5 }} title={t('parking.youAreHere')}>
+                <View style={findCarStyles.youAreHere} />
+              </Marker>
+            )}
+            {selectedSpot && (
+              <Marker
+                coordinate={{ latitude: selectedSpot.latitude, longitude: selectedSpot.longitude }}
+                title={selectedSpot.name}
+                description={t('common.perHour', { amount: formatCurrency(selectedSpot.hourlyRate) })}
+                pinColor={palette.primary}
+              />
+            )}
           </MapView>
         ) : (
-          <View style={styles.loadingContainer}>
-            <Ionicons name="location-off" size={48} color={CONFIG.UI.COLORS.DANGER} />
-            <Text style={styles.errorText}>Unable to fetch location</Text>
+          <View style={[styles.loadingContainer, surfaceStyles.screen]}>
+            <Ionicons name="location-off" size={48} color={palette.danger} />
+            <Text style={[styles.errorText, surfaceStyles.errorText]}>{t('parking.locationUnavailable')}</Text>
           </View>
         )}
 
         {/* Status Card */}
-        <View style={styles.statusCard}>
+        <View style={[styles.statusCard, surfaceStyles.surface]}>
           <View style={styles.statusHeader}>
             <View style={[styles.statusIndicator, parking.isParking ? styles.statusActive : styles.statusInactive]} />
-            <Text style={styles.statusText}>
-              {parking.isParking ? 'Parking Active' : 'Ready to Park'}
+            <Text style={[styles.statusText, surfaceStyles.text]}>
+              {parking.isParking ? t('parking.statusActive') : t('parking.statusReady')}
             </Text>
+            {!parking.isParking && location && (
+              <TouchableOpacity
+                onPress={openNearbyParking}
+                style={nearbyStyles.searchButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.showNearby')}
+              >
+                <Ionicons name="search" size={20} color={palette.primary} />
+              </TouchableOpacity>
+            )}
           </View>
+
+          {!isOnline && (
+            <View style={offlineStyles.banner} accessibilityLiveRegion="polite">
+              <Ionicons name="cloud-offline-outline" size={16} color={palette.warning} />
+              <Text style={[offlineStyles.noticeText, surfaceStyles.text]}>
+                {pendingSessionEvents > 0
+                  ? t('offline.pendingChanges', { count: pendingSessionEvents })
+                  : t('offline.banner')}
+              </Text>
+            </View>
+          )}
+
+          {!parking.isParking && selectedSpot && (
+            <View style={nearbyStyles.spotCard}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.summaryLabelTotal, surfaceStyles.text]}>{selectedSpot.name}</Text>
+                <Text style={[styles.rateText, surfaceStyles.textSecondary]}>
+                  {t('parking.spotSummary', {
+                    distance: formatDistance(selectedSpot.distanceMeters),
+                    rate: t('common.perHour', { amount: formatCurrency(selectedSpot.hourlyRate) }),
+                    spaces: t('nearby.spaces', { count: selectedSpot.capacity }),
+                  })}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={handleNavigate} style={nearbyStyles.navigateButton}>
+                <Ionicons name="navigate" size={16} color={palette.onPrimary} />
+                <Text style={nearbyStyles.navigateText}>{t('parking.navigate')}</Text>
+              </TouchableOpacity>
+              {selectedSpot.kind === 'lot' && (
+                <TouchableOpacity
+                  onPress={() => router.push({ pathname: '/reservations/new', params: { lotId: selectedSpot.id } })}
+                  style={nearbyStyles.navigateButton}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('reservations.reserveAt', { lot: selectedSpot.name })}
+                >
+                  <Ionicons name="calendar-outline" size={16} color={palette.onPrimary} />
+                  <Text style={nearbyStyles.navigateText}>{t('reservations.reserve')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => setSelectedSpot(null)}
+                style={nearbyStyles.clearButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.close')}
+              >
+                <Ionicons name="close" size={18} color={palette.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
           
           {parking.isParking && (
             <View style={styles.timerContainer}>
-              <View style={styles.timerRow}>
+              <View
+                style={styles.timerRow}
+                accessible
+                accessibilityLabel={t('a11y.parkingTimer', {
+                  duration: parkedMinutesLabel,
+                  cost: formatCurrency(parking.parkingCost),
+                })}
+              >
                 <View style={styles.timerItem}>
-                  <Ionicons name="time-outline" size={16} color={CONFIG.UI.COLORS.TEXT_SECONDARY} />
-                  <Text style={styles.timerLabel}>Duration</Text>
-                  <Text style={styles.timerValue}>{parking.formatTime()}</Text>
+                  <Ionicons name="time-outline" size={16} color={palette.textSecondary} />
+                  <Text style={[styles.timerLabel, surfaceStyles.textSecondary]}>{t('parking.duration')}</Text>
+                  <Text
+                    style={[styles.timerValue, surfaceStyles.text]}
+                    maxFontSizeMultiplier={MAX_CONTROL_FONT_SCALE}
+                  >
+                    {parking.formatTime()}
+                  </Text>
                 </View>
                 
                 <View style={styles.timerItem}>
-                  <Ionicons name="cash-outline" size={16} color={CONFIG.UI.COLORS.TEXT_SECONDARY} />
-                  <Text style={styles.timerLabel}>Current Cost</Text>
-                  <Text style={styles.costValue}>KSH {parking.parkingCost}</Text>
+                  <Ionicons name="cash-outline" size={16} color={palette.textSecondary} />
+                  <Text style={[styles.timerLabel, surfaceStyles.textSecondary]}>{t('parking.currentCost')}</Text>
+                  <Text style={[styles.costValue, surfaceStyles.costValue]} maxFontSizeMultiplier={MAX_CONTROL_FONT_SCALE}>
+                    {formatCurrency(parking.parkingCost)}
+                  </Text>
                 </View>
               </View>
               
+              {prepaidSession && prepaidRemaining !== null && (
+                <View style={prepaidStyles.row}>
+                  <Ionicons
+                    name={prepaidRemaining < 0 ? 'alert-circle' : 'hourglass-outline'}
+                    size={18}
+                    color={prepaidRemaining < 0 ? palette.danger : palette.primary}
+                  />
+                  <Text
+                    style={[
+                      styles.rateText,
+                      surfaceStyles.textSecondary,
+                      prepaidStyles.text,
+                      prepaidRemaining < 0 && { color: palette.danger },
+                    ]}
+                  >
+                    {prepaidRemaining >= 0
+                      ? t('parking.prepaidLeft', {
+                          time: formatCountdown(prepaidRemaining),
+                          until: formatSessionTime(prepaidSession.paidUntil, language),
+                        })
+                      : t('parking.overstayed', { time: formatCountdown(-prepaidRemaining) })}
+                  </Text>
+                  <TouchableOpacity onPress={() => openExtendSheet()} style={prepaidStyles.extendButton}>
+                    <Text style={prepaidStyles.extendText}>{t('parking.extend')}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {maxStayRemaining !== null && (
+                <View style={prepaidStyles.row}>
+                  <Ionicons
+                    name={maxStayExceeded ? 'alert-circle' : 'hourglass-outline'}
+                    size={18}
+                    color={maxStayExceeded ? palette.danger : palette.primary}
+                  />
+                  <Text
+                    style={[
+                      styles.rateText,
+                      surfaceStyles.textSecondary,
+                      prepaidStyles.text,
+                      maxStayExceeded && { color: palette.danger },
+                    ]}
+                  >
+                    {maxStayExceeded
+                      ? t('parking.maxStayExceeded', { time: formatCountdown(-maxStayRemaining) })
+                      : t('parking.maxStayLeft', { time: formatCountdown(maxStayRemaining) })}
+                  </Text>
+                </View>
+              )}
+
+              {parkedCar && (
+                <TouchableOpacity
+                  style={findCarStyles.carRow}
+                  onPress={() => setParkedCarSheetVisible(true)}
+                >
+                  <Ionicons name="navigate-circle-outline" size={18} color={palette.primary} />
+                  <View style={{ flex: 1, marginLeft: CONFIG.UI.SPACING.XS }}>
+                    <Text style={[styles.rateText, surfaceStyles.textSecondary]}>
+                      {wayBack
+                        ? t('parking.yourCar', { distance: wayBack.distance, direction: wayBack.direction })
+                        : t('parking.carSaved')}
+                    </Text>
+                    <Text style={[styles.rateText, surfaceStyles.textSecondary]} numberOfLines={1}>
+                      {spotDetails || t('parking.addSpotDetails')}
+                    </Text>
+                  </View>
+                  <Ionicons
+                    name={parkedCar.photoUri ? 'image' : 'camera-outline'}
+                    size={18}
+                    color={palette.textSecondary}
+                  />
+                </TouchableOpacity>
+              )}
+
+              {activeVehicle && (
+                <View style={styles.rateInfo}>
+                  <Text style={[styles.rateText, surfaceStyles.textSecondary]}>
+                    {t('parking.vehicle', { plate: activeVehicle.plate })}
+                    {activeVehicle.nickname ? ` (${activeVehicle.nickname})` : ''}
+                  </Text>
+                </View>
+              )}
+
               <View style={styles.rateInfo}>
-                <Text style={styles.rateText}>Rate: KSH {CONFIG.PARKING.HOURLY_RATE} per hour</Text>
+                {activeZone ? (
+                  <Text style={[styles.rateText, surfaceStyles.textSecondary]}>
+                    {t('parking.zoneSummary', {
+                      zone: activeZone.name,
+                      rate: formatTariffRate(activeZone.tariff, formatCurrency, t),
+                      hours: formatMinutesDuration(activeZone.maxStayMinutes, language),
+                    })}
+                  </Text>
+                ) : (
+                  <Text style={[styles.rateText, surfaceStyles.textSecondary]}>
+                    {t('parking.rate', { rate: formatTariffRate(DEFAULT_TARIFF, formatCurrency, t) })}
+                  </Text>
+                )}
               </View>
             </View>
           )}
@@ -527,53 +1380,73 @@ const Parking = () => {
 
         {/* Bottom Slider */}
         <View style={styles.bottomContainer}>
-          <View style={styles.sliderCard}>
+          <View style={[styles.sliderCard, surfaceStyles.surface]}>
             <View style={styles.sliderHeader}>
               <Ionicons 
                 name={parking.isParking ? "lock-closed" : "lock-open"} 
                 size={20} 
-                color={parking.isParking ? CONFIG.UI.COLORS.DANGER : CONFIG.UI.COLORS.TEXT_SECONDARY} 
+                color={parking.isParking ? palette.danger : palette.textSecondary} 
               />
-              <Text style={styles.sliderTitle}>
-                {parking.isParking ? 'Parking Active' : 'Start Parking'}
+              <Text style={[styles.sliderTitle, surfaceStyles.text]}>
+                {parking.isParking ? t('parking.statusActive') : t('parking.startParking')}
               </Text>
             </View>
             
-            <SwipeButton
-              key={parking.isParking ? 'parking-active' : 'parking-inactive'}
-              height={56}
-              width={Dimensions.get('window').width - 80}
-              railBackgroundColor="#f0f0f0"
-              railFillBackgroundColor={parking.isParking ? CONFIG.UI.COLORS.DANGER : CONFIG.UI.COLORS.PRIMARY}
-              railFillBorderColor="transparent"
-              railBorderColor="transparent"
-              thumbIconBackgroundColor="white"
-              thumbIconBorderColor="transparent"
-              thumbIconComponent={() => (
-                <View style={styles.thumbIcon}>
-                  <Ionicons 
-                    name="car" 
-                    size={24} 
-                    color={parking.isParking ? CONFIG.UI.COLORS.DANGER : CONFIG.UI.COLORS.PRIMARY} 
-                  />
-                </View>
-              )}
-              title={parking.isParking ? "Slide to stop" : "Slide to start parking"}
-              titleColor={CONFIG.UI.COLORS.TEXT_PRIMARY}
-              titleFontSize={16}
-              titleStyles={{ fontWeight: '600' }}
-              onSwipeSuccess={toggleParking}
-              railStyles={{ borderRadius: 28 }}
-              thumbIconStyles={{ borderRadius: 25 }}
-              containerStyles={{ borderRadius: 28 }}
-              resetAfterSuccess={true}
-              resetThreshold={0.5}
-            />
+            {/* The swipe can't be done with a screen reader or by everyone, so offer a plain button */}
+            {tapToPark || screenReaderEnabled ? (
+              <TouchableOpacity
+                style={[
+                  parkButtonStyles.button,
+                  { backgroundColor: parking.isParking ? palette.danger : palette.primary },
+                ]}
+                onPress={toggleParking}
+                accessibilityRole="button"
+                accessibilityLabel={parking.isParking ? t('parking.tapToStop') : t('parking.tapToStart')}
+                accessibilityHint={parking.isParking ? t('parking.hintActive') : t('parking.hintReady')}
+              >
+                <Ionicons name="car" size={22} color={palette.onPrimary} />
+                <Text style={parkButtonStyles.text}>
+                  {parking.isParking ? t('parking.tapToStop') : t('parking.tapToStart')}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <SwipeButton
+                key={parking.isParking ? 'parking-active' : 'parking-inactive'}
+                height={SWIPE_HEIGHT * Math.min(fontScale, MAX_CONTROL_FONT_SCALE)}
+                width={Dimensions.get('window').width - 80}
+                railBackgroundColor={palette.swipeRail}
+                railFillBackgroundColor={parking.isParking ? palette.danger : palette.primary}
+                railFillBorderColor="transparent"
+                railBorderColor="transparent"
+                thumbIconBackgroundColor={palette.swipeThumb}
+                thumbIconBorderColor="transparent"
+                thumbIconComponent={() => (
+                  <View style={styles.thumbIcon}>
+                    <Ionicons 
+                      name="car" 
+                      size={24} 
+                      color={parking.isParking ? palette.danger : palette.primary} 
+                    />
+                  </View>
+                )}
+                title={parking.isParking ? t('parking.slideToStop') : t('parking.slideToStart')}
+                titleColor={palette.text}
+                titleFontSize={16}
+                titleMaxFontScale={MAX_CONTROL_FONT_SCALE}
+                titleStyles={{ fontWeight: '600' }}
+                onSwipeSuccess={toggleParking}
+                railStyles={{ borderRadius: 28 }}
+                thumbIconStyles={{ borderRadius: 25 }}
+                containerStyles={{ borderRadius: 28 }}
+                resetAfterSuccess={true}
+                resetThreshold={0.5}
+              />
+            )}
             
-            <Text style={styles.sliderHint}>
+            <Text style={[styles.sliderHint, surfaceStyles.textSecondary]}>
               {parking.isParking 
-                ? 'Your vehicle location is being tracked' 
-                : 'Secure your parking spot with one swipe'
+                ? t('parking.hintActive') 
+                : t('parking.hintReady')
               }
             </Text>
           </View>
@@ -583,36 +1456,64 @@ const Parking = () => {
   );
 };
 
-const paymentStyles = StyleSheet.create({
-  overlay: {
-    flex: 1,
-    justifyContent: 'flex-end',
-  },
-  backdrop: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(0, 0, 0, 0.4)',
-  },
-  drawer: {
-    backgroundColor: 'white',
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: -2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 8,
-    elevation: 8,
-    overflow: 'hidden',
-  },
-  handleContainer: {
-    alignItems: 'center',
-    paddingVertical: 12,
-    backgroundColor: '#f8f8f8',
+// Colour-only overrides layered on the shared layout styles so they follow the scheme
+const createSurfaceStyles = (palette: ThemeColors) => StyleSheet.create({
+  screen: {
+    backgroundColor: palette.background,
+  },
+  surface: {
+    backgroundColor: palette.surface,
+  },
+  muted: {
+    backgroundColor: palette.surfaceMuted,
+    borderColor: palette.border,
+  },
+  divider: {
+    backgroundColor: palette.border,
+  },
+  text: {
+    color: palette.text,
+  },
+  textSecondary: {
+    color: palette.textSecondary,
   },
-  handle: {
-    width: 40,
-    height: 4,
-    borderRadius: 2,
-    backgroundColor: '#ccc',
+  costValue: {
+    color: palette.primary,
+  },
+  errorText: {
+    color: palette.danger,
+  },
+  payButton: {
+    backgroundColor: palette.primary,
+  },
+  markerPinActive: {
+    backgroundColor: palette.danger,
+  },
+});
+
+const createPaymentStyles = (palette: ThemeColors) => StyleSheet.create({
+  quickPicks: {
+    flexGrow: 0,
+    marginBottom: CONFIG.UI.SPACING.SM,
+  },
+  quickPick: {
+    borderWidth: 1,
+    borderColor: palette.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  quickPickSelected: {
+    backgroundColor: palette.primary,
+  },
+  quickPickText: {
+    color: palette.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  quickPickTextSelected: {
+    color: palette.onPrimary,
   },
   headerContainer: {
     flexDirection: 'row',
@@ -621,11 +1522,11 @@ const paymentStyles = StyleSheet.create({
     paddingHorizontal: CONFIG.UI.SPACING.LG,
     paddingVertical: CONFIG.UI.SPACING.MD,
     borderBottomWidth: 1,
-    borderBottomColor: CONFIG.UI.COLORS.BORDER,
+    borderBottomColor: palette.border,
   },
   minimizedSubtitle: {
     fontSize: 12,
-    color: CONFIG.UI.COLORS.TEXT_SECONDARY,
+    color: palette.textSecondary,
     marginTop: CONFIG.UI.SPACING.XS,
     fontStyle: 'italic',
   },
@@ -633,7 +1534,7 @@ const paymentStyles = StyleSheet.create({
     padding: CONFIG.UI.SPACING.SM,
   },
   cancelPaymentButton: {
-    backgroundColor: CONFIG.UI.COLORS.DANGER,
+    backgroundColor: palette.danger,
     borderRadius: 12,
     paddingVertical: 14,
     justifyContent: 'center',
@@ -643,7 +1544,120 @@ const paymentStyles = StyleSheet.create({
   cancelPaymentButtonText: {
     fontSize: 16,
     fontWeight: '700',
-    color: 'white',
+    color: palette.onPrimary,
+  },
+});
+
+const createPrepaidStyles = (palette: ThemeColors) => StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: CONFIG.UI.SPACING.SM,
+  },
+  text: {
+    flex: 1,
+    marginLeft: CONFIG.UI.SPACING.XS,
+  },
+  extendButton: {
+    borderWidth: 1,
+    borderColor: palette.primary,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  extendText: {
+    color: palette.primary,
+    fontWeight: '600',
+  },
+});
+
+const createOfflineStyles = (palette: ThemeColors) => StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: CONFIG.UI.SPACING.SM,
+    paddingHorizontal: CONFIG.UI.SPACING.SM,
+    paddingVertical: CONFIG.UI.SPACING.XS,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: palette.warningBorder,
+    backgroundColor: palette.warningSurface,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: CONFIG.UI.SPACING.SM,
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: CONFIG.UI.SPACING.XS,
+  },
+});
+
+const createParkButtonStyles = (palette: ThemeColors) => StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: SWIPE_HEIGHT,
+    borderRadius: 28,
+    paddingHorizontal: CONFIG.UI.SPACING.LG,
+    paddingVertical: CONFIG.UI.SPACING.SM,
+  },
+  text: {
+    color: palette.onPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: CONFIG.UI.SPACING.XS,
+  },
+});
+
+const createFindCarStyles = (palette: ThemeColors) => StyleSheet.create({
+  youAreHere: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: palette.userLocation,
+    borderWidth: 3,
+    borderColor: palette.surface,
+  },
+  carRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: CONFIG.UI.SPACING.SM,
+  },
+});
+
+const createNearbyStyles = (palette: ThemeColors) => StyleSheet.create({
+  searchButton: {
+    marginLeft: 'auto',
+    padding: CONFIG.UI.SPACING.XS,
+  },
+  spotCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: CONFIG.UI.SPACING.SM,
+    paddingTop: CONFIG.UI.SPACING.SM,
+    borderTopWidth: 1,
+    borderTopColor: palette.border,
+  },
+  navigateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: palette.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: CONFIG.UI.SPACING.SM,
+  },
+  navigateText: {
+    color: palette.onPrimary,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  clearButton: {
+    padding: CONFIG.UI.SPACING.XS,
+    marginLeft: CONFIG.UI.SPACING.XS,
   },
 });
 
@@ -0,0 +1,276 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-translation';
+import { authStore } from '@/services/authStore';
+import {
+  formatSavedPhoneNumber,
+  profileStore,
+  type Profile,
+  type SavedPhoneNumber,
+} from '@/services/profileStore';
+import { formatInternational } from '@/utils/phoneNumber';
+
+export default function ProfileScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [detailsSaved, setDetailsSaved] = useState(false);
+  const [newNumber, setNewNumber] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [numberError, setNumberError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      profileStore.load().then((loaded) => {
+        setProfile(loaded);
+        setName(loaded.name);
+        setEmail(loaded.email);
+      });
+    }, [])
+  );
+
+  const inputStyle = [styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }];
+
+  const handleSaveDetails = async () => {
+    try {
+      setProfile(await profileStore.saveDetails({ name, email }));
+      setDetailsError(null);
+      setDetailsSaved(true);
+    } catch (saveError) {
+      setDetailsError(saveError instanceof Error ? saveError.message : t('profile.saveFailed'));
+    }
+  };
+
+  const handleAddNumber = async () => {
+    try {
+      setProfile(await profileStore.addPhoneNumber(newNumber, newLabel));
+      setNewNumber('');
+      setNewLabel('');
+      setNumberError(null);
+    } catch (saveError) {
+      setNumberError(saveError instanceof Error ? saveError.message : t('profile.numberSaveFailed'));
+    }
+  };
+
+  const handleRemoveNumber = (item: SavedPhoneNumber) => {
+    Alert.alert(
+      t('profile.removeNumberTitle'),
+      t('profile.removeNumberMessage', { number: formatSavedPhoneNumber(item.number) }),
+      [
+        { text: t('common.keep'), style: 'cancel' },
+        {
+          text: t('common.remove'),
+          style: 'destructive',
+          onPress: async () => setProfile(await profileStore.removePhoneNumber(item.id)),
+        },
+      ]
+    );
+  };
+
+  const handleSetDefault = async (item: SavedPhoneNumber) => {
+    setProfile(await profileStore.setDefaultPhoneNumber(item.id));
+  };
+
+  const handleSignOut = () => {
+    Alert.alert(t('profile.signOutTitle'), t('profile.signOutMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('profile.signOut'), style: 'destructive', onPress: () => authStore.signOut() },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <ThemedText type="subtitle">{t('profile.account')}</ThemedText>
+            {user && (
+              <View style={styles.signedIn}>
+                <ThemedText style={[styles.muted, styles.itemText]}>
+                  {t('profile.signedInAs', { number: formatInternational(user.phoneNumber) })}
+                </ThemedText>
+                <TouchableOpacity onPress={handleSignOut} accessibilityRole="button">
+                  <ThemedText type="link">{t('profile.signOut')}</ThemedText>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TextInput
+              style={inputStyle}
+              placeholder={t('profile.name')}
+              placeholderTextColor={Colors[theme].icon}
+              autoComplete="name"
+              value={name}
+              onChangeText={(value) => {
+                setName(value);
+                setDetailsSaved(false);
+              }}
+            />
+            <TextInput
+              style={inputStyle}
+              placeholder={t('profile.email')}
+              placeholderTextColor={Colors[theme].icon}
+              autoCapitalize="none"
+              autoComplete="email"
+              keyboardType="email-address"
+              value={email}
+              onChangeText={(value) => {
+                setEmail(value);
+                setDetailsError(null);
+                setDetailsSaved(false);
+              }}
+            />
+            {detailsError && <ThemedText style={styles.error}>{detailsError}</ThemedText>}
+            <View style={styles.formActions}>
+              {detailsSaved && <ThemedText style={styles.muted}>{t('profile.saved')}</ThemedText>}
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: Colors[theme].tint }]}
+                onPress={handleSaveDetails}>
+                <ThemedText style={[styles.saveButtonText, { color: Colors[theme].background }]}>
+                  {t('profile.saveDetails')}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText type="subtitle">{t('profile.numbers')}</ThemedText>
+            <ThemedText style={styles.muted}>
+              {t('profile.numbersHint')}
+            </ThemedText>
+
+            {profile?.phoneNumbers.map((item) => (
+              <View key={item.id} style={[styles.item, { borderBottomColor: Colors[theme].icon }]}>
+                <Ionicons name="phone-portrait-outline" size={24} color={Colors[theme].icon} />
+                <View style={styles.itemText}>
+                  <ThemedText type="defaultSemiBold">{formatSavedPhoneNumber(item.number)}</ThemedText>
+                  {!!item.label && <ThemedText style={styles.muted}>{item.label}</ThemedText>}
+                </View>
+                <TouchableOpacity onPress={() => handleSetDefault(item)} disabled={item.isDefault}>
+                  <Ionicons
+                    name={item.isDefault ? 'star' : 'star-outline'}
+                    size={22}
+                    color={item.isDefault ? Colors[theme].tint : Colors[theme].icon}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRemoveNumber(item)} style={styles.iconButton}>
+                  <Ionicons name="trash-outline" size={22} color={Colors[theme].icon} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <TextInput
+              style={inputStyle}
+              placeholder={t('profile.phonePlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              keyboardType="phone-pad"
+              value={newNumber}
+              onChangeText={(value) => {
+                setNewNumber(value);
+                setNumberError(null);
+              }}
+            />
+            <TextInput
+              style={inputStyle}
+              placeholder={t('profile.labelPlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              value={newLabel}
+              onChangeText={setNewLabel}
+            />
+            {numberError && <ThemedText style={styles.error}>{numberError}</ThemedText>}
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: Colors[theme].tint }]}
+                onPress={handleAddNumber}>
+                <ThemedText style={[styles.saveButtonText, { color: Colors[theme].background }]}>
+                  {t('profile.addNumber')}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  section: {
+    gap: 10,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  signedIn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconButton: {
+    paddingLeft: 8,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  saveButtonText: {
+    fontWeight: '600',
+  },
+});
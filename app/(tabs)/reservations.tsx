@@ -0,0 +1,99 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback } from 'react';
+import { FlatList, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNow } from '@/hooks/use-now';
+import { useReservations } from '@/hooks/use-reservations';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Reservation } from '@/services/reservationsApi';
+import { reservationStore } from '@/services/reservationStore';
+import { getReservationPhase, RESERVATION_PHASE_LABELS, sortReservations } from '@/utils/reservation';
+import { formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+/**
+ * The driver's reservations, those still to come first. New ones are made
+ * from a lot on the map.
+ */
+export default function ReservationsScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const formatCurrency = useFormatCurrency();
+  const { t, language } = useTranslation();
+  const reservations = useReservations();
+  // Phases move on as holds lapse; a minute is fine for a list
+  const now = useNow(true, 60 * 1000);
+
+  useFocusEffect(
+    useCallback(() => {
+      reservationStore.refresh();
+    }, [])
+  );
+
+  const renderItem = ({ item }: { item: Reservation }) => (
+    <TouchableOpacity
+      style={[styles.item, { borderBottomColor: Colors[theme].icon }]}
+      onPress={() => router.push({ pathname: '/reservations/[id]', params: { id: item.id } })}>
+      <View style={styles.itemHeader}>
+        <ThemedText type="defaultSemiBold">{item.lotName}</ThemedText>
+        <ThemedText type="defaultSemiBold">{formatCurrency(item.deposit)}</ThemedText>
+      </View>
+      <View style={styles.itemHeader}>
+        <ThemedText style={styles.itemDetail}>
+          {formatSessionDate(item.startsAt, language)} · {formatSessionTime(item.startsAt, language)} -{' '}
+          {formatSessionTime(item.endsAt, language)}
+        </ThemedText>
+        <ThemedText style={styles.itemDetail}>{t(RESERVATION_PHASE_LABELS[getReservationPhase(item, now)])}</ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={sortReservations(reservations, now)}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="calendar-outline" size={48} color={Colors[theme].icon} />
+            <ThemedText style={styles.emptyText}>{t('reservations.empty')}</ThemedText>
+          </View>
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  item: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  itemDetail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 64,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,208 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { VEHICLE_ICONS } from '@/components/vehicle-picker';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useSettings } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  LANGUAGE_OPTIONS,
+  REMINDER_LEAD_OPTIONS,
+  THEME_OPTIONS,
+  settingsStore,
+} from '@/services/settingsStore';
+import { vehicleStore, type Vehicle } from '@/services/vehicleStore';
+import { CURRENCY_FORMATS } from '@/utils/currency';
+
+export default function SettingsScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const settings = useSettings();
+  const { t } = useTranslation();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      vehicleStore.getAll().then(setVehicles);
+    }, [])
+  );
+
+  const toggleReminder = (minutes: number) => {
+    const current = settings.reminderLeadMinutes;
+    const next = current.includes(minutes)
+      ? current.filter((item) => item !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    settingsStore.update({ reminderLeadMinutes: next });
+  };
+
+  const handleSetDefaultVehicle = async (vehicle: Vehicle) => {
+    setVehicles(await vehicleStore.setDefault(vehicle.id));
+  };
+
+  const renderOption = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: Colors[theme].icon },
+        active && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+      ]}>
+      <ThemedText style={[styles.chipText, active && { color: Colors[theme].background }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('settings.theme')}</ThemedText>
+          <View style={styles.options}>
+            {THEME_OPTIONS.map((option) =>
+              renderOption(t(option.label), settings.theme === option.value, () =>
+                settingsStore.update({ theme: option.value })
+              )
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('settings.language')}</ThemedText>
+          <View style={styles.options}>
+            {LANGUAGE_OPTIONS.map((option) =>
+              renderOption(option.label, settings.language === option.value, () =>
+                settingsStore.update({ language: option.value })
+              )
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('settings.currency')}</ThemedText>
+          <View style={styles.options}>
+            {CURRENCY_FORMATS.map((option) =>
+              renderOption(option.label, settings.currencyFormat === option.value, () =>
+                settingsStore.update({ currencyFormat: option.value })
+              )
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('settings.reminders')}</ThemedText>
+          <ThemedText style={styles.muted}>{t('settings.remindersHint')}</ThemedText>
+          <View style={styles.options}>
+            {REMINDER_LEAD_OPTIONS.map((minutes) =>
+              renderOption(t('duration.minutes', { count: minutes }), settings.reminderLeadMinutes.includes(minutes), () =>
+                toggleReminder(minutes)
+              )
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('settings.defaultVehicle')}</ThemedText>
+          {vehicles.length === 0 ? (
+            <TouchableOpacity onPress={() => router.navigate('/vehicles')}>
+              <ThemedText type="link">{t('vehicles.add')}</ThemedText>
+            </TouchableOpacity>
+          ) : (
+            vehicles.map((vehicle) => (
+              <TouchableOpacity
+                key={vehicle.id}
+                style={[styles.row, { borderBottomColor: Colors[theme].icon }]}
+                onPress={() => handleSetDefaultVehicle(vehicle)}>
+                <Ionicons name={VEHICLE_ICONS[vehicle.type]} size={22} color={Colors[theme].icon} />
+                <ThemedText style={styles.rowLabel}>
+                  {vehicle.plate}
+                  {vehicle.nickname ? ` · ${vehicle.nickname}` : ''}
+                </ThemedText>
+                <Ionicons
+                  name={vehicle.isDefault ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={vehicle.isDefault ? Colors[theme].tint : Colors[theme].icon}
+                />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={[styles.row, { borderBottomColor: Colors[theme].icon }]}>
+          <ThemedText type="defaultSemiBold" style={styles.rowLabel}>
+            {t('settings.haptics')}
+          </ThemedText>
+          <Switch
+            value={settings.haptics}
+            onValueChange={(value) => {
+              settingsStore.update({ haptics: value });
+            }}
+            trackColor={{ true: Colors[theme].tint }}
+            accessibilityLabel={t('settings.haptics')}
+          />
+        </View>
+
+        <View style={[styles.row, { borderBottomColor: Colors[theme].icon }]}>
+          <View style={styles.rowLabel}>
+            <ThemedText type="defaultSemiBold">{t('settings.tapToPark')}</ThemedText>
+            <ThemedText style={styles.muted}>{t('settings.tapToParkHint')}</ThemedText>
+          </View>
+          <Switch
+            value={settings.tapToPark}
+            onValueChange={(value) => {
+              settingsStore.update({ tapToPark: value });
+            }}
+            trackColor={{ true: Colors[theme].tint }}
+            accessibilityLabel={t('settings.tapToPark')}
+            accessibilityHint={t('settings.tapToParkHint')}
+          />
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  section: {
+    gap: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,264 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { VEHICLE_ICONS } from '@/components/vehicle-picker';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import { VEHICLE_TYPES, vehicleStore, type Vehicle, type VehicleType } from '@/services/vehicleStore';
+import { validatePlate } from '@/utils/plateValidator';
+
+export default function VehiclesScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [plate, setPlate] = useState('');
+  const [nickname, setNickname] = useState('');
+  const [type, setType] = useState<VehicleType>('car');
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      vehicleStore.getAll().then(setVehicles);
+    }, [])
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setPlate('');
+    setNickname('');
+    setType('car');
+    setError(null);
+  };
+
+  const handleEdit = (vehicle: Vehicle) => {
+    setEditingId(vehicle.id);
+    setPlate(vehicle.plate);
+    setNickname(vehicle.nickname);
+    setType(vehicle.type);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!validatePlate(plate)) {
+      setError(t('vehicles.invalidPlate'));
+      return;
+    }
+
+    try {
+      setVehicles(await vehicleStore.save({ plate, nickname, type }, editingId ?? undefined));
+      resetForm();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : t('vehicles.saveFailed'));
+    }
+  };
+
+  const handleRemove = (vehicle: Vehicle) => {
+    Alert.alert(
+      t('vehicles.removeTitle'),
+      t('vehicles.removeMessage', { plate: vehicle.plate }),
+      [
+        { text: t('common.keep'), style: 'cancel' },
+        {
+          text: t('common.remove'),
+          style: 'destructive',
+          onPress: async () => {
+            setVehicles(await vehicleStore.remove(vehicle.id));
+            if (editingId === vehicle.id) resetForm();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSetDefault = async (vehicle: Vehicle) => {
+    setVehicles(await vehicleStore.setDefault(vehicle.id));
+  };
+
+  const renderItem = ({ item }: { item: Vehicle }) => (
+    <View style={[styles.item, { borderBottomColor: Colors[theme].icon }]}>
+      <Ionicons name={VEHICLE_ICONS[item.type]} size={28} color={Colors[theme].icon} />
+      <TouchableOpacity style={styles.itemText} onPress={() => handleEdit(item)}>
+        <ThemedText type="defaultSemiBold">{item.plate}</ThemedText>
+        {!!item.nickname && <ThemedText style={styles.muted}>{item.nickname}</ThemedText>}
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => handleSetDefault(item)} disabled={item.isDefault}>
+        <Ionicons
+          name={item.isDefault ? 'star' : 'star-outline'}
+          size={22}
+          color={item.isDefault ? Colors[theme].tint : Colors[theme].icon}
+        />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => handleRemove(item)} style={styles.iconButton}>
+        <Ionicons name="trash-outline" size={22} color={Colors[theme].icon} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}>
+        <FlatList
+          data={vehicles}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Ionicons name="car-outline" size={48} color={Colors[theme].icon} />
+              <ThemedText style={styles.muted}>{t('vehicles.empty')}</ThemedText>
+            </View>
+          }
+        />
+
+        <View style={[styles.form, { borderTopColor: Colors[theme].icon }]}>
+          <ThemedText type="defaultSemiBold">
+            {editingId ? t('vehicles.editTitle') : t('vehicles.addTitle')}
+          </ThemedText>
+          <TextInput
+            style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+            placeholder={t('vehicles.platePlaceholder')}
+            placeholderTextColor={Colors[theme].icon}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            value={plate}
+            onChangeText={(value) => {
+              setPlate(value);
+              setError(null);
+            }}
+          />
+          <TextInput
+            style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+            placeholder={t('vehicles.nicknamePlaceholder')}
+            placeholderTextColor={Colors[theme].icon}
+            value={nickname}
+            onChangeText={setNickname}
+          />
+          <View style={styles.typeRow}>
+            {VEHICLE_TYPES.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() => setType(option.value)}
+                style={[
+                  styles.typeOption,
+                  { borderColor: type === option.value ? Colors[theme].tint : Colors[theme].icon },
+                ]}>
+                <Ionicons
+                  name={VEHICLE_ICONS[option.value]}
+                  size={18}
+                  color={type === option.value ? Colors[theme].tint : Colors[theme].icon}
+                />
+                <ThemedText style={styles.typeLabel}>{t(option.label)}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity onPress={resetForm}>
+                <ThemedText type="link">{t('common.cancel')}</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: Colors[theme].tint }]}
+              onPress={handleSave}>
+              <ThemedText style={[styles.saveButtonText, { color: Colors[theme].background }]}>
+                {editingId ? t('vehicles.saveChanges') : t('vehicles.addTitle')}
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  iconButton: {
+    paddingLeft: 8,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 64,
+    gap: 12,
+  },
+  form: {
+    padding: 16,
+    gap: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  typeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  typeLabel: {
+    fontSize: 14,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  saveButtonText: {
+    fontWeight: '600',
+  },
+});
@@ -1,23 +1,76 @@
+import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
+import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
+import { ToastProvider } from '@/components/toast-provider';
+import { useAuth } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useEnforcementNotices } from '@/hooks/use-enforcement-notices';
+import { useFleets } from '@/hooks/use-fleets';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+// Keep the splash screen up until we know whether anyone is signed in
+SplashScreen.preventAutoHideAsync();
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useTranslation();
+  const { status, user } = useAuth();
+  const fleets = useFleets();
+  useEnforcementNotices();
+
+  useEffect(() => {
+    if (status !== 'loading') {
+      SplashScreen.hideAsync();
+    }
+  }, [status]);
+
+  if (status === 'loading') {
+    return null;
+  }
+
+  const signedIn = status === 'signedIn';
+  const isOfficer = signedIn && user?.role === 'officer';
+  const isFleetAdmin = signedIn && fleets.some((fleet) => fleet.role === 'admin');
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        {/* Outside the sheet provider so toasts float above open sheets */}
+        <ToastProvider>
+          <BottomSheetModalProvider>
+            {/* Signing in or out swaps the available screens and the router follows */}
+            <Stack>
+              <Stack.Protected guard={signedIn}>
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="history/[id]" options={{ title: t('nav.session') }} />
+                <Stack.Screen name="reservations/new" options={{ title: t('nav.reserve') }} />
+                <Stack.Screen name="reservations/[id]" options={{ title: t('nav.reservation') }} />
+                <Stack.Protected guard={isOfficer}>
+                  <Stack.Screen name="enforcement/map" options={{ title: t('nav.zoneMap') }} />
+                  <Stack.Screen name="enforcement/violation" options={{ title: t('nav.logViolation') }} />
+                </Stack.Protected>
+                <Stack.Protected guard={isFleetAdmin}>
+                  <Stack.Screen name="fleet/manage" options={{ title: t('nav.manageFleet') }} />
+                </Stack.Protected>
+              </Stack.Protected>
+              <Stack.Protected guard={!signedIn}>
+                <Stack.Screen name="(onboarding)" options={{ headerShown: false }} />
+              </Stack.Protected>
+            </Stack>
+          </BottomSheetModalProvider>
+        </ToastProvider>
+        <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
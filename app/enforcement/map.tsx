@@ -0,0 +1,219 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect, useNavigation } from 'expo-router';
+import React, { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker, Polygon } from 'react-native-maps';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { darkMapStyle } from '@/constants/darkMapStyle';
+import { Colors } from '@/constants/theme';
+import { PARKING_ZONES, type ParkingZone } from '@/constants/zones';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useAuth } from '@/hooks/use-auth';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { enforcementApi, type EnforcementSession } from '@/services/enforcementApi';
+import { getOverstayMinutes } from '@/utils/enforcement';
+import { formatMinutesDuration } from '@/utils/i18n';
+import { formatSessionTime } from '@/utils/sessionFormat';
+
+const MAP_EDGE_PADDING = { top: 40, right: 40, bottom: 40, left: 40 };
+
+const getZoneRegion = (zone: ParkingZone) => {
+  const latitudes = zone.polygon.map((point) => point.latitude);
+  const longitudes = zone.polygon.map((point) => point.longitude);
+  const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+  const [minLng, maxLng] = [Math.min(...longitudes), Math.max(...longitudes)];
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: (maxLat - minLat) * 1.4,
+    longitudeDelta: (maxLng - minLng) * 1.4,
+  };
+};
+
+/**
+ * Active sessions in one of the zones the officer patrols, with overstayed
+ * ones in red. Tapping a session's callout starts logging a violation.
+ */
+export default function EnforcementMapScreen() {
+  const theme = useColorScheme() ?? 'light';
+  const { t, language } = useTranslation();
+  const { user } = useAuth();
+  const navigation = useNavigation();
+  const getSignal = useAbortSignal();
+  const mapRef = useRef<MapView>(null);
+  const zones = PARKING_ZONES.filter((zone) => user?.zoneIds.includes(zone.id));
+  const [zoneId, setZoneId] = useState(zones[0]?.id ?? null);
+  const [sessions, setSessions] = useState<EnforcementSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const zone = zones.find((item) => item.id === zoneId) ?? null;
+
+  const loadSessions = useCallback(async () => {
+    if (!zoneId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await enforcementApi.zoneSessions(zoneId, getSignal()));
+    } catch (loadError) {
+      if (isCancelled(loadError)) return;
+      setError(loadError instanceof Error ? loadError.message : t('enforcement.loadFailed'));
+    }
+    setLoading(false);
+  }, [zoneId, getSignal, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [loadSessions])
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={loadSessions}
+          style={styles.headerButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('enforcement.refresh')}>
+          <Ionicons name="refresh" size={22} color={Colors[theme].text} />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, theme, loadSessions, t]);
+
+  const selectZone = (next: ParkingZone) => {
+    setZoneId(next.id);
+    setSessions([]);
+    mapRef.current?.fitToCoordinates(next.polygon, { edgePadding: MAP_EDGE_PADDING, animated: true });
+  };
+
+  if (!zone) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.muted}>{t('enforcement.noZones')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const overstayed = sessions.filter((session) => getOverstayMinutes(session, zone) > 0).length;
+
+  return (
+    <ThemedView style={styles.container}>
+      {zones.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+          {zones.map((item) => (
+            <TouchableOpacity
+              key={item.id}
+              onPress={() => selectZone(item)}
+              style={[
+                styles.chip,
+                { borderColor: Colors[theme].icon },
+                item.id === zoneId && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+              ]}>
+              <ThemedText style={[styles.chipText, item.id === zoneId && { color: Colors[theme].background }]}>
+                {item.name}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.summary}>
+        {loading ? (
+          <ActivityIndicator />
+        ) : (
+          <ThemedText
+            style={error ? [styles.error, { color: Colors[theme].danger }] : styles.muted}
+            accessibilityLiveRegion="polite">
+            {error ?? t('enforcement.zoneSummary', { count: sessions.length, overstayed })}
+          </ThemedText>
+        )}
+      </View>
+
+      <MapView
+        ref={mapRef}
+        style={styles.container}
+        customMapStyle={theme === 'dark' ? darkMapStyle : undefined}
+        userInterfaceStyle={theme}
+        initialRegion={getZoneRegion(zone)}
+        showsUserLocation>
+        <Polygon
+          coordinates={zone.polygon}
+          strokeColor={zone.color}
+          fillColor={`${zone.color}33`}
+          strokeWidth={2}
+        />
+        {sessions.map((session) => {
+          if (!session.coords) return null;
+          const overstayMinutes = getOverstayMinutes(session, zone);
+          return (
+            <Marker
+              key={session.id}
+              coordinate={session.coords}
+              pinColor={overstayMinutes > 0 ? Colors[theme].danger : Colors[theme].success}
+              title={session.plate}
+              description={
+                overstayMinutes > 0
+                  ? t('enforcement.overstay', { duration: formatMinutesDuration(overstayMinutes, language) })
+                  : session.paidUntil
+                    ? t('enforcement.paidUntil', { time: formatSessionTime(session.paidUntil, language) })
+                    : t('enforcement.paysOnExit')
+              }
+              onCalloutPress={() =>
+                router.push({
+                  pathname: '/enforcement/violation',
+                  params: { plate: session.plate, sessionId: session.id, zoneId: zone.id },
+                })
+              }
+            />
+          );
+        })}
+      </MapView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  filterRow: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  summary: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: 14,
+  },
+  headerButton: {
+    paddingHorizontal: 16,
+  },
+});
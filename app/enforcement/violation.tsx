@@ -0,0 +1,279 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { findZoneAt } from '@/constants/zones';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useIsOnline } from '@/hooks/use-online';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { violationStore } from '@/services/violationStore';
+import type { LatLng } from '@/utils/geo';
+import { translate } from '@/utils/i18n';
+import { formatPlate } from '@/utils/plateValidator';
+
+type LocationState =
+  | { status: 'locating' }
+  | { status: 'found'; coords: LatLng; accuracy: number | null }
+  | { status: 'unavailable' };
+
+/**
+ * Record a violation: plate, evidence photo, where it happened and notes.
+ * It is saved on the device straight away and uploaded when online.
+ */
+export default function LogViolationScreen() {
+  const params = useLocalSearchParams<{ plate?: string; sessionId?: string; zoneId?: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const toast = useToast();
+  const isOnline = useIsOnline();
+  const [plate, setPlate] = useState(params.plate ?? '');
+  const [notes, setNotes] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [location, setLocation] = useState<LocationState>({ status: 'locating' });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Where the officer is standing now, not where the app was opened
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const permission = await Location.requestForegroundPermissionsAsync();
+        if (!permission.granted) throw new Error('Location permission denied');
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+        if (cancelled) return;
+        setLocation({
+          status: 'found',
+          coords: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+          accuracy: position.coords.accuracy ?? null,
+        });
+      } catch {
+        if (cancelled) return;
+        setLocation({ status: 'unavailable' });
+        // Read in the current language without locating again when it changes
+        toast.warning(translate('enforcement.locationUnavailable'));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('parkedCar.cameraTitle'), t('enforcement.cameraMessage'));
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({ quality: 0.5 });
+    if (!result.canceled && result.assets.length > 0) {
+      setPhotoUri(result.assets[0].uri);
+      setError(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const formattedPlate = formatPlate(plate);
+    if (!formattedPlate) {
+      setError(t('vehicles.invalidPlate'));
+      return;
+    }
+    if (!photoUri) {
+      setError(t('enforcement.photoRequired'));
+      return;
+    }
+
+    const coords = location.status === 'found' ? location.coords : null;
+    setSaving(true);
+    try {
+      await violationStore.log({
+        plate: formattedPlate,
+        zoneId: params.zoneId ?? (coords ? (findZoneAt(coords)?.id ?? null) : null),
+        sessionId: params.sessionId ?? null,
+        notes: notes.trim(),
+        photoUri,
+        coords,
+      });
+    } catch {
+      toast.error(t('enforcement.saveFailed'));
+      setSaving(false);
+      return;
+    }
+
+    toast.success(isOnline ? t('enforcement.violationLogged') : t('enforcement.violationQueued'));
+    router.back();
+  };
+
+  const inputStyle = [styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }];
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('enforcement.plateLabel')}</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder={t('enforcement.platePlaceholder')}
+            placeholderTextColor={Colors[theme].icon}
+            accessibilityLabel={t('enforcement.plateLabel')}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            value={plate}
+            onChangeText={(value) => {
+              setPlate(value);
+              setError(null);
+            }}
+            editable={!saving}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('enforcement.photo')}</ThemedText>
+          {photoUri ? (
+            <TouchableOpacity onPress={takePhoto} accessibilityRole="button" accessibilityLabel={t('enforcement.retakePhoto')}>
+              <Image source={{ uri: photoUri }} style={styles.photo} contentFit="cover" />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.photoButton, { borderColor: Colors[theme].icon }]}
+              onPress={takePhoto}
+              accessibilityRole="button">
+              <Ionicons name="camera-outline" size={24} color={Colors[theme].icon} />
+              <ThemedText style={styles.muted}>{t('enforcement.takePhoto')}</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('enforcement.location')}</ThemedText>
+          <View style={styles.row}>
+            {location.status === 'locating' ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <Ionicons
+                name={location.status === 'found' ? 'location' : 'location-outline'}
+                size={16}
+                color={Colors[theme].icon}
+              />
+            )}
+            <ThemedText style={styles.muted}>
+              {location.status === 'locating'
+                ? t('enforcement.locating')
+                : location.status === 'found'
+                  ? location.accuracy !== null
+                    ? t('enforcement.locatedWithin', { meters: Math.round(location.accuracy) })
+                    : t('enforcement.located')
+                  : t('enforcement.locationUnavailable')}
+            </ThemedText>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">{t('enforcement.notes')}</ThemedText>
+          <TextInput
+            style={[inputStyle, styles.notes]}
+            placeholder={t('enforcement.notesPlaceholder')}
+            placeholderTextColor={Colors[theme].icon}
+            accessibilityLabel={t('enforcement.notes')}
+            value={notes}
+            onChangeText={setNotes}
+            editable={!saving}
+            multiline
+          />
+        </View>
+
+        {error && (
+          <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+            {error}
+          </ThemedText>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors[theme].tint }, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+          accessibilityRole="button">
+          {saving ? (
+            <ActivityIndicator color={Colors[theme].background} />
+          ) : (
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('enforcement.saveViolation')}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 20,
+  },
+  section: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notes: {
+    minHeight: 88,
+    textAlignVertical: 'top',
+  },
+  photo: {
+    height: 200,
+    borderRadius: 12,
+  },
+  photoButton: {
+    height: 96,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
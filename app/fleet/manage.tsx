@@ -0,0 +1,260 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFleets } from '@/hooks/use-fleets';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { fleetApi, type FleetMember } from '@/services/fleetApi';
+import { fleetStore } from '@/services/fleetStore';
+import { vehicleStore, type Vehicle } from '@/services/vehicleStore';
+import { formatInternational, toE164 } from '@/utils/phoneNumber';
+import { normalizePlate } from '@/utils/plateValidator';
+
+/**
+ * Fleet admins: which vehicles from My Vehicles the company owns, and which
+ * drivers may park them on the company's account.
+ */
+export default function ManageFleetScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const toast = useToast();
+  const getSignal = useAbortSignal();
+  const fleet = useFleets().find((item) => item.id === id && item.role === 'admin') ?? null;
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [members, setMembers] = useState<FleetMember[] | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Plate or phone number with a change on its way to the backend
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      vehicleStore.getAll().then(setVehicles);
+      if (!id) return;
+      fleetApi
+        .members(id, getSignal())
+        .then(setMembers)
+        .catch((loadError) => {
+          if (!isCancelled(loadError)) setError(loadError instanceof Error ? loadError.message : t('fleet.loadFailed'));
+        });
+    }, [id, getSignal, t])
+  );
+
+  if (!fleet) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.muted}>{t('fleet.noFleets')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  // The company's vehicles first, then the rest of My Vehicles that could be added
+  const plates = [
+    ...fleet.vehicles,
+    ...vehicles
+      .map((vehicle) => vehicle.plate)
+      .filter((plate) => !fleet.vehicles.some((item) => normalizePlate(item) === normalizePlate(plate))),
+  ];
+
+  const toggleVehicle = async (plate: string, owned: boolean) => {
+    setSaving(plate);
+    try {
+      await fleetStore.update(
+        owned ? await fleetApi.addVehicle(fleet.id, plate) : await fleetApi.removeVehicle(fleet.id, plate)
+      );
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : t('fleet.saveFailed'));
+    }
+    setSaving(null);
+  };
+
+  const handleAddMember = async () => {
+    const number = toE164(phoneNumber);
+    if (!number) {
+      setError(t('auth.invalidPhone'));
+      return;
+    }
+
+    setSaving(number);
+    setError(null);
+    try {
+      setMembers(await fleetApi.addMember(fleet.id, number));
+      setPhoneNumber('');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : t('fleet.saveFailed'));
+    }
+    setSaving(null);
+  };
+
+  const handleRemoveMember = async (member: FleetMember) => {
+    setSaving(member.phoneNumber);
+    try {
+      setMembers(await fleetApi.removeMember(fleet.id, member.phoneNumber));
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : t('fleet.saveFailed'));
+    }
+    setSaving(null);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: fleet.name }} />
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('fleet.vehicles')}</ThemedText>
+          <ThemedText style={styles.detail}>{t('fleet.vehiclesHint')}</ThemedText>
+          {plates.length === 0 && <ThemedText style={styles.detail}>{t('vehicles.noneSaved')}</ThemedText>}
+          {plates.map((plate) => {
+            const owned = fleet.vehicles.includes(plate);
+            return (
+              <View key={plate} style={[styles.row, { borderBottomColor: Colors[theme].icon }]}>
+                <ThemedText type="defaultSemiBold" style={styles.flex}>
+                  {plate}
+                </ThemedText>
+                {saving === plate && <ActivityIndicator size="small" />}
+                <Switch
+                  value={owned}
+                  onValueChange={(value) => toggleVehicle(plate, value)}
+                  disabled={saving !== null}
+                  trackColor={{ true: Colors[theme].tint }}
+                  accessibilityLabel={t('fleet.ownedBy', { plate, fleet: fleet.name })}
+                />
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('fleet.members')}</ThemedText>
+          <ThemedText style={styles.detail}>{t('fleet.membersHint')}</ThemedText>
+          {members === null && !error && <ActivityIndicator />}
+          {members?.map((member) => (
+            <View key={member.phoneNumber} style={[styles.row, { borderBottomColor: Colors[theme].icon }]}>
+              <View style={styles.flex}>
+                <ThemedText type="defaultSemiBold">{formatInternational(member.phoneNumber)}</ThemedText>
+                {member.role === 'admin' && <ThemedText style={styles.detail}>{t('fleet.admin')}</ThemedText>}
+              </View>
+              {member.role !== 'admin' &&
+                (saving === member.phoneNumber ? (
+                  <ActivityIndicator size="small" />
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => handleRemoveMember(member)}
+                    disabled={saving !== null}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('fleet.removeMember', { phone: formatInternational(member.phoneNumber) })}>
+                    <Ionicons name="close-circle-outline" size={22} color="#ff3b30" />
+                  </TouchableOpacity>
+                ))}
+            </View>
+          ))}
+
+          <View style={styles.addRow}>
+            <TextInput
+              style={[styles.input, styles.flex, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+              placeholder={t('auth.phonePlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              accessibilityLabel={t('fleet.memberPhone')}
+              keyboardType="phone-pad"
+              value={phoneNumber}
+              onChangeText={(value) => {
+                setPhoneNumber(value);
+                setError(null);
+              }}
+              editable={saving === null}
+              returnKeyType="done"
+              onSubmitEditing={handleAddMember}
+            />
+            <TouchableOpacity
+              style={[
+                styles.addButton,
+                { backgroundColor: Colors[theme].tint },
+                (saving !== null || !phoneNumber.trim()) && styles.buttonDisabled,
+              ]}
+              onPress={handleAddMember}
+              disabled={saving !== null || !phoneNumber.trim()}
+              accessibilityRole="button"
+              accessibilityLabel={t('fleet.addMember')}>
+              <Ionicons name="person-add-outline" size={20} color={Colors[theme].background} />
+            </TouchableOpacity>
+          </View>
+          {error && (
+            <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+              {error}
+            </ThemedText>
+          )}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 24,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  section: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  addButton: {
+    borderRadius: 10,
+    padding: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,173 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { darkMapStyle } from '@/constants/darkMapStyle';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { historyStore, type CompletedSession } from '@/services/historyStore';
+import { VAT_RATE, getVatAmount, shareReceipt, type ReceiptFormat } from '@/services/receipts';
+import { formatDuration, formatLocation, formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+export default function SessionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const formatCurrency = useFormatCurrency();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [session, setSession] = useState<CompletedSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      setSession(await historyStore.getById(id));
+      setLoading(false);
+    })();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator />
+      </ThemedView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText>{t('history.notFound')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const handleShare = async (format: ReceiptFormat) => {
+    try {
+      await shareReceipt(session, format);
+    } catch {
+      toast.error(t('receipt.shareFailed'));
+    }
+  };
+
+  const payment: [string, string][] = session.billedTo
+    ? [
+        [t('history.billedTo'), session.billedTo],
+        [t('history.chargeReference'), session.mpesaReceipt],
+      ]
+    : [[t('history.mpesaReceipt'), session.mpesaReceipt]];
+
+  const rows: [string, string][] = [
+    [t('history.date'), formatSessionDate(session.startedAt)],
+    [t('history.start'), formatSessionTime(session.startedAt)],
+    [t('history.end'), formatSessionTime(session.endedAt)],
+    [t('history.duration'), formatDuration(session.durationSeconds)],
+    [t('history.zone'), session.zoneName ?? '—'],
+    [t('history.location'), formatLocation(session.locationName, session.coords)],
+    [t('history.vehicle'), session.vehiclePlate ?? '—'],
+    ...payment,
+    ...(session.tariffLines ?? []).map((line): [string, string] => [line.label, formatCurrency(line.amount)]),
+    [t('history.vatIncluded', { rate: VAT_RATE * 100 }), formatCurrency(getVatAmount(session.amount))],
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: formatSessionDate(session.startedAt) }} />
+      <ScrollView>
+        {session.coords ? (
+          <MapView
+            style={styles.map}
+            customMapStyle={theme === 'dark' ? darkMapStyle : undefined}
+            userInterfaceStyle={theme}
+            initialRegion={{
+              latitude: session.coords.latitude,
+              longitude: session.coords.longitude,
+              latitudeDelta: 0.005,
+              longitudeDelta: 0.005,
+            }}>
+            <Marker coordinate={session.coords} />
+          </MapView>
+        ) : (
+          <View style={[styles.map, styles.centered]}>
+            <ThemedText style={styles.muted}>{t('history.noLocation')}</ThemedText>
+          </View>
+        )}
+
+        <View style={styles.summary}>
+          {rows.map(([label, value]) => (
+            <View key={label} style={[styles.row, { borderBottomColor: Colors[theme].icon }]}>
+              <ThemedText style={styles.muted}>{label}</ThemedText>
+              <ThemedText style={styles.value}>{value}</ThemedText>
+            </View>
+          ))}
+          <View style={styles.row}>
+            <ThemedText type="defaultSemiBold">{t('history.totalPaid')}</ThemedText>
+            <ThemedText type="defaultSemiBold">{formatCurrency(session.amount)}</ThemedText>
+          </View>
+
+          <View style={styles.shareRow}>
+            {(['pdf', 'html'] as ReceiptFormat[]).map((format) => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.shareButton, { borderColor: Colors[theme].tint }]}
+                onPress={() => handleShare(format)}>
+                <ThemedText style={{ color: Colors[theme].tint }}>
+                  {t('receipt.shareFormat', { format: format.toUpperCase() })}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  map: {
+    height: 260,
+  },
+  summary: {
+    padding: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'transparent',
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  shareButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  value: {
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+});
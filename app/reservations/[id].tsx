@@ -0,0 +1,281 @@
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNow } from '@/hooks/use-now';
+import { useReservations } from '@/hooks/use-reservations';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { toApiError } from '@/services/apiRequest';
+import { getParkingLocation, openDirections } from '@/services/parkingLocations';
+import { reservationStore } from '@/services/reservationStore';
+import {
+  getCancellationRefund,
+  getCheckInOpensAt,
+  getNoShowRefund,
+  getReservationPhase,
+  RESERVATION_PHASE_LABELS,
+} from '@/utils/reservation';
+import { formatCountdown, formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+const QR_SIZE = 200;
+
+/**
+ * One reservation: the QR code to show at the lot, how long the space is
+ * held, and checking in or cancelling.
+ */
+export default function ReservationDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const { t, language } = useTranslation();
+  const formatCurrency = useFormatCurrency();
+  const toast = useToast();
+  const reservation = useReservations().find((item) => item.id === id) ?? null;
+  const [cancelling, setCancelling] = useState(false);
+  // Ticks only while the hold countdown or the check-in window can change
+  const now = useNow(reservation?.status === 'confirmed');
+
+  if (!reservation) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.muted}>{t('reservations.notFound')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const phase = getReservationPhase(reservation, now);
+  const lot = getParkingLocation(reservation.lotId);
+  const isActive = phase === 'upcoming' || phase === 'check_in_open';
+
+  // The home screen asks which vehicle, starts the session and checks in once it has
+  const handleCheckIn = () => {
+    router.navigate({ pathname: '/', params: { reservationId: reservation.id } });
+  };
+
+  const cancel = async () => {
+    setCancelling(true);
+    try {
+      const cancelled = await reservationStore.cancel(reservation.id);
+      toast.success(t('reservations.cancelled', { amount: formatCurrency(cancelled.refund ?? 0) }));
+    } catch (cancelError) {
+      toast.error(toApiError(cancelError).message, { title: t('reservations.cancel') });
+    }
+    setCancelling(false);
+  };
+
+  const handleCancel = () => {
+    const refund = getCancellationRefund(reservation);
+    Alert.alert(
+      t('reservations.cancelTitle'),
+      refund === reservation.deposit
+        ? t('reservations.cancelFullRefund', { amount: formatCurrency(refund) })
+        : t('reservations.cancelPartialRefund', {
+            amount: formatCurrency(refund),
+            deposit: formatCurrency(reservation.deposit),
+          }),
+      [
+        { text: t('common.keep'), style: 'cancel' },
+        { text: t('reservations.cancel'), style: 'destructive', onPress: cancel },
+      ]
+    );
+  };
+
+  const handleDirections = async () => {
+    if (!lot) return;
+    try {
+      await openDirections(lot);
+    } catch {
+      toast.error(t('parking.directionsFailed'));
+    }
+  };
+
+  const refund: [string, string][] =
+    reservation.refund !== null ? [[t('reservations.refund'), formatCurrency(reservation.refund)]] : [];
+
+  const rows: [string, string][] = [
+    [t('history.date'), formatSessionDate(reservation.startsAt, language)],
+    [
+      t('reservations.time'),
+      `${formatSessionTime(reservation.startsAt, language)} - ${formatSessionTime(reservation.endsAt, language)}`,
+    ],
+    [t('reservations.heldUntil'), formatSessionTime(reservation.holdUntil, language)],
+    [t('reservations.deposit'), formatCurrency(reservation.deposit)],
+    [t('history.mpesaReceipt'), reservation.mpesaReceipt ?? '—'],
+    ...refund,
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: reservation.lotName }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="defaultSemiBold" style={styles.status}>
+          {t(RESERVATION_PHASE_LABELS[phase])}
+        </ThemedText>
+
+        {isActive && (
+          <View style={styles.qr} accessible accessibilityLabel={t('reservations.qrLabel', { code: reservation.code })}>
+            <View style={styles.qrFrame}>
+              <QRCode value={reservation.code} size={QR_SIZE} />
+            </View>
+            <ThemedText type="defaultSemiBold" style={styles.code}>
+              {reservation.code}
+            </ThemedText>
+          </View>
+        )}
+
+        {phase === 'upcoming' && (
+          <ThemedText style={styles.hint}>
+            {t('reservations.checkInFrom', {
+              time: formatSessionTime(getCheckInOpensAt(reservation), language),
+            })}
+          </ThemedText>
+        )}
+        {phase === 'check_in_open' && (
+          <ThemedText style={styles.hint}>
+            {t('reservations.holdEndsIn', { time: formatCountdown((reservation.holdUntil - now) / 1000) })}
+          </ThemedText>
+        )}
+        {phase === 'no_show' && (
+          <ThemedText style={styles.hint}>
+            {t('reservations.noShowRefund', { amount: formatCurrency(getNoShowRefund(reservation)) })}
+          </ThemedText>
+        )}
+
+        <View style={[styles.card, { borderColor: Colors[theme].icon }]}>
+          {rows.map(([label, value]) => (
+            <View key={label} style={styles.row}>
+              <ThemedText style={styles.detail}>{label}</ThemedText>
+              <ThemedText type="defaultSemiBold">{value}</ThemedText>
+            </View>
+          ))}
+        </View>
+
+        {isActive && (
+          <ThemedText style={styles.detail}>
+            {t('reservations.cancelRule', {
+              count: reservation.policy.freeCancelMinutes,
+              percent: reservation.policy.lateCancelForfeitPercent,
+            })}{' '}
+            {t('reservations.noShowRule', { percent: reservation.policy.noShowForfeitPercent })}
+          </ThemedText>
+        )}
+
+        {phase === 'check_in_open' && (
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: Colors[theme].tint }, cancelling && styles.buttonDisabled]}
+            onPress={handleCheckIn}
+            disabled={cancelling}
+            accessibilityRole="button"
+            accessibilityLabel={t('reservations.checkIn')}>
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('reservations.checkIn')}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {lot && isActive && (
+          <TouchableOpacity
+            style={[styles.button, styles.outlineButton, { borderColor: Colors[theme].tint }]}
+            onPress={handleDirections}
+            accessibilityRole="button"
+            accessibilityLabel={t('parking.navigate')}>
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].tint }]}>{t('parking.navigate')}</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {isActive && (
+          <TouchableOpacity
+            style={[styles.button, cancelling && styles.buttonDisabled]}
+            onPress={handleCancel}
+            disabled={cancelling}
+            accessibilityRole="button"
+            accessibilityLabel={t('reservations.cancel')}>
+            {cancelling ? (
+              <ActivityIndicator />
+            ) : (
+              <ThemedText style={[styles.buttonText, styles.destructive]}>{t('reservations.cancel')}</ThemedText>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  status: {
+    textAlign: 'center',
+  },
+  qr: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  // White quiet zone around the code so gate scanners read it in dark mode too
+  qrFrame: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  code: {
+    letterSpacing: 2,
+  },
+  hint: {
+    textAlign: 'center',
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  outlineButton: {
+    borderWidth: 1,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  destructive: {
+    color: '#ff3b30',
+  },
+});
@@ -0,0 +1,316 @@
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { formatOperatingHours } from '@/constants/zones';
+import { Colors } from '@/constants/theme';
+import { useAbortSignal } from '@/hooks/use-abort-signal';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import { isCancelled } from '@/services/apiRequest';
+import { getParkingLocation } from '@/services/parkingLocations';
+import { profileStore, toLocalPhoneNumber } from '@/services/profileStore';
+import { reservationStore } from '@/services/reservationStore';
+import { reservationsApi, type ReservationQuote } from '@/services/reservationsApi';
+import { formatMinutesDuration } from '@/utils/i18n';
+import { toE164 } from '@/utils/phoneNumber';
+import { getReservableStarts } from '@/utils/reservation';
+import { formatSessionDate, formatSessionTime } from '@/utils/sessionFormat';
+
+const DAYS_AHEAD = 7;
+const DURATION_HOURS = [1, 2, 3, 4];
+
+/**
+ * Book a space at a lot for a time window. The deposit is taken over M-Pesa
+ * before the reservation is confirmed.
+ */
+export default function NewReservationScreen() {
+  const { lotId } = useLocalSearchParams<{ lotId: string }>();
+  const theme = useColorScheme() ?? 'light';
+  const { t, language } = useTranslation();
+  const formatCurrency = useFormatCurrency();
+  const getSignal = useAbortSignal();
+  const lot = getParkingLocation(lotId);
+  const [dayIndex, setDayIndex] = useState(0);
+  const [durationHours, setDurationHours] = useState(DURATION_HOURS[0]);
+  const [startsAt, setStartsAt] = useState<number | null>(null);
+  const [quote, setQuote] = useState<ReservationQuote | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'booking' | 'prompted'>('idle');
+
+  const days = useMemo(() => {
+    const today = new Date();
+    return Array.from(
+      { length: DAYS_AHEAD },
+      (_, index) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + index)
+    );
+  }, []);
+  const starts = useMemo(
+    () => (lot ? getReservableStarts(lot.openingHours, days[dayIndex], durationHours * 60) : []),
+    [lot, days, dayIndex, durationHours]
+  );
+  const endsAt = startsAt === null ? null : startsAt + durationHours * 60 * 60 * 1000;
+
+  // The chosen start may no longer fit after changing the day or duration
+  useEffect(() => {
+    setStartsAt((current) => (current !== null && starts.includes(current) ? current : (starts[0] ?? null)));
+  }, [starts]);
+
+  useEffect(() => {
+    profileStore.getDefaultPhoneNumber().then((saved) => {
+      if (saved) setPhoneNumber((current) => current || `0${toLocalPhoneNumber(saved.number)}`);
+    });
+  }, []);
+
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!lot || startsAt === null || endsAt === null) return;
+    reservationsApi
+      .quote({ lotId: lot.id, startsAt, endsAt }, getSignal())
+      .then(setQuote)
+      .catch((quoteError) => {
+        if (!isCancelled(quoteError)) {
+          setError(quoteError instanceof Error ? quoteError.message : t('reservations.quoteFailed'));
+        }
+      });
+  }, [lot, startsAt, endsAt, getSignal, t]);
+
+  if (!lot) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText style={styles.muted}>{t('reservations.lotNotFound')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const handleBook = async () => {
+    const number = toE164(phoneNumber);
+    if (!number) {
+      setError(t('auth.invalidPhone'));
+      return;
+    }
+    if (startsAt === null || endsAt === null) return;
+
+    setStatus('booking');
+    setError(null);
+    try {
+      const reservation = await reservationStore.book(
+        { lotId: lot.id, startsAt, endsAt, phoneNumber: number },
+        { signal: getSignal(), onPrompt: () => setStatus('prompted') }
+      );
+      router.replace({ pathname: '/reservations/[id]', params: { id: reservation.id } });
+    } catch (bookError) {
+      if (isCancelled(bookError)) return;
+      setError(bookError instanceof Error ? bookError.message : t('reservations.bookFailed'));
+      setStatus('idle');
+    }
+  };
+
+  const renderChips = <T extends string | number>(
+    items: { key: T; label: string }[],
+    selected: T | null,
+    onSelect: (key: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+      {items.map((item) => (
+        <TouchableOpacity
+          key={item.key}
+          onPress={() => onSelect(item.key)}
+          disabled={status !== 'idle'}
+          accessibilityRole="button"
+          accessibilityState={{ selected: item.key === selected }}
+          style={[
+            styles.chip,
+            { borderColor: Colors[theme].icon },
+            item.key === selected && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+          ]}>
+          <ThemedText style={[styles.chipText, item.key === selected && { color: Colors[theme].background }]}>
+            {item.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const canBook = status === 'idle' && quote !== null && phoneNumber.trim() !== '';
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: lot.name }} />
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View>
+          <ThemedText style={styles.detail}>{lot.address}</ThemedText>
+          <ThemedText style={styles.detail}>{formatOperatingHours(lot.openingHours)}</ThemedText>
+        </View>
+
+        <ThemedText type="defaultSemiBold">{t('reservations.day')}</ThemedText>
+        {renderChips(
+          days.map((day, index) => ({ key: index, label: formatSessionDate(day.getTime(), language) })),
+          dayIndex,
+          setDayIndex
+        )}
+
+        <ThemedText type="defaultSemiBold">{t('reservations.duration')}</ThemedText>
+        {renderChips(
+          DURATION_HOURS.map((hours) => ({ key: hours, label: formatMinutesDuration(hours * 60, language) })),
+          durationHours,
+          setDurationHours
+        )}
+
+        <ThemedText type="defaultSemiBold">{t('reservations.arrival')}</ThemedText>
+        {starts.length === 0 ? (
+          <ThemedText style={styles.detail}>{t('reservations.noTimes')}</ThemedText>
+        ) : (
+          renderChips(
+            starts.map((start) => ({ key: start, label: formatSessionTime(start, language) })),
+            startsAt,
+            setStartsAt
+          )
+        )}
+
+        {startsAt !== null && endsAt !== null && (
+          <View style={[styles.card, { borderColor: Colors[theme].icon }]}>
+            <ThemedText style={styles.detail}>
+              {t('reservations.window', {
+                date: formatSessionDate(startsAt, language),
+                start: formatSessionTime(startsAt, language),
+                end: formatSessionTime(endsAt, language),
+              })}
+            </ThemedText>
+            {quote ? (
+              <>
+                <ThemedText type="title">{formatCurrency(quote.deposit)}</ThemedText>
+                <ThemedText style={styles.detail}>{t('reservations.depositHint')}</ThemedText>
+                <ThemedText style={styles.detail}>
+                  {t('reservations.holdRule', { count: quote.policy.holdMinutes })}
+                </ThemedText>
+                <ThemedText style={styles.detail}>
+                  {t('reservations.cancelRule', {
+                    count: quote.policy.freeCancelMinutes,
+                    percent: quote.policy.lateCancelForfeitPercent,
+                  })}
+                </ThemedText>
+                <ThemedText style={styles.detail}>
+                  {t('reservations.noShowRule', { percent: quote.policy.noShowForfeitPercent })}
+                </ThemedText>
+              </>
+            ) : (
+              !error && <ActivityIndicator />
+            )}
+          </View>
+        )}
+
+        <TextInput
+          style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+          placeholder={t('auth.phonePlaceholder')}
+          placeholderTextColor={Colors[theme].icon}
+          accessibilityLabel={t('reservations.phone')}
+          keyboardType="phone-pad"
+          value={phoneNumber}
+          onChangeText={(value) => {
+            setPhoneNumber(value);
+            setError(null);
+          }}
+          editable={status === 'idle'}
+        />
+
+        {error && (
+          <ThemedText style={styles.error} accessibilityLiveRegion="polite">
+            {error}
+          </ThemedText>
+        )}
+        {status === 'prompted' && (
+          <ThemedText style={styles.detail} accessibilityLiveRegion="polite">
+            {t('reservations.checkPhone')}
+          </ThemedText>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors[theme].tint }, !canBook && styles.buttonDisabled]}
+          onPress={handleBook}
+          disabled={!canBook}
+          accessibilityRole="button"
+          accessibilityLabel={t('reservations.payDeposit', { amount: formatCurrency(quote?.deposit ?? 0) })}>
+          {status === 'idle' ? (
+            <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+              {t('reservations.payDeposit', { amount: formatCurrency(quote?.deposit ?? 0) })}
+            </ThemedText>
+          ) : (
+            <ActivityIndicator color={Colors[theme].background} />
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  filterRow: {
+    flexGrow: 0,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  muted: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
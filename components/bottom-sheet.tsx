@@ -0,0 +1,176 @@
+import {
+  BottomSheetBackdrop,
+  BottomSheetModal,
+  TouchableOpacity,
+  type BottomSheetBackdropProps,
+} from '@gorhom/bottom-sheet';
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { BackHandler, StyleSheet, View } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+
+type Props = {
+  visible: boolean;
+  /** Heights the sheet rests at, shortest first, e.g. `[100, '75%']` */
+  snapPoints: (number | string)[];
+  /** Snap point to show; defaults to the tallest. Dragging reports back through `onIndexChange` */
+  index?: number;
+  onIndexChange?: (index: number) => void;
+  /**
+   * Whether a backdrop tap or the back button asks to close. Turn off while
+   * something must not be interrupted, e.g. a payment waiting on the phone.
+   */
+  dismissible?: boolean;
+  /** The sheet never closes itself; the owner decides and clears `visible` */
+  onRequestClose: () => void;
+  expandLabel?: string;
+  collapseLabel?: string;
+  children: ReactNode;
+};
+
+/**
+ * Sheet pinned to the bottom of the screen that rests at a set of snap
+ * points. It moves out of the keyboard's way while an input inside it
+ * (`BottomSheetTextInput`) is focused, and its position is kept by the sheet
+ * itself, so the owner re-rendering — a ticking timer, say — never resets it.
+ *
+ * Dragging only moves between snap points; closing always goes through
+ * `onRequestClose` so the owner can confirm first.
+ */
+export function BottomSheet({
+  visible,
+  snapPoints,
+  index = snapPoints.length - 1,
+  onIndexChange,
+  dismissible = true,
+  onRequestClose,
+  expandLabel,
+  collapseLabel,
+  children,
+}: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const palette = Colors[theme];
+  const { t } = useTranslation();
+  const sheetRef = useRef<BottomSheetModal>(null);
+  const [currentIndex, setCurrentIndex] = useState(index);
+  const currentIndexRef = useRef(index);
+  const lastIndex = snapPoints.length - 1;
+
+  // Owners usually pass a fresh closure every render; keep the backdrop stable anyway
+  const onRequestCloseRef = useRef(onRequestClose);
+  useEffect(() => {
+    onRequestCloseRef.current = onRequestClose;
+  });
+  const requestClose = useCallback(() => onRequestCloseRef.current(), []);
+
+  useEffect(() => {
+    if (visible) {
+      sheetRef.current?.present();
+    } else {
+      sheetRef.current?.dismiss();
+    }
+  }, [visible]);
+
+  // Follow the owner's index without bouncing back what a drag just reported
+  useEffect(() => {
+    if (visible && index !== currentIndexRef.current) {
+      sheetRef.current?.snapToIndex(index);
+    }
+  }, [visible, index]);
+
+  useEffect(() => {
+    if (!visible) return;
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      if (dismissible) requestClose();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [visible, dismissible, requestClose]);
+
+  const handleChange = useCallback(
+    (next: number) => {
+      if (next < 0) return;
+      currentIndexRef.current = next;
+      setCurrentIndex(next);
+      onIndexChange?.(next);
+    },
+    [onIndexChange]
+  );
+
+  // Only the expanded sheet dims the screen; collapsed, the map behind it stays usable
+  const renderBackdrop = useCallback(
+    (props: BottomSheetBackdropProps) => (
+      <BottomSheetBackdrop
+        {...props}
+        appearsOnIndex={lastIndex}
+        disappearsOnIndex={lastIndex - 1}
+        opacity={1}
+        style={[props.style, { backgroundColor: palette.overlay }]}
+        pressBehavior="none"
+        onPress={dismissible ? requestClose : undefined}
+      />
+    ),
+    [palette, lastIndex, dismissible, requestClose]
+  );
+
+  // Tapping the handle is the non-drag way to resize the sheet
+  const expanded = currentIndex === lastIndex;
+  const renderHandle = useCallback(
+    () => (
+      <TouchableOpacity
+        style={[styles.handleContainer, { backgroundColor: palette.surfaceMuted }]}
+        onPress={() => sheetRef.current?.snapToIndex(expanded ? 0 : lastIndex)}
+        accessibilityRole="button"
+        accessibilityLabel={
+          expanded ? collapseLabel ?? t('a11y.collapseSheet') : expandLabel ?? t('a11y.expandSheet')
+        }
+        accessibilityState={{ expanded }}>
+        <View style={[styles.handle, { backgroundColor: palette.disabled }]} />
+      </TouchableOpacity>
+    ),
+    [palette, expanded, lastIndex, expandLabel, collapseLabel, t]
+  );
+
+  return (
+    <BottomSheetModal
+      ref={sheetRef}
+      index={index}
+      snapPoints={snapPoints}
+      enableDynamicSizing={false}
+      enablePanDownToClose={false}
+      keyboardBehavior="interactive"
+      keyboardBlurBehavior="restore"
+      android_keyboardInputMode="adjustResize"
+      backdropComponent={renderBackdrop}
+      handleComponent={renderHandle}
+      backgroundStyle={[styles.background, { backgroundColor: palette.surface }]}
+      onChange={handleChange}>
+      {children}
+    </BottomSheetModal>
+  );
+}
+
+const styles = StyleSheet.create({
+  background: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+  },
+});
@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import { historyStore } from '@/services/historyStore';
+import { getReimbursableSessions, shareExpenseExport, type ExportFormat } from '@/services/receipts';
+
+type Props = {
+  visible: boolean;
+  vehiclePlate: string | null;
+  onClose: () => void;
+  onError: (message: string) => void;
+};
+
+const MONTHS_AVAILABLE = 12;
+
+const getRecentMonths = (locale: string) => {
+  const now = new Date();
+  return Array.from({ length: MONTHS_AVAILABLE }, (_, index) => {
+    const start = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return {
+      start: start.getTime(),
+      end: new Date(start.getFullYear(), start.getMonth() + 1, 1).getTime(),
+      label: start.toLocaleDateString(locale, { month: 'short', year: 'numeric' }),
+    };
+  });
+};
+
+/**
+ * Export parking expenses for a range of whole months as CSV or PDF. Sessions
+ * billed to a fleet are left out, since the company already pays for them.
+ */
+export function ExpenseExportSheet({ visible, vehiclePlate, onClose, onError }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t, locale } = useTranslation();
+  const months = useMemo(() => getRecentMonths(locale), [locale]);
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(0);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  // Months are listed newest first, so the later month has the lower index
+  const from = months[Math.max(fromIndex, toIndex)].start;
+  const to = months[Math.min(fromIndex, toIndex)].end;
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const sessions = getReimbursableSessions(await historyStore.getAll({ from, to, vehiclePlate }));
+      if (sessions.length === 0) {
+        onError(t('export.noSessions'));
+        return;
+      }
+      await shareExpenseExport(sessions, from, to, format);
+      onClose();
+    } catch {
+      onError(t('export.failed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderMonths = (selected: number, onSelect: (index: number) => void) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {months.map((month, index) => (
+        <TouchableOpacity
+          key={month.start}
+          onPress={() => onSelect(index)}
+          style={[
+            styles.chip,
+            { borderColor: Colors[theme].icon },
+            selected === index && { backgroundColor: Colors[theme].tint, borderColor: Colors[theme].tint },
+          ]}>
+          <ThemedText style={[styles.chipText, selected === index && { color: Colors[theme].background }]}>
+            {month.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <ThemedView style={styles.sheet}>
+        <ThemedText type="subtitle">{t('export.title')}</ThemedText>
+        {vehiclePlate && <ThemedText style={styles.muted}>{t('export.onlyVehicle', { plate: vehiclePlate })}</ThemedText>}
+
+        <ThemedText type="defaultSemiBold">{t('export.from')}</ThemedText>
+        {renderMonths(fromIndex, setFromIndex)}
+        <ThemedText type="defaultSemiBold">{t('export.to')}</ThemedText>
+        {renderMonths(toIndex, setToIndex)}
+
+        <View style={styles.actions}>
+          {(['csv', 'pdf'] as ExportFormat[]).map((format) => (
+            <TouchableOpacity
+              key={format}
+              disabled={exporting !== null}
+              onPress={() => handleExport(format)}
+              style={[styles.button, { backgroundColor: Colors[theme].tint }]}>
+              {exporting === format ? (
+                <ActivityIndicator color={Colors[theme].background} />
+              ) : (
+                <ThemedText style={[styles.buttonText, { color: Colors[theme].background }]}>
+                  {format.toUpperCase()}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    gap: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
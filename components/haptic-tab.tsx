@@ -2,6 +2,8 @@ import { BottomTabBarButtonProps } from '@react-navigation/bottom-tabs';
 import { PlatformPressable } from '@react-navigation/elements';
 import * as Haptics from 'expo-haptics';
 
+import { haptics } from '@/services/haptics';
+
 export function HapticTab(props: BottomTabBarButtonProps) {
   return (
     <PlatformPressable
@@ -9,7 +11,7 @@ export function HapticTab(props: BottomTabBarButtonProps) {
       onPressIn={(ev) => {
         if (process.env.EXPO_OS === 'ios') {
           // Add a soft haptic feedback when pressing down on the tabs.
-          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          haptics.impact(Haptics.ImpactFeedbackStyle.Light);
         }
         props.onPressIn?.(ev);
       }}
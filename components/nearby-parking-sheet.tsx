@@ -0,0 +1,158 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useMemo, useState } from 'react';
+import { FlatList, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { formatOperatingHours } from '@/constants/zones';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  getNearbyLocations,
+  isLocationOpen,
+  type NearbyParkingLocation,
+} from '@/services/parkingLocations';
+import { formatDistance, type LatLng } from '@/utils/geo';
+
+type Props = {
+  visible: boolean;
+  origin: LatLng;
+  onSelect: (location: NearbyParkingLocation) => void;
+  onClose: () => void;
+};
+
+/**
+ * Searchable list of nearby parking, nearest first.
+ */
+export function NearbyParkingSheet({ visible, origin, onSelect, onClose }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const formatCurrency = useFormatCurrency();
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(() => getNearbyLocations(origin, query), [origin, query]);
+
+  const renderItem = ({ item }: { item: NearbyParkingLocation }) => {
+    const open = isLocationOpen(item);
+
+    return (
+      <TouchableOpacity
+        style={[styles.item, { borderBottomColor: Colors[theme].icon }]}
+        onPress={() => onSelect(item)}>
+        <Ionicons
+          name={item.kind === 'lot' ? 'business-outline' : 'trail-sign-outline'}
+          size={24}
+          color={Colors[theme].icon}
+        />
+        <View style={styles.itemText}>
+          <ThemedText type="defaultSemiBold">{item.name}</ThemedText>
+          <ThemedText style={styles.muted} numberOfLines={1}>{item.address}</ThemedText>
+          <ThemedText style={styles.muted}>
+            {t('common.perHour', { amount: formatCurrency(item.hourlyRate) })} ·{' '}
+            {t('nearby.spaces', { count: item.capacity })} · {formatOperatingHours(item.openingHours)}
+          </ThemedText>
+        </View>
+        <View style={styles.itemMeta}>
+          <ThemedText style={styles.distance}>{formatDistance(item.distanceMeters)}</ThemedText>
+          <ThemedText style={[styles.openBadge, { color: open ? '#52c41a' : '#ff3b30' }]}>
+            {open ? t('common.open') : t('common.closed')}
+          </ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal animationType="slide" visible={visible} onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <View style={[styles.search, { borderColor: Colors[theme].icon }]}>
+            <Ionicons name="search" size={18} color={Colors[theme].icon} />
+            <TextInput
+              style={[styles.searchInput, { color: Colors[theme].text }]}
+              placeholder={t('nearby.searchPlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.close}>
+            <Ionicons name="close" size={24} color={Colors[theme].text} />
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <ThemedText style={[styles.muted, styles.empty]}>{t('nearby.noMatches', { query })}</ThemedText>
+          }
+        />
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  search: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  close: {
+    paddingLeft: 12,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemMeta: {
+    alignItems: 'flex-end',
+  },
+  distance: {
+    fontWeight: '600',
+  },
+  openBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  muted: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  empty: {
+    textAlign: 'center',
+    paddingTop: 48,
+  },
+});
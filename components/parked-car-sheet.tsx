@@ -0,0 +1,159 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useEffect, useState } from 'react';
+import { Alert, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/use-translation';
+import type { ParkedCar, ParkedCarDetails } from '@/services/parkedCarStore';
+
+type Props = {
+  visible: boolean;
+  parkedCar: ParkedCar | null;
+  onSave: (details: ParkedCarDetails) => void;
+  onClose: () => void;
+};
+
+/**
+ * Floor/bay notes and a photo to help find the car again.
+ */
+export function ParkedCarSheet({ visible, parkedCar, onSave, onClose }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [floor, setFloor] = useState('');
+  const [bay, setBay] = useState('');
+  const [notes, setNotes] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible && parkedCar) {
+      setFloor(parkedCar.floor);
+      setBay(parkedCar.bay);
+      setNotes(parkedCar.notes);
+      setPhotoUri(parkedCar.photoUri);
+    }
+  }, [visible, parkedCar]);
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('parkedCar.cameraTitle'), t('parkedCar.cameraMessage'));
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({ quality: 0.5 });
+    if (!result.canceled && result.assets.length > 0) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  };
+
+  const inputStyle = [styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }];
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <ThemedView style={styles.sheet}>
+        <ThemedText type="subtitle">{t('parkedCar.title')}</ThemedText>
+
+        <View style={styles.row}>
+          <TextInput
+            style={[inputStyle, styles.half]}
+            placeholder={t('parkedCar.floor')}
+            placeholderTextColor={Colors[theme].icon}
+            value={floor}
+            onChangeText={setFloor}
+          />
+          <TextInput
+            style={[inputStyle, styles.half]}
+            placeholder={t('parkedCar.bay')}
+            placeholderTextColor={Colors[theme].icon}
+            value={bay}
+            onChangeText={setBay}
+          />
+        </View>
+        <TextInput
+          style={inputStyle}
+          placeholder={t('parkedCar.notes')}
+          placeholderTextColor={Colors[theme].icon}
+          value={notes}
+          onChangeText={setNotes}
+        />
+
+        {photoUri ? (
+          <TouchableOpacity onPress={takePhoto}>
+            <Image source={{ uri: photoUri }} style={styles.photo} contentFit="cover" />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.photoButton, { borderColor: Colors[theme].icon }]}
+            onPress={takePhoto}>
+            <Ionicons name="camera-outline" size={24} color={Colors[theme].icon} />
+            <ThemedText style={styles.muted}>{t('parkedCar.addPhoto')}</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: Colors[theme].tint }]}
+          onPress={() => onSave({ floor: floor.trim(), bay: bay.trim(), notes: notes.trim(), photoUri })}>
+          <ThemedText style={[styles.saveText, { color: Colors[theme].background }]}>{t('common.save')}</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  half: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  photo: {
+    height: 160,
+    borderRadius: 12,
+  },
+  photoButton: {
+    height: 80,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  saveText: {
+    fontWeight: '600',
+  },
+});
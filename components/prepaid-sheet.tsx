@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import { PREPAID_DURATIONS_MINUTES, quoteExtension } from '@/services/prepaidStore';
+import { formatMinutesDuration } from '@/utils/i18n';
+import type { Tariff } from '@/utils/tariff';
+
+type Props = {
+  visible: boolean;
+  mode: 'start' | 'extend';
+  tariff: Tariff;
+  /** Session start and current paid-until; both "now" when starting */
+  startedAt: number;
+  paidUntil: number;
+  /** Longest total stay allowed in the zone */
+  maxStayMinutes: number | null;
+  /** Shortest block that may be bought, e.g. to cover an overstay */
+  minMinutes?: number;
+  phoneNumber: string;
+  onChangePhoneNumber: (value: string) => void;
+  isProcessing: boolean;
+  isWaitingForConfirmation: boolean;
+  onPay: (minutes: number, amount: number) => void;
+  onClose: () => void;
+};
+
+/**
+ * Pick how long to prepay for (or extend by) and pay for it with M-Pesa.
+ */
+export function PrepaidSheet({
+  visible,
+  mode,
+  tariff,
+  startedAt,
+  paidUntil,
+  maxStayMinutes,
+  minMinutes = 0,
+  phoneNumber,
+  onChangePhoneNumber,
+  isProcessing,
+  isWaitingForConfirmation,
+  onPay,
+  onClose,
+}: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const formatCurrency = useFormatCurrency();
+  const { t, language } = useTranslation();
+
+  const options = useMemo(() => {
+    const alreadyPaidMinutes = Math.max(0, (paidUntil - startedAt) / 60000);
+    return PREPAID_DURATIONS_MINUTES.filter(
+      (minutes) =>
+        minutes >= minMinutes &&
+        (maxStayMinutes === null || alreadyPaidMinutes + minutes <= maxStayMinutes)
+    );
+  }, [startedAt, paidUntil, maxStayMinutes, minMinutes]);
+
+  const [minutes, setMinutes] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (visible) setMinutes(options[0] ?? null);
+  }, [visible, options]);
+
+  const amount = minutes === null ? 0 : quoteExtension(tariff, startedAt, paidUntil, minutes);
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={() => !isProcessing && onClose()}
+      />
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ThemedView style={styles.sheet}>
+          <ThemedText type="subtitle">
+            {mode === 'start' ? t('prepaid.startTitle') : t('prepaid.extendTitle')}
+          </ThemedText>
+
+          {options.length === 0 ? (
+            <ThemedText style={styles.muted}>
+              {t('prepaid.maxStayReached')}
+            </ThemedText>
+          ) : (
+            <View style={styles.options}>
+              {options.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  disabled={isProcessing}
+                  onPress={() => setMinutes(option)}
+                  style={[
+                    styles.option,
+                    { borderColor: Colors[theme].icon },
+                    minutes === option && { borderColor: Colors[theme].tint, backgroundColor: Colors[theme].tint },
+                  ]}>
+                  <ThemedText style={minutes === option && { color: Colors[theme].background }}>
+                    {formatMinutesDuration(option, language)}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {isWaitingForConfirmation ? (
+            <View style={styles.waiting}>
+              <ActivityIndicator color={Colors[theme].tint} />
+              <ThemedText style={styles.muted}>{t('prepaid.checkPhone')}</ThemedText>
+            </View>
+          ) : (
+            <TextInput
+              style={[styles.input, { color: Colors[theme].text, borderColor: Colors[theme].icon }]}
+              placeholder={t('prepaid.phonePlaceholder')}
+              placeholderTextColor={Colors[theme].icon}
+              keyboardType="phone-pad"
+              value={phoneNumber}
+              onChangeText={onChangePhoneNumber}
+              editable={!isProcessing}
+            />
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.payButton,
+              { backgroundColor: Colors[theme].tint },
+              (isProcessing || minutes === null) && styles.disabled,
+            ]}
+            disabled={isProcessing || minutes === null}
+            onPress={() => minutes !== null && onPay(minutes, amount)}>
+            {isProcessing ? (
+              <ActivityIndicator color={Colors[theme].background} />
+            ) : (
+              <ThemedText style={[styles.payText, { color: Colors[theme].background }]}>
+                {t('payment.pay', { amount: formatCurrency(amount) })}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    gap: 16,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  waiting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  payButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  payText: {
+    fontWeight: '700',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  muted: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,60 @@
+import { StyleSheet, Text, View, type StyleProp, type TextStyle, type ViewStyle } from 'react-native';
+
+import { useFormatCurrency } from '@/hooks/use-settings';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatMinutesDuration } from '@/utils/i18n';
+import type { TariffQuote } from '@/utils/tariff';
+
+type Props = {
+  quote: TariffQuote;
+  rowStyle?: StyleProp<ViewStyle>;
+  labelStyle?: StyleProp<TextStyle>;
+  valueStyle?: StyleProp<TextStyle>;
+};
+
+/**
+ * Itemized list of the lines in a tariff quote. Row and text styles can be
+ * passed in so it blends into whichever summary it is rendered in.
+ */
+export function TariffBreakdown({ quote, rowStyle, labelStyle, valueStyle }: Props) {
+  const formatCurrency = useFormatCurrency();
+  const { t, language } = useTranslation();
+
+  return (
+    <View>
+      {quote.lines.map((line) => (
+        <View key={line.label} style={[styles.row, rowStyle]}>
+          <View style={styles.labelColumn}>
+            <Text style={labelStyle}>{line.label}</Text>
+            {line.rate !== null && (
+              <Text style={[labelStyle, styles.detail]}>
+                {formatMinutesDuration(line.minutes, language)} @{' '}
+                {t('common.perHour', { amount: formatCurrency(line.rate) })}
+              </Text>
+            )}
+          </View>
+          <Text style={valueStyle}>
+            {formatCurrency(line.amount)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+  },
+  labelColumn: {
+    flex: 1,
+    marginRight: 12,
+  },
+  detail: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
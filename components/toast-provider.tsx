@@ -0,0 +1,26 @@
+import { useCallback, useSyncExternalStore, type ReactNode } from 'react';
+
+import { Toast } from '@/components/toast';
+import { toastStore } from '@/services/toastStore';
+
+/**
+ * Shows queued toasts above the whole app, one at a time. Mounted once in the
+ * root layout; anything else queues toasts with `toastStore` or `useToast`.
+ */
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const current = useSyncExternalStore(toastStore.subscribe, toastStore.getCurrent, toastStore.getCurrent);
+  // Stable per toast, so its auto-dismiss timer isn't restarted by re-renders
+  const dismiss = useCallback(() => current && toastStore.dismiss(current.id), [current]);
+  const runAction = useCallback(() => current && toastStore.runAction(current.id), [current]);
+
+  return (
+    <>
+      {children}
+      <Toast
+        toast={current}
+        onDismiss={dismiss}
+        onAction={runAction}
+      />
+    </>
+  );
+}
@@ -0,0 +1,178 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useRef } from 'react';
+import { AccessibilityInfo, Animated, Easing, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useScreenReaderEnabled } from '@/hooks/use-screen-reader';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Toast as ToastItem } from '@/services/toastStore';
+
+type Props = {
+  toast: ToastItem | null;
+  onDismiss: () => void;
+  onAction: () => void;
+};
+
+const TOAST_ICONS = {
+  success: 'checkmark-circle',
+  error: 'warning',
+  warning: 'warning',
+  info: 'information-circle',
+} as const;
+
+const TOAST_TITLES = {
+  success: 'common.success',
+  error: 'common.error',
+  warning: 'common.warning',
+  info: 'common.info',
+} as const;
+
+/**
+ * Notification pinned to the top of the screen. It is announced to screen
+ * readers when it appears and can always be dismissed by its close button;
+ * with a screen reader on it stays until dismissed so it is never cut off
+ * mid-read.
+ *
+ * It floats over the app without taking focus or touches from it, so the
+ * screen underneath stays usable while it shows.
+ */
+export function Toast({ toast, onDismiss, onAction }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const palette = Colors[theme];
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const screenReaderEnabled = useScreenReaderEnabled();
+  const progress = useRef(new Animated.Value(1)).current;
+
+  const title = toast ? toast.title ?? t(TOAST_TITLES[toast.type]) : '';
+  const autoDismissMs = toast && !screenReaderEnabled ? toast.durationMs : null;
+
+  // Announce each toast once, not again when the language changes
+  const announcedRef = useRef<ToastItem | null>(null);
+  useEffect(() => {
+    if (!toast || announcedRef.current === toast) return;
+    announcedRef.current = toast;
+    AccessibilityInfo.announceForAccessibility(`${title}. ${toast.message}`);
+  }, [toast, title]);
+
+  // The bar drains over the toast's lifetime and dismisses it when empty
+  useEffect(() => {
+    if (autoDismissMs === null) return;
+    progress.setValue(1);
+    const animation = Animated.timing(progress, {
+      toValue: 0,
+      duration: autoDismissMs,
+      easing: Easing.linear,
+      useNativeDriver: false,
+    });
+    animation.start(({ finished }) => finished && onDismiss());
+    return () => animation.stop();
+  }, [toast, autoDismissMs, onDismiss, progress]);
+
+  const colors = toast && {
+    success: { background: palette.successSurface, border: palette.successBorder, icon: palette.success },
+    error: { background: palette.dangerSurface, border: palette.dangerBorder, icon: palette.danger },
+    warning: { background: palette.warningSurface, border: palette.warningBorder, icon: palette.warning },
+    info: { background: palette.surface, border: palette.border, icon: palette.primary },
+  }[toast.type];
+
+  if (!toast || !colors) return null;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+      <View
+        style={[
+          styles.toast,
+          { top: insets.top + 8, backgroundColor: colors.background, borderColor: colors.border },
+        ]}
+        accessibilityRole="alert">
+        <View style={styles.row}>
+          <Ionicons name={TOAST_ICONS[toast.type]} size={24} color={colors.icon} />
+          <View style={styles.body}>
+            <Text style={[styles.title, { color: palette.text }]}>{title}</Text>
+            <Text style={[styles.message, { color: palette.text }]}>{toast.message}</Text>
+          </View>
+          {toast.action && (
+            <TouchableOpacity onPress={onAction} style={styles.action} accessibilityRole="button">
+              <Text style={[styles.actionText, { color: colors.icon }]}>{toast.action.label}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={onDismiss}
+            style={styles.dismiss}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.dismiss')}>
+            <Ionicons name="close" size={20} color={palette.textSecondary} />
+          </TouchableOpacity>
+        </View>
+        {autoDismissMs !== null && (
+          <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+            <Animated.View
+              style={[
+                styles.progressFill,
+                {
+                  backgroundColor: colors.icon,
+                  width: progress.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] }),
+                },
+              ]}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    padding: 16,
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  action: {
+    alignSelf: 'center',
+    paddingHorizontal: 4,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  dismiss: {
+    padding: 2,
+  },
+  progressTrack: {
+    height: 3,
+  },
+  progressFill: {
+    height: 3,
+  },
+});
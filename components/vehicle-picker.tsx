@@ -0,0 +1,153 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { type ComponentProps, useEffect, useState } from 'react';
+import { Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFleets } from '@/hooks/use-fleets';
+import { useTranslation } from '@/hooks/use-translation';
+import { findFleetByPlate } from '@/services/fleetStore';
+import { vehicleStore, type Vehicle, type VehicleType } from '@/services/vehicleStore';
+import { normalizePlate } from '@/utils/plateValidator';
+
+export const VEHICLE_ICONS: Record<VehicleType, ComponentProps<typeof Ionicons>['name']> = {
+  car: 'car-outline',
+  suv: 'car-sport-outline',
+  van: 'bus-outline',
+  truck: 'cube-outline',
+  motorcycle: 'bicycle-outline',
+};
+
+type Props = {
+  visible: boolean;
+  /** Called with the chosen vehicle, or null to park without one */
+  onSelect: (vehicle: Vehicle | null) => void;
+  onClose: () => void;
+};
+
+/**
+ * Asks which registered vehicle is parking, with the default vehicle
+ * highlighted, followed by company vehicles the driver may park that aren't
+ * in their own registry. Vehicles are reloaded each time the picker opens.
+ */
+export function VehiclePicker({ visible, onSelect, onClose }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const fleets = useFleets();
+  const fleetVehicles: Vehicle[] = fleets.flatMap((fleet) =>
+    fleet.vehicles
+      .filter((plate) => !vehicles.some((vehicle) => normalizePlate(vehicle.plate) === normalizePlate(plate)))
+      .map((plate) => ({ id: `${fleet.id}:${plate}`, plate, nickname: fleet.name, type: 'car', isDefault: false }))
+  );
+
+  useEffect(() => {
+    if (visible) {
+      vehicleStore.getAll().then(setVehicles);
+    }
+  }, [visible]);
+
+  const handleAddVehicle = () => {
+    onClose();
+    router.push('/vehicles');
+  };
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <ThemedView style={styles.sheet}>
+        <ThemedText type="subtitle">{t('vehicles.pickerTitle')}</ThemedText>
+
+        {vehicles.length === 0 && fleetVehicles.length === 0 && (
+          <ThemedText style={styles.muted}>
+            {t('vehicles.noneSaved')}
+          </ThemedText>
+        )}
+
+        {vehicles.map((vehicle) => (
+          <TouchableOpacity
+            key={vehicle.id}
+            style={[
+              styles.option,
+              { borderColor: vehicle.isDefault ? Colors[theme].tint : Colors[theme].icon },
+            ]}
+            onPress={() => onSelect(vehicle)}>
+            <Ionicons name={VEHICLE_ICONS[vehicle.type]} size={24} color={Colors[theme].icon} />
+            <View style={styles.optionText}>
+              <ThemedText type="defaultSemiBold">{vehicle.plate}</ThemedText>
+              {!!vehicle.nickname && <ThemedText style={styles.muted}>{vehicle.nickname}</ThemedText>}
+            </View>
+            {vehicle.isDefault && (
+              <ThemedText style={[styles.badge, { color: Colors[theme].tint }]}>{t('common.default')}</ThemedText>
+            )}
+            {!vehicle.isDefault && findFleetByPlate(fleets, vehicle.plate) && (
+              <ThemedText style={[styles.badge, { color: Colors[theme].tint }]}>{t('fleet.badge')}</ThemedText>
+            )}
+          </TouchableOpacity>
+        ))}
+
+        {fleetVehicles.map((vehicle) => (
+          <TouchableOpacity
+            key={vehicle.id}
+            style={[styles.option, { borderColor: Colors[theme].icon }]}
+            onPress={() => onSelect(vehicle)}>
+            <Ionicons name="business-outline" size={24} color={Colors[theme].icon} />
+            <View style={styles.optionText}>
+              <ThemedText type="defaultSemiBold">{vehicle.plate}</ThemedText>
+              <ThemedText style={styles.muted}>{vehicle.nickname}</ThemedText>
+            </View>
+            <ThemedText style={[styles.badge, { color: Colors[theme].tint }]}>{t('fleet.badge')}</ThemedText>
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={handleAddVehicle}>
+            <ThemedText type="link">{t('vehicles.add')}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onSelect(null)}>
+            <ThemedText type="link">{t('vehicles.parkWithout')}</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    gap: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+  },
+  optionText: {
+    flex: 1,
+  },
+  badge: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  muted: {
+    opacity: 0.7,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+});
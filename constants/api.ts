@@ -0,0 +1,28 @@
+import Constants from 'expo-constants';
+
+/**
+ * Backend URLs, set per build in app.json `extra`. The matching
+ * `EXPO_PUBLIC_*` variable overrides each one for a local run, e.g. a device
+ * on the LAN talking to the mock servers on a laptop.
+ */
+
+interface ApiConfig {
+  apiUrl?: string;
+  mpesaApiUrl?: string;
+  realtimeUrl?: string;
+}
+
+const extra: ApiConfig = Constants.expoConfig?.extra ?? {};
+
+/** The parking backend: accounts, sign-in and everything tied to a driver (`npm run mock-api`) */
+export const API_URL = process.env.EXPO_PUBLIC_API_URL ?? extra.apiUrl ?? 'http://localhost:4020';
+
+/** Where STK pushes go: the backend holding the Daraja credentials (`npm run mock-daraja`) */
+export const MPESA_API_URL =
+  process.env.EXPO_PUBLIC_MPESA_API_URL ?? extra.mpesaApiUrl ?? 'http://localhost:4010';
+
+/** WebSocket pushing payment results and session changes (`npm run mock-realtime`) */
+export const REALTIME_URL =
+  process.env.EXPO_PUBLIC_REALTIME_URL ?? extra.realtimeUrl ?? 'ws://localhost:4030';
+
+export const REQUEST_TIMEOUT_MS = 15 * 1000;
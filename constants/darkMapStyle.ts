@@ -0,0 +1,24 @@
+/**
+ * Google Maps style used on the Parking map when the app is in dark mode,
+ * the counterpart of `mapStyle` for light mode.
+ */
+export const darkMapStyle = [
+  { elementType: 'geometry', stylers: [{ color: '#1d2023' }] },
+  { elementType: 'labels.text.fill', stylers: [{ color: '#8a9096' }] },
+  { elementType: 'labels.text.stroke', stylers: [{ color: '#1d2023' }] },
+  { featureType: 'administrative.locality', elementType: 'labels.text.fill', stylers: [{ color: '#c3c8cc' }] },
+  { featureType: 'poi', elementType: 'labels.text.fill', stylers: [{ color: '#8a9096' }] },
+  { featureType: 'poi.business', stylers: [{ visibility: 'off' }] },
+  { featureType: 'poi.park', elementType: 'geometry', stylers: [{ color: '#1f2b24' }] },
+  { featureType: 'poi.park', elementType: 'labels.text.fill', stylers: [{ color: '#5f7a68' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#2c3033' }] },
+  { featureType: 'road', elementType: 'geometry.stroke', stylers: [{ color: '#212427' }] },
+  { featureType: 'road', elementType: 'labels.text.fill', stylers: [{ color: '#9ba1a6' }] },
+  { featureType: 'road.highway', elementType: 'geometry', stylers: [{ color: '#3c4246' }] },
+  { featureType: 'road.highway', elementType: 'geometry.stroke', stylers: [{ color: '#25292c' }] },
+  { featureType: 'road.highway', elementType: 'labels.text.fill', stylers: [{ color: '#c3c8cc' }] },
+  { featureType: 'transit', elementType: 'geometry', stylers: [{ color: '#262a2d' }] },
+  { featureType: 'transit.station', elementType: 'labels.text.fill', stylers: [{ color: '#8a9096' }] },
+  { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#0f1b24' }] },
+  { featureType: 'water', elementType: 'labels.text.fill', stylers: [{ color: '#4e6170' }] },
+];
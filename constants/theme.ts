@@ -11,22 +11,65 @@ const tintColorDark = '#fff';
 export const Colors = {
   light: {
     text: '#11181C',
+    textSecondary: '#687076',
     background: '#fff',
+    /** Cards, sheets and drawers that sit above the map or background */
+    surface: '#fff',
+    surfaceMuted: '#f8f8f8',
+    border: '#e6e8eb',
+    overlay: 'rgba(0, 0, 0, 0.4)',
     tint: tintColorLight,
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    primary: tintColorLight,
+    onPrimary: '#fff',
+    disabled: '#ccc',
+    danger: '#ff3b30',
+    dangerSurface: '#fee',
+    dangerBorder: '#fcc',
+    warning: '#faad14',
+    warningSurface: '#fff9e6',
+    warningBorder: '#ffe58f',
+    success: '#52c41a',
+    successSurface: '#f6ffed',
+    successBorder: '#b7eb8f',
+    swipeRail: '#f0f0f0',
+    swipeThumb: '#fff',
+    userLocation: '#1a73e8',
   },
   dark: {
     text: '#ECEDEE',
+    textSecondary: '#9BA1A6',
     background: '#151718',
+    surface: '#1f2224',
+    surfaceMuted: '#26292b',
+    border: '#2f3336',
+    overlay: 'rgba(0, 0, 0, 0.6)',
     tint: tintColorDark,
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    primary: '#3da5d9',
+    onPrimary: '#fff',
+    disabled: '#4a4f53',
+    danger: '#ff6961',
+    dangerSurface: '#2a1215',
+    dangerBorder: '#58181c',
+    warning: '#ffc53d',
+    warningSurface: '#2b2111',
+    warningBorder: '#594214',
+    success: '#73d13d',
+    successSurface: '#162312',
+    successBorder: '#274916',
+    swipeRail: '#2a2d2f',
+    swipeThumb: '#3a3f42',
+    userLocation: '#4c8df6',
   },
 };
 
+export type ThemeColors = typeof Colors.light;
+
 export const Fonts = Platform.select({
   ios: {
     /** iOS `UIFontDescriptorSystemDesignDefault` */
@@ -0,0 +1,106 @@
+import type { LatLng } from '@/utils/geo';
+import { isPointInPolygon } from '@/utils/geo';
+import { translate, type MessageKey } from '@/utils/i18n';
+import { isWithinOperatingHours, type OperatingHours } from '@/utils/localTime';
+import { DEFAULT_TARIFF, type Tariff } from '@/utils/tariff';
+
+export interface ParkingZone {
+  id: string;
+  name: string;
+  /** Charged only within `operatingHours` */
+  tariff: Tariff;
+  operatingHours: OperatingHours;
+  /** Longest a single session may last, in minutes */
+  maxStayMinutes: number;
+  /** Overlay colour on the map */
+  color: string;
+  polygon: LatLng[];
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const MON_TO_SAT = [1, 2, 3, 4, 5, 6];
+
+// The zone's tariff only charges while the zone is open
+const defineZone = (zone: ParkingZone): ParkingZone => ({
+  ...zone,
+  tariff: { ...zone.tariff, operatingHours: zone.operatingHours },
+});
+
+export const PARKING_ZONES: ParkingZone[] = [
+  defineZone({
+    id: 'cbd-core',
+    name: 'CBD Core',
+    tariff: DEFAULT_TARIFF,
+    operatingHours: { days: MON_TO_SAT, open: '07:00', close: '19:00' },
+    maxStayMinutes: 4 * 60,
+    color: '#ff3b30',
+    polygon: [
+      { latitude: -1.2805, longitude: 36.8155 },
+      { latitude: -1.2805, longitude: 36.8290 },
+      { latitude: -1.2920, longitude: 36.8290 },
+      { latitude: -1.2920, longitude: 36.8155 },
+    ],
+  }),
+  defineZone({
+    id: 'upper-hill',
+    name: 'Upper Hill',
+    tariff: {
+      ...DEFAULT_TARIFF,
+      id: 'upper-hill',
+      name: 'Upper Hill',
+      dailyCap: 600,
+      rates: {
+        ...DEFAULT_TARIFF.rates,
+        day: { firstHourRate: 80, subsequentHourlyRate: 40 },
+      },
+    },
+    operatingHours: { days: WEEKDAYS, open: '07:00', close: '18:00' },
+    maxStayMinutes: 10 * 60,
+    color: '#faad14',
+    polygon: [
+      { latitude: -1.2925, longitude: 36.8110 },
+      { latitude: -1.2925, longitude: 36.8240 },
+      { latitude: -1.3040, longitude: 36.8240 },
+      { latitude: -1.3040, longitude: 36.8110 },
+    ],
+  }),
+  defineZone({
+    id: 'westlands',
+    name: 'Westlands',
+    tariff: {
+      ...DEFAULT_TARIFF,
+      id: 'westlands',
+      name: 'Westlands',
+      gracePeriodMinutes: 15,
+      dailyCap: 800,
+      rates: {
+        ...DEFAULT_TARIFF.rates,
+        day: { firstHourRate: 70, subsequentHourlyRate: 50 },
+        night: { firstHourRate: 70, subsequentHourlyRate: 50 },
+      },
+    },
+    operatingHours: { days: [0, 1, 2, 3, 4, 5, 6], open: '06:00', close: '23:00' },
+    maxStayMinutes: 6 * 60,
+    color: '#1890ff',
+    polygon: [
+      { latitude: -1.2585, longitude: 36.7980 },
+      { latitude: -1.2585, longitude: 36.8110 },
+      { latitude: -1.2705, longitude: 36.8110 },
+      { latitude: -1.2705, longitude: 36.7980 },
+    ],
+  }),
+];
+
+export const findZoneAt = (point: LatLng, zones: ParkingZone[] = PARKING_ZONES): ParkingZone | null =>
+  zones.find((zone) => isPointInPolygon(point, zone.polygon)) ?? null;
+
+export const isZoneOpen = (zone: ParkingZone, date: Date = new Date()): boolean =>
+  isWithinOperatingHours(zone.operatingHours, date);
+
+export const formatOperatingHours = (hours: OperatingHours): string => {
+  const dayName = (day: number) => translate(`day.${day}` as MessageKey);
+  const days = hours.days.length === 7
+    ? translate('hours.daily')
+    : `${dayName(hours.days[0])}–${dayName(hours.days[hours.days.length - 1])}`;
+  return translate('hours.range', { days, open: hours.open, close: hours.close });
+};
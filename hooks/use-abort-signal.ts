@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Signal for requests a screen starts, aborted when the screen unmounts so a
+ * late response never lands on a screen that has gone. Call the returned
+ * function when starting each request.
+ */
+export function useAbortSignal(): () => AbortSignal | undefined {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => controllerRef.current?.signal, []);
+}
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { authStore, type AuthState } from '@/services/authStore';
+
+/**
+ * Sign-in state, re-rendering when the driver signs in or out or the session
+ * expires. Starts as `loading` until the stored session has been read.
+ */
+export function useAuth(): AuthState {
+  useEffect(() => {
+    authStore.load();
+  }, []);
+
+  return useSyncExternalStore(authStore.subscribe, authStore.get, authStore.get);
+}
@@ -1 +1,13 @@
-export { useColorScheme } from 'react-native';
+import { useColorScheme as useRNColorScheme } from 'react-native';
+
+import { useSettings } from '@/hooks/use-settings';
+
+/**
+ * The color scheme chosen in Settings, following the device when set to "system".
+ */
+export function useColorScheme() {
+  const { theme } = useSettings();
+  const systemScheme = useRNColorScheme();
+
+  return theme === 'system' ? systemScheme : theme;
+}
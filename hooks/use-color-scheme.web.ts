@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { useSettings } from '@/hooks/use-settings';
+
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
@@ -11,10 +13,11 @@ export function useColorScheme() {
     setHasHydrated(true);
   }, []);
 
+  const { theme } = useSettings();
   const colorScheme = useRNColorScheme();
 
   if (hasHydrated) {
-    return colorScheme;
+    return theme === 'system' ? colorScheme : theme;
   }
 
   return 'light';
@@ -0,0 +1,33 @@
+import { useRef } from 'react';
+import { z } from 'zod';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useRealtimeTopic } from '@/hooks/use-realtime';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { realtimeTopics } from '@/services/realtime';
+
+const enforcementNoticeSchema = z.object({
+  id: z.string(),
+  /** Worded for the driver by the backend, e.g. "Your vehicle KDA 123A was clamped" */
+  message: z.string(),
+  issuedAt: z.number(),
+});
+
+/**
+ * Show notices from parking enforcement (clamping, fines, towing warnings)
+ * as they are pushed to the signed-in driver.
+ */
+export function useEnforcementNotices() {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const toast = useToast();
+  // The latest notice is replayed on every reconnect; show each one once
+  const shownRef = useRef(new Set<string>());
+
+  useRealtimeTopic(user ? realtimeTopics.enforcement(user.id) : null, enforcementNoticeSchema, (notice) => {
+    if (shownRef.current.has(notice.id)) return;
+    shownRef.current.add(notice.id);
+    toast.warning(notice.message, { title: t('enforcement.noticeTitle'), durationMs: null });
+  });
+}
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import type { Fleet } from '@/services/fleetApi';
+import { fleetStore } from '@/services/fleetStore';
+
+/**
+ * Fleets the signed-in user belongs to, re-rendering when memberships change.
+ * Mounting this also keeps them refreshed while signed in.
+ */
+export function useFleets(): Fleet[] {
+  useEffect(() => {
+    fleetStore.start();
+  }, []);
+
+  return useSyncExternalStore(fleetStore.subscribe, fleetStore.getAll, fleetStore.getAll);
+}
@@ -0,0 +1,42 @@
+import * as Location from 'expo-location';
+import { useEffect, useState } from 'react';
+
+import type { LatLng } from '@/utils/geo';
+
+/**
+ * Follow the device position while `enabled` is true. Assumes foreground
+ * location permission has already been granted.
+ */
+export function useLiveLocation(enabled: boolean) {
+  const [position, setPosition] = useState<LatLng | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setPosition(null);
+      return;
+    }
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.High, distanceInterval: 5 },
+      ({ coords }) => setPosition({ latitude: coords.latitude, longitude: coords.longitude })
+    )
+      .then((sub) => {
+        if (cancelled) {
+          sub.remove();
+        } else {
+          subscription = sub;
+        }
+      })
+      .catch((error) => console.warn('Unable to watch location:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [enabled]);
+
+  return position;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time, re-rendering every `intervalMs` while `enabled`.
+ */
+export function useNow(enabled: boolean, intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
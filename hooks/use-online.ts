@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { connectivity } from '@/services/connectivity';
+
+/**
+ * Whether the device can reach the internet, re-rendering when that changes.
+ */
+export function useIsOnline(): boolean {
+  useEffect(() => {
+    connectivity.start();
+  }, []);
+
+  return useSyncExternalStore(connectivity.subscribe, connectivity.isOnline, connectivity.isOnline);
+}
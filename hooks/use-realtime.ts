@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+import { realtime } from '@/services/realtime';
+
+/**
+ * Call `handler` with each event pushed on `topic` while mounted; pass `null`
+ * to listen to nothing (e.g. before anyone is signed in). Mounting this also
+ * starts the realtime connection.
+ */
+export function useRealtimeTopic<T>(
+  topic: string | null,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  handler: (data: T) => void
+) {
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    realtime.start();
+  }, []);
+
+  useEffect(() => {
+    if (!topic) return;
+    return realtime.subscribe(topic, schema, (data) => handlerRef.current(data));
+  }, [topic, schema]);
+}
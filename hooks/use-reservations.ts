@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import type { Reservation } from '@/services/reservationsApi';
+import { reservationStore } from '@/services/reservationStore';
+
+/**
+ * The driver's reservations, re-rendering when any of them changes.
+ * Mounting this also keeps them refreshed while signed in.
+ */
+export function useReservations(): Reservation[] {
+  useEffect(() => {
+    reservationStore.start();
+  }, []);
+
+  return useSyncExternalStore(reservationStore.subscribe, reservationStore.getAll, reservationStore.getAll);
+}
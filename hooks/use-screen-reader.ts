@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/**
+ * Whether VoiceOver or TalkBack is running, updated as it is switched on or off.
+ */
+export function useScreenReaderEnabled() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    AccessibilityInfo.isScreenReaderEnabled().then(setEnabled);
+    const subscription = AccessibilityInfo.addEventListener('screenReaderChanged', setEnabled);
+    return () => subscription.remove();
+  }, []);
+
+  return enabled;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { sessionSync } from '@/services/sessionSync';
+
+/**
+ * Number of session events still waiting to reach the backend. Mounting this
+ * also starts syncing them whenever the device is online.
+ */
+export function usePendingSessionEvents(): number {
+  useEffect(() => {
+    sessionSync.start();
+  }, []);
+
+  return useSyncExternalStore(sessionSync.subscribe, sessionSync.getPendingCount, sessionSync.getPendingCount);
+}
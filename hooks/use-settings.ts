@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import { settingsStore, type Settings } from '@/services/settingsStore';
+import { formatCurrency } from '@/utils/currency';
+
+/**
+ * Current app settings, re-rendering whenever any of them change.
+ */
+export function useSettings(): Settings {
+  useEffect(() => {
+    settingsStore.load();
+  }, []);
+
+  return useSyncExternalStore(settingsStore.subscribe, settingsStore.get, settingsStore.get);
+}
+
+/** Format an amount in the currency style chosen in Settings */
+export function useFormatCurrency() {
+  const { currencyFormat, language } = useSettings();
+  return useCallback(
+    (amount: number) => formatCurrency(amount, currencyFormat, language),
+    [currencyFormat, language]
+  );
+}
@@ -0,0 +1,9 @@
+import { toastStore } from '@/services/toastStore';
+
+/**
+ * Show toasts from a component or hook. The queue is global, so this needs
+ * no provider lookup and the returned API never changes identity.
+ */
+export function useToast() {
+  return toastStore;
+}
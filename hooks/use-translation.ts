@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+
+import { useSettings } from '@/hooks/use-settings';
+import { getLocale, translate, type MessageKey, type TranslateParams } from '@/utils/i18n';
+
+/**
+ * Translate messages into the language chosen in Settings, re-rendering when
+ * it changes.
+ */
+export function useTranslation() {
+  const { language } = useSettings();
+
+  const t = useCallback(
+    (key: MessageKey, params?: TranslateParams) => translate(key, params, language),
+    [language]
+  );
+
+  return { t, language, locale: getLocale(language) };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { violationStore, type Violation } from '@/services/violationStore';
+
+/**
+ * Violations logged on this device, newest first. Mounting this also starts
+ * uploading any that are waiting whenever the device is online.
+ */
+export function useViolations(): Violation[] {
+  useEffect(() => {
+    violationStore.start();
+  }, []);
+
+  return useSyncExternalStore(violationStore.subscribe, violationStore.getAll, violationStore.getAll);
+}
@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { PARKING_ZONES } from '@/constants/zones';
+import { useAuth } from '@/hooks/use-auth';
+import { useNow } from '@/hooks/use-now';
+import { useRealtimeTopic } from '@/hooks/use-realtime';
+import { useSettings } from '@/hooks/use-settings';
+import { historyStore, type CompletedSession } from '@/services/historyStore';
+import {
+  getRemainingSeconds,
+  prepaidStore,
+  type PrepaidPurchase,
+  type PrepaidSession,
+} from '@/services/prepaidStore';
+import { realtimeTopics } from '@/services/realtime';
+import { receiptTariffLabels } from '@/services/receipts';
+import { cancelReminders } from '@/services/reminders';
+import { sessionSync } from '@/services/sessionSync';
+import {
+  applyHeartbeat,
+  getBillableEndTime,
+  getElapsedSeconds,
+  sessionStore,
+  type ActiveSession,
+  type SessionCoords,
+} from '@/services/sessionStore';
+import { serverSessionSchema } from '@/services/sessionsApi';
+import { formatCountdown } from '@/utils/sessionFormat';
+import { calculateTariff, DEFAULT_TARIFF, type Tariff, type TariffLine, type TariffQuote } from '@/utils/tariff';
+import { getTariffLabels } from '@/utils/tariffLabels';
+
+export interface ParkingStart {
+  coords: SessionCoords | null;
+  vehiclePlate: string | null;
+  zoneId: string | null;
+  /** End of the time already paid for, when the session starts prepaid */
+  paidUntil?: number | null;
+  /** Reservation being checked in on */
+  reservationId?: string | null;
+}
+
+export interface StoppedParking {
+  /** Billable end of the session, with clock adjustments applied */
+  endedAt: number;
+  quote: TariffQuote;
+  /** The quote's lines worded for the receipt, which stays in English */
+  receiptLines: TariffLine[];
+}
+
+export interface ParkingPayment {
+  /** M-Pesa receipt, or the fleet charge reference when billed to a company */
+  mpesaReceipt: string;
+  amount: number;
+  tariffLines: TariffLine[] | null;
+  /** Fleet the session was billed to */
+  billedTo?: string | null;
+}
+
+/**
+ * The running parking session on the home screen: when it started, what it
+ * costs so far under `tariff` and the quote that total came from, worded in
+ * the app language.
+ *
+ * The session is saved as it starts and on every tick, and picked back up on
+ * mount together with any time prepaid on it, so an app the OS killed
+ * mid-session carries on where it was. A prepaid session costs what was
+ * paid for it rather than running up a bill.
+ * Stopping freezes the end so the amount being paid stops moving while the
+ * payment goes through; resuming lets the session run on if it doesn't, and
+ * completing files it in the parking history. Starts, time paid for and
+ * ends are also queued for the backend through `sessionSync`, under the
+ * session's own id. When the backend reports the session ended somewhere
+ * else (another device, an attendant), that end stands: the session is
+ * dropped here and `onEndedElsewhere` is called.
+ */
+export function useParking(
+  tariff: Tariff = DEFAULT_TARIFF,
+  { onEndedElsewhere }: { onEndedElsewhere?: () => void } = {}
+) {
+  const [session, setSessionState] = useState<ActiveSession | null>(null);
+  const [stoppedAt, setStoppedAtState] = useState<number | null>(null);
+  const [prepaid, setPrepaidState] = useState<PrepaidSession | null>(null);
+  // Whether the stored session has been looked for yet
+  const [isRestored, setRestored] = useState(false);
+  // Payment callbacks outlive the render they were created in, so they read these instead
+  const sessionRef = useRef<ActiveSession | null>(null);
+  const stoppedAtRef = useRef<number | null>(null);
+  const prepaidRef = useRef<PrepaidSession | null>(null);
+  const isParking = session !== null;
+  const isRunning = isParking && stoppedAt === null;
+  const now = useNow(isRunning);
+  // Monotonic time of the last beat, to catch the clock being wound back between beats
+  const lastBeatRef = useRef<number | null>(null);
+
+  const setSession = useCallback((next: ActiveSession | null) => {
+    sessionRef.current = next;
+    setSessionState(next);
+  }, []);
+  const setStoppedAt = useCallback((next: number | null) => {
+    stoppedAtRef.current = next;
+    setStoppedAtState(next);
+  }, []);
+  const setPrepaid = useCallback((next: PrepaidSession | null) => {
+    prepaidRef.current = next;
+    setPrepaidState(next);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([sessionStore.load(), prepaidStore.load()]).then(([restored, restoredPrepaid]) => {
+      setRestored(true);
+      if (sessionRef.current) return;
+      if (restored) {
+        setSession(restored);
+        setPrepaid(restoredPrepaid);
+      } else if (restoredPrepaid) {
+        // Prepaid time left behind by a session that is no longer running
+        prepaidStore.clear();
+      }
+    });
+  }, [setSession, setPrepaid]);
+
+  useEffect(() => {
+    // Read through the ref: the beat itself replaces the session, which mustn't trigger another
+    const active = sessionRef.current;
+    if (!active || !isRunning) {
+      lastBeatRef.current = null;
+      return;
+    }
+    const current = performance.now();
+    const previous = lastBeatRef.current;
+    lastBeatRef.current = current;
+    const beat = applyHeartbeat(active, now, previous === null ? undefined : { previous, current });
+    setSession(beat.session);
+    sessionStore.save(beat.session);
+  }, [now, isRunning, setSession]);
+
+  const { language, currencyFormat } = useSettings();
+  const labels = useMemo(() => getTariffLabels(language, currencyFormat), [language, currencyFormat]);
+  const end = stoppedAt ?? now;
+  const elapsedSeconds = session ? getElapsedSeconds(session, end) : 0;
+  // Paid time left on the session's clock, so winding the device clock back doesn't add any
+  const prepaidRemaining =
+    prepaid && session ? getRemainingSeconds(prepaid, getBillableEndTime(session, end)) : null;
+  const quote: TariffQuote | null = useMemo(
+    () => (session ? calculateTariff(tariff, session.startedAt, getBillableEndTime(session, end), labels) : null),
+    [tariff, session, end, labels]
+  );
+  const parkingCost = prepaid
+    ? prepaid.purchases.reduce((sum, purchase) => sum + purchase.amount, 0)
+    : (quote?.total ?? 0);
+
+  const startParking = ({
+    coords,
+    vehiclePlate,
+    zoneId,
+    paidUntil = null,
+    reservationId = null,
+  }: ParkingStart): ActiveSession => {
+    const started = sessionStore.createSession(coords, vehiclePlate, zoneId, reservationId);
+    setSession(started);
+    setStoppedAt(null);
+    sessionStore.save(started);
+    sessionSync.recordStart({
+      sessionId: started.id,
+      occurredAt: started.startedAt,
+      coords,
+      vehiclePlate,
+      zoneId,
+      paidUntil,
+      reservationId,
+    });
+    return started;
+  };
+
+  /**
+   * Stop the clock, at `at` if given (e.g. when a payment was asked for);
+   * returns where it stopped and the quote for the time parked
+   */
+  const stopParking = (at?: number): StoppedParking | null => {
+    const current = sessionRef.current;
+    if (!current) return null;
+    const stopped = stoppedAtRef.current ?? at ?? Date.now();
+    setStoppedAt(stopped);
+    const endedAt = getBillableEndTime(current, stopped);
+    return {
+      endedAt,
+      quote: calculateTariff(tariff, current.startedAt, endedAt, labels),
+      receiptLines: calculateTariff(tariff, current.startedAt, endedAt, receiptTariffLabels).lines,
+    };
+  };
+
+  const resumeParking = () => {
+    setStoppedAt(null);
+  };
+
+  /** Record paid time, starting the prepaid block or extending it */
+  const prepay = async (purchase: PrepaidPurchase, reminderIds: string[]): Promise<PrepaidSession> => {
+    const current = prepaidRef.current;
+    const next = current
+      ? await prepaidStore.extend(current, purchase, reminderIds)
+      : await prepaidStore.start(purchase, reminderIds);
+    setPrepaid(next);
+    sessionSync.recordExtended({ paidUntil: next.paidUntil, occurredAt: purchase.paidAt });
+    return next;
+  };
+
+  /** Save the paid session to history, ending it where the clock was stopped */
+  const completeParking = async ({
+    mpesaReceipt,
+    amount,
+    tariffLines,
+    billedTo = null,
+  }: ParkingPayment): Promise<CompletedSession | null> => {
+    const current = sessionRef.current;
+    if (!current) return null;
+    const elapsedSeconds = getElapsedSeconds(current, stoppedAtRef.current ?? Date.now());
+    const endedAt = current.startedAt + elapsedSeconds * 1000;
+
+    const completed: CompletedSession = {
+      id: `${endedAt.toString(36)}-${mpesaReceipt}`,
+      startedAt: current.startedAt,
+      endedAt,
+      durationSeconds: elapsedSeconds,
+      coords: current.coords,
+      locationName: null,
+      amount,
+      mpesaReceipt,
+      billedTo,
+      vehiclePlate: current.vehiclePlate,
+      zoneName: PARKING_ZONES.find((zone) => zone.id === current.zoneId)?.name ?? null,
+      tariffLines,
+    };
+    await historyStore.add(completed);
+    await sessionSync.recordEnd(
+      billedTo
+        ? { reason: 'billed', amount, mpesaReceipt: null, occurredAt: endedAt }
+        : { reason: 'paid', amount, mpesaReceipt, occurredAt: endedAt }
+    );
+    return completed;
+  };
+
+  const resetParking = () => {
+    if (prepaidRef.current) cancelReminders(prepaidRef.current.reminderIds);
+    setSession(null);
+    setStoppedAt(null);
+    setPrepaid(null);
+    sessionStore.clear();
+    prepaidStore.clear();
+  };
+
+  /** Throw the session away unpaid */
+  const cancelParking = () => {
+    sessionSync.recordEnd({ reason: 'cancelled', amount: null, mpesaReceipt: null });
+    resetParking();
+  };
+
+  const { user } = useAuth();
+  useRealtimeTopic(user ? realtimeTopics.sessions(user.id) : null, serverSessionSchema, async (ended) => {
+    if (ended.endedAt === null || !(await sessionSync.markEndedElsewhere(ended.id))) return;
+    resetParking();
+    onEndedElsewhere?.();
+  });
+
+  const formatTime = () => formatCountdown(elapsedSeconds);
+
+  return {
+    isParking,
+    isRestored,
+    session,
+    prepaid,
+    prepaidRemaining,
+    elapsedSeconds,
+    quote,
+    parkingCost,
+    startParking,
+    stopParking,
+    resumeParking,
+    prepay,
+    completeParking,
+    cancelParking,
+    resetParking,
+    formatTime,
+  };
+}
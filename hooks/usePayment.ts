@@ -0,0 +1,137 @@
+import { useEffect, useReducer, useRef, useState } from 'react';
+
+import { createIdempotencyKey, toApiError } from '@/services/apiRequest';
+import {
+  INITIAL_PAYMENT_STATE,
+  paymentReducer,
+  watchStkStatus,
+  type PaymentPhase,
+} from '@/services/mpesaStatus';
+import { getPaymentProvider } from '@/services/paymentProvider';
+import { pendingCheckouts, type PendingCheckout, type ReconciledCheckout } from '@/services/pendingCheckouts';
+import { translate } from '@/utils/i18n';
+
+// Shown to the driver on the STK prompt; Daraja allows up to 12 characters
+const ACCOUNT_REFERENCE = 'KenPark';
+
+export interface PaymentTransaction {
+  checkoutRequestID: string;
+  mpesaReceiptNumber: string | null;
+}
+
+/**
+ * One M-Pesa payment at a time for the parking session `sessionId`, driven
+ * by `paymentReducer`. The result comes from the provider's pushed results,
+ * with polling as the fallback while they aren't arriving. A checkout is
+ * remembered in `pendingCheckouts` from the moment Safaricom accepts it
+ * until it resolves, and those left over from a previous launch are
+ * reconciled on mount; one that turns out to have been paid is offered back
+ * as `recoveredPayment`.
+ */
+export function usePayment({ sessionId = null }: { sessionId?: string | null } = {}) {
+  const [state, dispatch] = useReducer(paymentReducer, INITIAL_PAYMENT_STATE);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [recoveredPayment, setRecoveredPayment] = useState<ReconciledCheckout | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Reservation deposits are reconciled by reservationStore
+    const include = (checkout: PendingCheckout) => !checkout.reservationId;
+    pendingCheckouts.reconcile(getPaymentProvider().queryStatus, { include }).then((resolved) => {
+      const paid = resolved.find(({ result }) => result.outcome === 'success');
+      if (paid) setRecoveredPayment(paid);
+    });
+    // Stop waiting on the phone if the screen goes away mid-payment
+    return () => abortRef.current?.abort();
+  }, []);
+
+  /**
+   * Prompt `phone` (E.164) for `amount` and wait for the driver to answer;
+   * `prepaidMinutes` marks a payment for prepaid time so it can be recovered as such
+   */
+  const initiatePayment = async (
+    phone: string,
+    amount: number,
+    onSuccess: (transaction: PaymentTransaction) => void,
+    onError: (message: string) => void,
+    prepaidMinutes: number | null = null
+  ) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const provider = getPaymentProvider();
+    dispatch({ type: 'INITIATE' });
+
+    let checkoutRequestID: string;
+    try {
+      ({ checkoutRequestID } = await provider.requestStkPush(
+        {
+          phoneNumber: phone.replace(/^\+/, ''),
+          amount,
+          accountReference: ACCOUNT_REFERENCE,
+          description: translate('payment.description'),
+          idempotencyKey: createIdempotencyKey(),
+        },
+        controller.signal
+      ));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const { message } = toApiError(error);
+      dispatch({ type: 'ERROR', message });
+      onError(message);
+      return;
+    }
+
+    dispatch({ type: 'ACCEPTED', checkoutRequestID });
+    await pendingCheckouts.add({
+      checkoutRequestID,
+      sessionId,
+      prepaidMinutes,
+      amount,
+      phoneNumber: phone,
+      createdAt: Date.now(),
+    });
+
+    const result = await watchStkStatus({
+      checkoutRequestID,
+      query: provider.queryStatus,
+      feed: provider.resultFeed,
+      signal: controller.signal,
+      onAttempt: (attempt) => dispatch({ type: 'POLL', attempt }),
+    });
+    // Without a result code nobody heard back from M-Pesa, so the driver may
+    // still approve it; leave it for reconciliation
+    if (result.resultCode !== null) await pendingCheckouts.remove(checkoutRequestID);
+    if (controller.signal.aborted) return;
+
+    dispatch({ type: 'RESOLVED', result });
+    if (result.outcome === 'success') {
+      onSuccess({ checkoutRequestID, mpesaReceiptNumber: result.mpesaReceiptNumber });
+    } else {
+      onError(result.message);
+    }
+  };
+
+  /** Stop waiting for the current payment; the prompt may still be on the phone */
+  const resetPayment = () => {
+    abortRef.current?.abort();
+    dispatch({ type: 'RESET' });
+  };
+
+  // Polling is an implementation detail; to the driver it's still waiting on the phone
+  const paymentStatus: Exclude<PaymentPhase, 'polling'> = state.phase === 'polling' ? 'pending' : state.phase;
+
+  return {
+    phoneNumber,
+    setPhoneNumber,
+    paymentStatus,
+    isProcessingPayment: paymentStatus === 'initiated' || paymentStatus === 'pending',
+    checkoutRequestID: state.checkoutRequestID,
+    message: state.message,
+    recoveredPayment,
+    clearRecoveredPayment: () => setRecoveredPayment(null),
+    initiatePayment,
+    cancelPayment: resetPayment,
+    resetPayment,
+  };
+}
@@ -0,0 +1,480 @@
+/**
+ * English messages. This catalog defines the message keys; every other
+ * language must provide the same keys. `{name}` placeholders are filled from
+ * the params passed to `t`, and `{ one, other }` entries are chosen by `count`.
+ */
+export const en = {
+  // Navigation
+  'nav.home': 'Home',
+  'nav.profile': 'Profile',
+  'nav.settings': 'Settings',
+  'nav.history': 'History',
+  'nav.vehicles': 'My Vehicles',
+  'nav.session': 'Parking Session',
+  'nav.signIn': 'Sign In',
+  'nav.verify': 'Verify Number',
+  'nav.enforcement': 'Enforcement',
+  'nav.zoneMap': 'Zone Map',
+  'nav.logViolation': 'Log Violation',
+  'nav.fleet': 'Company Fleet',
+  'nav.manageFleet': 'Manage Fleet',
+  'nav.reservations': 'Reservations',
+  'nav.reserve': 'Reserve a Space',
+  'nav.reservation': 'Reservation',
+
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.done': 'Done',
+  'common.ok': 'OK',
+  'common.save': 'Save',
+  'common.remove': 'Remove',
+  'common.keep': 'Keep',
+  'common.default': 'Default',
+  'common.error': 'Error',
+  'common.warning': 'Warning',
+  'common.success': 'Success',
+  'common.info': 'Info',
+  'common.undo': 'Undo',
+  'common.notAvailable': 'N/A',
+  'common.unknownLocation': 'Unknown location',
+  'common.perHour': '{amount}/hr',
+  'common.open': 'Open',
+  'common.closed': 'Closed',
+
+  // Durations
+  'duration.minutes': { one: '{count} min', other: '{count} min' },
+  'duration.hours': { one: '{count} hr', other: '{count} hrs' },
+  'duration.hoursMinutes': '{hours} {minutes}',
+
+  // Parking screen
+  'parking.statusActive': 'Parking Active',
+  'parking.statusReady': 'Ready to Park',
+  'parking.startParking': 'Start Parking',
+  'parking.slideToStart': 'Slide to start parking',
+  'parking.slideToStop': 'Slide to stop',
+  'parking.tapToStart': 'Tap to start parking',
+  'parking.tapToStop': 'Tap to stop parking',
+  'parking.hintActive': 'Your vehicle location is being tracked',
+  'parking.hintReady': 'Secure your parking spot with one swipe',
+  'parking.findingLocation': 'Finding your location...',
+  'parking.locationUnavailable': 'Unable to fetch location',
+  'parking.locationPermissionRequired': 'Location permission is required',
+  'parking.duration': 'Duration',
+  'parking.currentCost': 'Current Cost',
+  'parking.vehicle': 'Vehicle: {plate}',
+  'parking.rate': 'Rate: {rate}',
+  'parking.zoneSummary': '{zone} · {rate} · max {hours}',
+  'parking.zoneRate': '{first} first hr, then {subsequent}/hr',
+  'parking.started': 'Parking started successfully!',
+  'parking.startedFor': 'Parking started for {plate}',
+  'parking.startedIn': 'Parking started in {zone}',
+  'parking.startedInFor': 'Parking started in {zone} for {plate}',
+  'parking.outsideHours': '{zone} is outside charging hours ({hours})',
+  'parking.cancelled': 'Parking cancelled',
+  'parking.extendedBy': 'Parking extended by {duration}',
+  'parking.howToPayTitle': 'How would you like to pay?',
+  'parking.howToPayMessage':
+    'Pay for the time you use when you leave, or prepay for a fixed time and get reminders before it runs out.',
+  'parking.payWhenLeaving': 'Pay When I Leave',
+  'parking.prepay': 'Prepay',
+  'parking.cancelTitle': 'Cancel Parking?',
+  'parking.cancelMessage': 'Are you sure you want to cancel this parking session?',
+  'parking.continueParking': 'Continue Parking',
+  'parking.confirmCancel': 'Yes, Cancel',
+  'parking.exceededTitle': 'Parking Time Exceeded',
+  'parking.exceededMessage':
+    'You have overstayed by {duration}. Extend to cover the extra time before leaving.',
+  'parking.notNow': 'Not Now',
+  'parking.extend': 'Extend',
+  'parking.endTitle': 'End Parking?',
+  'parking.endMessage': 'Your parking is paid up. End this session now?',
+  'parking.keepParking': 'Keep Parking',
+  'parking.endParking': 'End Parking',
+  'parking.endedTitle': 'Parking Ended',
+  'parking.endedMessage': 'Your prepaid session has ended.',
+  'parking.prepaidLeft': '{time} left · paid until {until}',
+  'parking.overstayed': 'Overstayed by {time}',
+  'parking.maxStayLeft': 'Maximum stay ends in {time}',
+  'parking.maxStayExceeded': 'Over the maximum stay by {time}',
+  'parking.maxStayReached': 'You have reached the {duration} maximum stay in {zone}. Please move your vehicle.',
+  'parking.yourCar': 'Your car: {distance} {direction}',
+  'parking.carSaved': 'Car position saved',
+  'parking.addSpotDetails': 'Tap to add floor, bay or a photo',
+  'parking.floor': 'Floor {floor}',
+  'parking.bay': 'Bay {bay}',
+  'parking.navigate': 'Navigate',
+  'parking.spotSummary': '{distance} · {rate} · {spaces}',
+  'parking.directionsFailed': 'Unable to open maps for directions',
+  'parking.youAreHere': 'You are here',
+
+  // Payment
+  'payment.title': 'Complete Payment',
+  'payment.tapToExpand': 'Tap to expand • {amount}',
+  'payment.waitingForConfirmation': 'Waiting for payment confirmation...',
+  'payment.enterPhone': 'Enter your phone number to pay',
+  'payment.vehicle': 'Vehicle',
+  'payment.duration': 'Duration',
+  'payment.total': 'Total Amount',
+  'payment.waitingOnPhone': 'Waiting for you to complete payment on your phone...',
+  'payment.checkPhone': 'Check your phone for M-Pesa STK Push prompt',
+  'payment.transactionId': 'Transaction ID: {id}...',
+  'payment.phoneNumber': 'Phone Number',
+  'payment.phoneHint': 'Enter your M-Pesa registered phone number',
+  'payment.promptInfo': 'A payment prompt will be sent to your phone via M-Pesa',
+  'payment.cancelPayment': 'Cancel Payment',
+  'payment.pay': 'Pay {amount}',
+  'payment.phoneRequired': 'Please enter a phone number',
+  'payment.invalidPhone': 'Please enter a valid Kenyan phone number (e.g., 0712345678)',
+  'payment.errorTitle': 'Payment Error',
+  'payment.successTitle': 'Payment Successful! 🎉',
+  'payment.successMessage': 'Receipt: {receipt}\n\nYour parking payment has been confirmed.',
+  'payment.received': 'Payment received',
+  'payment.insufficientFunds': 'Your M-Pesa balance is too low for this payment',
+  'payment.busy': 'Another M-Pesa transaction is in progress on your phone',
+  'payment.expired': 'The payment request expired before it was completed',
+  'payment.promptFailed': 'We could not send the payment prompt. Please try again',
+  'payment.cancelledOnPhone': 'You cancelled the payment on your phone',
+  'payment.unreachable': 'Your phone could not be reached. Check that it is on and has signal',
+  'payment.wrongPin': 'The M-Pesa PIN entered was incorrect',
+  'payment.declined': 'M-Pesa declined the payment. Please try again in a few minutes',
+  'payment.mpesaBusy': 'M-Pesa is busy right now. Please try again',
+  'payment.failedWithCode': 'Payment failed (M-Pesa code {code})',
+  'payment.noResponse': 'We did not get a response from M-Pesa in time',
+  'payment.cancelled': 'Payment cancelled',
+  'payment.unconfirmed': 'This payment could not be confirmed',
+  'payment.description': 'Parking fee',
+
+  // Receipts
+  'receipt.share': 'Share Receipt',
+  'receipt.shareFormat': 'Share {format} receipt',
+  'receipt.shareFailed': 'Unable to share receipt',
+  'receipt.shareUnavailable': 'Sharing is not available on this device',
+  'receipt.title': 'Receipt',
+  'receipt.view': 'View Receipt',
+
+  // Prepaid
+  'prepaid.startTitle': 'Prepay for parking',
+  'prepaid.extendTitle': 'Extend parking',
+  'prepaid.maxStayReached': 'You have reached the maximum stay for this zone.',
+  'prepaid.checkPhone': 'Check your phone for the M-Pesa prompt',
+  'prepaid.phonePlaceholder': 'M-Pesa phone number',
+  'prepaid.purchaseLine': 'Prepaid {duration} ({receipt})',
+
+  // Reminders
+  'reminder.title': { one: 'Parking expires in {count} minute', other: 'Parking expires in {count} minutes' },
+  'reminder.body': 'Extend now from the app to avoid a penalty.',
+
+  // Tariff
+  'tariff.gracePeriod': 'Grace period ({duration})',
+  'tariff.firstHour': '{period} · first hour',
+  'tariff.additional': '{period} · additional',
+  'tariff.outsideHours': 'Outside charging hours',
+  'tariff.dailyCap': 'Daily cap ({amount})',
+  'tariff.rounding': 'Rounding to whole shillings',
+  'tariff.period.day': 'Daytime',
+  'tariff.period.night': 'Night',
+  'tariff.period.weekend': 'Weekend',
+  'tariff.period.holiday': 'Public holiday',
+
+  // Zones and places
+  'hours.daily': 'Daily',
+  'hours.range': '{days} {open}–{close}',
+  'day.0': 'Sun',
+  'day.1': 'Mon',
+  'day.2': 'Tue',
+  'day.3': 'Wed',
+  'day.4': 'Thu',
+  'day.5': 'Fri',
+  'day.6': 'Sat',
+  'compass.N': 'N',
+  'compass.NE': 'NE',
+  'compass.E': 'E',
+  'compass.SE': 'SE',
+  'compass.S': 'S',
+  'compass.SW': 'SW',
+  'compass.W': 'W',
+  'compass.NW': 'NW',
+  'nearby.searchPlaceholder': 'Search parking near you',
+  'nearby.noMatches': 'No parking matches “{query}”',
+  'nearby.spaces': { one: '{count} space', other: '{count} spaces' },
+
+  // Parked car
+  'parkedCar.title': 'Where did you park?',
+  'parkedCar.floor': 'Floor / level',
+  'parkedCar.bay': 'Bay',
+  'parkedCar.notes': 'Notes (e.g., near the lifts)',
+  'parkedCar.addPhoto': 'Add a photo of the spot',
+  'parkedCar.cameraTitle': 'Camera Access',
+  'parkedCar.cameraMessage': 'Allow camera access to take a photo of your parking spot.',
+
+  // Vehicles
+  'vehicles.pickerTitle': 'Which vehicle is parking?',
+  'vehicles.noneSaved': 'You have no saved vehicles yet.',
+  'vehicles.add': 'Add a vehicle',
+  'vehicles.parkWithout': 'Park without vehicle',
+  'vehicles.empty': 'Add the vehicles you park',
+  'vehicles.addTitle': 'Add Vehicle',
+  'vehicles.editTitle': 'Edit Vehicle',
+  'vehicles.platePlaceholder': 'Number plate (e.g., KDA 123A)',
+  'vehicles.nicknamePlaceholder': 'Nickname (optional)',
+  'vehicles.saveChanges': 'Save Changes',
+  'vehicles.removeTitle': 'Remove Vehicle?',
+  'vehicles.removeMessage': 'Remove {plate} from your vehicles?',
+  'vehicles.invalidPlate': 'Please enter a valid Kenyan number plate (e.g., KDA 123A)',
+  'vehicles.duplicatePlate': '{plate} is already in your vehicles',
+  'vehicles.saveFailed': 'Unable to save vehicle',
+  'vehicleType.car': 'Car',
+  'vehicleType.suv': 'SUV',
+  'vehicleType.van': 'Van',
+  'vehicleType.truck': 'Truck',
+  'vehicleType.motorcycle': 'Motorcycle',
+
+  // History
+  'history.range.all': 'All time',
+  'history.range.7d': 'Last 7 days',
+  'history.range.30d': 'Last 30 days',
+  'history.range.month': 'This month',
+  'history.allVehicles': 'All vehicles',
+  'history.empty': 'No parking sessions yet',
+  'history.notFound': 'This parking session could not be found.',
+  'history.noLocation': 'No location recorded',
+  'history.date': 'Date',
+  'history.start': 'Start',
+  'history.end': 'End',
+  'history.duration': 'Duration',
+  'history.zone': 'Zone',
+  'history.location': 'Location',
+  'history.vehicle': 'Vehicle',
+  'history.mpesaReceipt': 'M-Pesa Receipt',
+  'history.billedTo': 'Billed To',
+  'history.chargeReference': 'Charge Reference',
+  'history.vatIncluded': 'VAT ({rate}%) included',
+  'history.totalPaid': 'Total Paid',
+
+  // Expense export
+  'export.title': 'Export expenses',
+  'export.onlyVehicle': 'Only {plate}',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.alertTitle': 'Export',
+  'export.noSessions': 'No parking sessions in this period',
+  'export.failed': 'Unable to export expenses',
+
+  // Profile
+  'profile.account': 'Account',
+  'profile.name': 'Full name',
+  'profile.email': 'Email (for receipts)',
+  'profile.saved': 'Saved',
+  'profile.saveDetails': 'Save Details',
+  'profile.numbers': 'M-Pesa Numbers',
+  'profile.numbersHint': 'The default number is filled in when you pay.',
+  'profile.phonePlaceholder': 'Phone number (e.g., 0712345678)',
+  'profile.labelPlaceholder': 'Label (optional, e.g., Work)',
+  'profile.addNumber': 'Add Number',
+  'profile.removeNumberTitle': 'Remove Number?',
+  'profile.removeNumberMessage': 'Remove {number} from your saved numbers?',
+  'profile.invalidEmail': 'Please enter a valid email address',
+  'profile.duplicateNumber': '{number} is already saved',
+  'profile.saveFailed': 'Unable to save profile',
+  'profile.numberSaveFailed': 'Unable to save number',
+  'profile.signedInAs': 'Signed in as {number}',
+  'profile.signOut': 'Sign Out',
+  'profile.signOutTitle': 'Sign Out?',
+  'profile.signOutMessage': 'You will need a new code texted to your phone to sign in again.',
+
+  // Sign-in
+  'auth.welcomeTitle': 'Welcome to KenPark',
+  'auth.welcomeMessage': 'Sign in with your phone number to park, pay and keep your receipts.',
+  'auth.phoneLabel': 'Phone number',
+  'auth.phonePlaceholder': '0712 345 678',
+  'auth.sendCode': 'Send Code',
+  'auth.codeSent': 'Enter the 6-digit code we sent to {number}',
+  'auth.codeLabel': 'Verification code',
+  'auth.verify': 'Verify',
+  'auth.resend': 'Resend code',
+  'auth.resendIn': 'Resend code in {seconds}s',
+  'auth.codeResent': 'A new code is on its way',
+  'auth.changeNumber': 'Use a different number',
+  'auth.invalidPhone': 'Please enter a valid phone number',
+  'auth.invalidCode': 'That code is not right. Check the SMS and try again',
+  'auth.codeExpired': 'That code has expired. Request a new one',
+  'auth.tooManyAttempts': 'Too many wrong codes. Request a new one',
+  'auth.rateLimited': 'Too many requests. Please wait a moment and try again',
+  'auth.failed': 'Sign-in failed. Please try again',
+  'auth.sessionExpired': 'Your session has expired. Please sign in again',
+
+  // Backend requests
+  'api.networkError': 'Could not reach the server. Check your connection',
+  'api.timeout': 'The server took too long to respond. Please try again',
+  'api.cancelled': 'Request cancelled',
+  'api.serverError': 'Something went wrong on our side. Please try again',
+  'api.invalidResponse': 'Unexpected response from the server. Please try again',
+
+  // Offline mode and session sync
+  'offline.banner': 'Offline. Parking keeps running and will sync when you reconnect',
+  'offline.pendingChanges': {
+    one: 'Offline. {count} change will sync when you reconnect',
+    other: 'Offline. {count} changes will sync when you reconnect',
+  },
+  'offline.paymentBlocked': 'Payment needs an internet connection. Reconnect to pay',
+  'sync.endedElsewhere': 'This session was already ended on another device',
+
+  // Realtime notices
+  'enforcement.noticeTitle': 'Parking enforcement',
+
+  // Enforcement officers
+  'enforcement.plateLabel': 'Number plate',
+  'enforcement.platePlaceholder': 'KDA 123A',
+  'enforcement.search': 'Look up plate',
+  'enforcement.searchFailed': 'Could not look up that plate. Please try again',
+  'enforcement.noSession': 'No active session for {plate}',
+  'enforcement.zone': 'Zone: {zone}',
+  'enforcement.startedAt': 'Started at {time}',
+  'enforcement.paidUntil': 'Paid until {time}',
+  'enforcement.paysOnExit': 'Pays on exit',
+  'enforcement.overstay': 'Overstayed by {duration}',
+  'enforcement.withinTime': 'Within paid time',
+  'enforcement.logViolation': 'Log Violation',
+  'enforcement.zoneMap': 'Zone Map',
+  'enforcement.recentViolations': 'Logged Violations',
+  'enforcement.noViolations': 'No violations logged on this device yet.',
+  'enforcement.uploaded': 'Uploaded',
+  'enforcement.waitingToUpload': 'Waiting to upload',
+  'enforcement.refresh': 'Refresh sessions',
+  'enforcement.loadFailed': 'Could not load sessions for this zone',
+  'enforcement.noZones': 'You have not been assigned any zones yet.',
+  'enforcement.zoneSummary': {
+    one: '{count} active session · {overstayed} overstayed',
+    other: '{count} active sessions · {overstayed} overstayed',
+  },
+  'enforcement.photo': 'Evidence photo',
+  'enforcement.takePhoto': 'Take a photo of the vehicle',
+  'enforcement.retakePhoto': 'Retake photo',
+  'enforcement.photoRequired': 'Take a photo of the vehicle first',
+  'enforcement.cameraMessage': 'Allow camera access to photograph vehicles for violations.',
+  'enforcement.location': 'Location',
+  'enforcement.locating': 'Getting your location...',
+  'enforcement.located': 'Location recorded',
+  'enforcement.locatedWithin': 'Location recorded (within {meters} m)',
+  'enforcement.locationUnavailable': 'Location unavailable; the violation will be saved without it',
+  'enforcement.notes': 'Notes',
+  'enforcement.notesPlaceholder': 'e.g. Blocking a loading bay',
+  'enforcement.saveViolation': 'Save Violation',
+  'enforcement.saveFailed': 'Could not save the violation. Please try again',
+  'enforcement.violationLogged': 'Violation logged',
+  'enforcement.violationQueued': 'Violation saved. It will upload when you are back online',
+
+  // Fleet accounts
+  'fleet.badge': 'Company',
+  'fleet.billTo': 'Bill to company',
+  'fleet.billSubtitle': 'This vehicle belongs to a company fleet',
+  'fleet.billHint': 'Added to the company monthly invoice. No M-Pesa payment needed',
+  'fleet.invoiceInfo': 'Your company pays for this session',
+  'fleet.billButton': 'Bill {amount} to company',
+  'fleet.billFailed': 'Could not bill the company. Please try again',
+  'fleet.notAuthorised': 'You are no longer authorised to park this vehicle for {fleet}',
+  'fleet.billedTitle': 'Billed to company',
+  'fleet.billedMessage': 'Charged to {fleet}. Reference: {reference}',
+  'fleet.noFleets': 'You do not manage any company fleet.',
+  'fleet.loadFailed': 'Could not load fleet details',
+  'fleet.sessionCount': { one: '{count} session', other: '{count} sessions' },
+  'fleet.byDriver': 'By driver',
+  'fleet.byVehicle': 'By vehicle',
+  'fleet.noSpend': 'No parking charged this month',
+  'fleet.invoice': 'Invoice',
+  'fleet.exportInvoice': 'Invoice {format}',
+  'fleet.noCharges': 'There are no charges to invoice for this month',
+  'fleet.exportFailed': 'Could not export the invoice. Please try again',
+  'fleet.manage': 'Manage vehicles and drivers',
+  'fleet.vehicles': 'Vehicles',
+  'fleet.vehiclesHint': 'Vehicles switched on are owned by the company. Add more in My Vehicles',
+  'fleet.ownedBy': '{plate} belongs to {fleet}',
+  'fleet.members': 'Drivers',
+  'fleet.membersHint': 'Drivers here may park company vehicles on the company account',
+  'fleet.admin': 'Fleet admin',
+  'fleet.memberPhone': 'Driver phone number',
+  'fleet.addMember': 'Add driver',
+  'fleet.removeMember': 'Remove {phone}',
+  'fleet.saveFailed': 'Could not save the change. Please try again',
+
+  // Reservations
+  'reservations.reserve': 'Reserve',
+  'reservations.reserveAt': 'Reserve a space at {lot}',
+  'reservations.empty': 'No reservations yet. Pick a parking lot on the map and tap Reserve to book a space ahead',
+  'reservations.notFound': 'This reservation could not be found.',
+  'reservations.lotNotFound': 'This parking lot could not be found.',
+  'reservations.day': 'Day',
+  'reservations.duration': 'How long',
+  'reservations.arrival': 'Arrival time',
+  'reservations.noTimes': 'No times left on this day. Try another day or a shorter stay',
+  'reservations.window': '{date}, {start} - {end}',
+  'reservations.depositHint': 'Deposit, refunded when you check in on arrival',
+  'reservations.holdRule': {
+    one: 'Your space is held until {count} minute after the start',
+    other: 'Your space is held until {count} minutes after the start',
+  },
+  'reservations.cancelRule': {
+    one: 'Cancel free up to {count} minute before the start. Later cancellations forfeit {percent}% of the deposit.',
+    other: 'Cancel free up to {count} minutes before the start. Later cancellations forfeit {percent}% of the deposit.',
+  },
+  'reservations.noShowRule': 'Not checking in before the hold ends forfeits {percent}% of the deposit.',
+  'reservations.phone': 'M-Pesa number for the deposit',
+  'reservations.payDeposit': 'Pay {amount} deposit',
+  'reservations.checkPhone': 'Check your phone and enter your M-Pesa PIN to pay the deposit',
+  'reservations.depositDescription': 'Reservation deposit at {lot}',
+  'reservations.quoteFailed': 'Could not get the deposit for this time. Please try again',
+  'reservations.bookFailed': 'Could not make the reservation. Please try again',
+  'reservations.status.awaitingDeposit': 'Waiting for deposit',
+  'reservations.status.upcoming': 'Reserved',
+  'reservations.status.checkInOpen': 'Ready to check in',
+  'reservations.status.checkedIn': 'Checked in',
+  'reservations.status.cancelled': 'Cancelled',
+  'reservations.status.noShow': 'Missed',
+  'reservations.qrLabel': 'Reservation QR code {code}. Show it at the lot entrance',
+  'reservations.checkInFrom': 'Check in from {time}',
+  'reservations.holdEndsIn': 'Space held for another {time}',
+  'reservations.noShowRefund': 'Nobody checked in before the hold ended. Refund: {amount}',
+  'reservations.time': 'Time',
+  'reservations.heldUntil': 'Held Until',
+  'reservations.deposit': 'Deposit',
+  'reservations.refund': 'Refund',
+  'reservations.checkIn': 'Check in and start parking',
+  'reservations.cancel': 'Cancel reservation',
+  'reservations.cancelTitle': 'Cancel reservation?',
+  'reservations.cancelFullRefund': 'Your {amount} deposit will be refunded in full.',
+  'reservations.cancelPartialRefund': 'It is past the free cancellation time. {amount} of your {deposit} deposit will be refunded.',
+  'reservations.cancelled': 'Reservation cancelled. Refund: {amount}',
+  'reservations.reminderTitle': 'Your space at {lot} is waiting',
+  'reservations.reminderBody': {
+    one: 'Check in within {count} minute or the space is released',
+    other: 'Check in within {count} minutes or the space is released',
+  },
+
+  // Screen reader labels and announcements
+  'a11y.dismiss': 'Dismiss notification',
+  'a11y.close': 'Close',
+  'a11y.expandPayment': 'Expand payment details',
+  'a11y.collapsePayment': 'Collapse payment details',
+  'a11y.expandSheet': 'Expand',
+  'a11y.collapseSheet': 'Collapse',
+  'a11y.parkingTimer': 'Parked for {duration}. Current cost {cost}',
+  'a11y.costChanged': 'Parking cost is now {cost} after {duration}',
+  'a11y.prepaidExpired': 'Your prepaid parking time has run out',
+  'a11y.showNearby': 'Find parking nearby',
+
+  // Settings
+  'settings.theme': 'Theme',
+  'settings.theme.system': 'System',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.language': 'Language',
+  'settings.currency': 'Currency display',
+  'settings.reminders': 'Prepaid reminders',
+  'settings.remindersHint': 'Remind me this long before my time runs out',
+  'settings.defaultVehicle': 'Default vehicle',
+  'settings.haptics': 'Haptic feedback',
+  'settings.tapToPark': 'Tap instead of swipe',
+  'settings.tapToParkHint': 'Start and stop parking with a button instead of the slider',
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,478 @@
+import type { Catalog } from '@/utils/i18n';
+
+/**
+ * Kiswahili messages.
+ */
+export const sw: Catalog = {
+  // Navigation
+  'nav.home': 'Nyumbani',
+  'nav.profile': 'Wasifu',
+  'nav.settings': 'Mipangilio',
+  'nav.history': 'Historia',
+  'nav.vehicles': 'Magari Yangu',
+  'nav.session': 'Kipindi cha Maegesho',
+  'nav.signIn': 'Ingia',
+  'nav.verify': 'Thibitisha Nambari',
+  'nav.enforcement': 'Usimamizi',
+  'nav.zoneMap': 'Ramani ya Eneo',
+  'nav.logViolation': 'Rekodi Ukiukaji',
+  'nav.fleet': 'Magari ya Kampuni',
+  'nav.manageFleet': 'Simamia Magari ya Kampuni',
+  'nav.reservations': 'Nafasi Zilizohifadhiwa',
+  'nav.reserve': 'Hifadhi Nafasi',
+  'nav.reservation': 'Nafasi Iliyohifadhiwa',
+
+  // Shared
+  'common.cancel': 'Ghairi',
+  'common.done': 'Sawa',
+  'common.ok': 'Sawa',
+  'common.save': 'Hifadhi',
+  'common.remove': 'Ondoa',
+  'common.keep': 'Acha',
+  'common.default': 'Chaguo-msingi',
+  'common.error': 'Hitilafu',
+  'common.warning': 'Onyo',
+  'common.success': 'Imefaulu',
+  'common.info': 'Taarifa',
+  'common.undo': 'Tendua',
+  'common.notAvailable': 'Haipo',
+  'common.unknownLocation': 'Mahali pasipojulikana',
+  'common.perHour': '{amount} kwa saa',
+  'common.open': 'Wazi',
+  'common.closed': 'Imefungwa',
+
+  // Durations
+  'duration.minutes': { one: 'dakika {count}', other: 'dakika {count}' },
+  'duration.hours': { one: 'saa {count}', other: 'saa {count}' },
+  'duration.hoursMinutes': '{hours} na {minutes}',
+
+  // Parking screen
+  'parking.statusActive': 'Maegesho Yanaendelea',
+  'parking.statusReady': 'Tayari Kuegesha',
+  'parking.startParking': 'Anza Kuegesha',
+  'parking.slideToStart': 'Telezesha kuanza kuegesha',
+  'parking.slideToStop': 'Telezesha kusimamisha',
+  'parking.tapToStart': 'Gusa kuanza kuegesha',
+  'parking.tapToStop': 'Gusa kusimamisha maegesho',
+  'parking.hintActive': 'Mahali gari lako lilipo panafuatiliwa',
+  'parking.hintReady': 'Linda nafasi yako ya maegesho kwa kutelezesha mara moja',
+  'parking.findingLocation': 'Tunatafuta mahali ulipo...',
+  'parking.locationUnavailable': 'Imeshindikana kupata mahali ulipo',
+  'parking.locationPermissionRequired': 'Ruhusa ya mahali inahitajika',
+  'parking.duration': 'Muda',
+  'parking.currentCost': 'Gharama ya Sasa',
+  'parking.vehicle': 'Gari: {plate}',
+  'parking.rate': 'Kiwango: {rate}',
+  'parking.zoneSummary': '{zone} · {rate} · upeo {hours}',
+  'parking.zoneRate': '{first} saa ya kwanza, kisha {subsequent} kwa saa',
+  'parking.started': 'Maegesho yameanza!',
+  'parking.startedFor': 'Maegesho yameanza kwa {plate}',
+  'parking.startedIn': 'Maegesho yameanza {zone}',
+  'parking.startedInFor': 'Maegesho yameanza {zone} kwa {plate}',
+  'parking.outsideHours': '{zone} iko nje ya saa za kulipia ({hours})',
+  'parking.cancelled': 'Maegesho yameghairiwa',
+  'parking.extendedBy': 'Maegesho yameongezwa kwa {duration}',
+  'parking.howToPayTitle': 'Ungependa kulipa vipi?',
+  'parking.howToPayMessage':
+    'Lipia muda utakaotumia unapoondoka, au lipa mapema kwa muda maalum na upate vikumbusho kabla haujaisha.',
+  'parking.payWhenLeaving': 'Lipa Ninapoondoka',
+  'parking.prepay': 'Lipa Mapema',
+  'parking.cancelTitle': 'Ghairi Maegesho?',
+  'parking.cancelMessage': 'Una uhakika unataka kughairi kipindi hiki cha maegesho?',
+  'parking.continueParking': 'Endelea Kuegesha',
+  'parking.confirmCancel': 'Ndiyo, Ghairi',
+  'parking.exceededTitle': 'Muda wa Maegesho Umepita',
+  'parking.exceededMessage':
+    'Umezidisha muda kwa {duration}. Ongeza muda ili kulipia muda wa ziada kabla ya kuondoka.',
+  'parking.notNow': 'Si Sasa',
+  'parking.extend': 'Ongeza',
+  'parking.endTitle': 'Maliza Maegesho?',
+  'parking.endMessage': 'Maegesho yako yamelipiwa. Maliza kipindi hiki sasa?',
+  'parking.keepParking': 'Endelea Kuegesha',
+  'parking.endParking': 'Maliza Maegesho',
+  'parking.endedTitle': 'Maegesho Yameisha',
+  'parking.endedMessage': 'Kipindi chako cha kulipia mapema kimeisha.',
+  'parking.prepaidLeft': 'Zimebaki {time} · imelipiwa hadi {until}',
+  'parking.overstayed': 'Umezidisha kwa {time}',
+  'parking.maxStayLeft': 'Muda wa juu unaisha baada ya {time}',
+  'parking.maxStayExceeded': 'Umezidi muda wa juu kwa {time}',
+  'parking.maxStayReached': 'Umefikia muda wa juu wa {duration} katika {zone}. Tafadhali ondoa gari lako.',
+  'parking.yourCar': 'Gari lako: {distance} {direction}',
+  'parking.carSaved': 'Mahali gari lilipo pamehifadhiwa',
+  'parking.addSpotDetails': 'Gusa kuongeza ghorofa, nafasi au picha',
+  'parking.floor': 'Ghorofa {floor}',
+  'parking.bay': 'Nafasi {bay}',
+  'parking.navigate': 'Elekeza',
+  'parking.spotSummary': '{distance} · {rate} · {spaces}',
+  'parking.directionsFailed': 'Imeshindikana kufungua ramani kwa maelekezo',
+  'parking.youAreHere': 'Uko hapa',
+
+  // Payment
+  'payment.title': 'Kamilisha Malipo',
+  'payment.tapToExpand': 'Gusa kupanua • {amount}',
+  'payment.waitingForConfirmation': 'Tunasubiri uthibitisho wa malipo...',
+  'payment.enterPhone': 'Weka nambari yako ya simu ili kulipa',
+  'payment.vehicle': 'Gari',
+  'payment.duration': 'Muda',
+  'payment.total': 'Jumla',
+  'payment.waitingOnPhone': 'Tunasubiri ukamilishe malipo kwenye simu yako...',
+  'payment.checkPhone': 'Angalia simu yako kwa ombi la M-Pesa STK Push',
+  'payment.transactionId': 'Kitambulisho cha Muamala: {id}...',
+  'payment.phoneNumber': 'Nambari ya Simu',
+  'payment.phoneHint': 'Weka nambari ya simu iliyosajiliwa na M-Pesa',
+  'payment.promptInfo': 'Ombi la malipo litatumwa kwenye simu yako kupitia M-Pesa',
+  'payment.cancelPayment': 'Ghairi Malipo',
+  'payment.pay': 'Lipa {amount}',
+  'payment.phoneRequired': 'Tafadhali weka nambari ya simu',
+  'payment.invalidPhone': 'Tafadhali weka nambari sahihi ya simu ya Kenya (mf., 0712345678)',
+  'payment.errorTitle': 'Hitilafu ya Malipo',
+  'payment.successTitle': 'Malipo Yamefaulu! 🎉',
+  'payment.successMessage': 'Risiti: {receipt}\n\nMalipo yako ya maegesho yamethibitishwa.',
+  'payment.received': 'Malipo yamepokelewa',
+  'payment.insufficientFunds': 'Salio lako la M-Pesa halitoshi kwa malipo haya',
+  'payment.busy': 'Kuna muamala mwingine wa M-Pesa unaoendelea kwenye simu yako',
+  'payment.expired': 'Ombi la malipo liliisha muda kabla ya kukamilika',
+  'payment.promptFailed': 'Hatukuweza kutuma ombi la malipo. Tafadhali jaribu tena',
+  'payment.cancelledOnPhone': 'Ulighairi malipo kwenye simu yako',
+  'payment.unreachable': 'Simu yako haikupatikana. Hakikisha imewashwa na ina mtandao',
+  'payment.wrongPin': 'PIN ya M-Pesa uliyoweka si sahihi',
+  'payment.declined': 'M-Pesa imekataa malipo. Tafadhali jaribu tena baada ya dakika chache',
+  'payment.mpesaBusy': 'M-Pesa ina shughuli nyingi sasa hivi. Tafadhali jaribu tena',
+  'payment.failedWithCode': 'Malipo yameshindikana (msimbo wa M-Pesa {code})',
+  'payment.noResponse': 'Hatukupata jibu kutoka M-Pesa kwa wakati',
+  'payment.cancelled': 'Malipo yameghairiwa',
+  'payment.unconfirmed': 'Malipo haya hayakuweza kuthibitishwa',
+  'payment.description': 'Ada ya maegesho',
+
+  // Receipts
+  'receipt.share': 'Shiriki Risiti',
+  'receipt.shareFormat': 'Shiriki risiti ya {format}',
+  'receipt.shareFailed': 'Imeshindikana kushiriki risiti',
+  'receipt.shareUnavailable': 'Kushiriki hakupatikani kwenye kifaa hiki',
+  'receipt.title': 'Risiti',
+  'receipt.view': 'Tazama Risiti',
+
+  // Prepaid
+  'prepaid.startTitle': 'Lipia maegesho mapema',
+  'prepaid.extendTitle': 'Ongeza muda wa maegesho',
+  'prepaid.maxStayReached': 'Umefikia muda wa juu zaidi wa kukaa katika eneo hili.',
+  'prepaid.checkPhone': 'Angalia simu yako kwa ombi la M-Pesa',
+  'prepaid.phonePlaceholder': 'Nambari ya simu ya M-Pesa',
+  'prepaid.purchaseLine': 'Malipo ya mapema {duration} ({receipt})',
+
+  // Reminders
+  'reminder.title': { one: 'Maegesho yanaisha baada ya dakika {count}', other: 'Maegesho yanaisha baada ya dakika {count}' },
+  'reminder.body': 'Ongeza muda sasa kwenye programu ili kuepuka faini.',
+
+  // Tariff
+  'tariff.gracePeriod': 'Muda wa neema ({duration})',
+  'tariff.firstHour': '{period} · saa ya kwanza',
+  'tariff.additional': '{period} · ziada',
+  'tariff.outsideHours': 'Nje ya saa za malipo',
+  'tariff.dailyCap': 'Kikomo cha siku ({amount})',
+  'tariff.rounding': 'Kuzungusha hadi shilingi nzima',
+  'tariff.period.day': 'Mchana',
+  'tariff.period.night': 'Usiku',
+  'tariff.period.weekend': 'Wikendi',
+  'tariff.period.holiday': 'Sikukuu ya umma',
+
+  // Zones and places
+  'hours.daily': 'Kila siku',
+  'hours.range': '{days} {open}–{close}',
+  'day.0': 'Jpi',
+  'day.1': 'Jtt',
+  'day.2': 'Jnn',
+  'day.3': 'Jtn',
+  'day.4': 'Alh',
+  'day.5': 'Ijm',
+  'day.6': 'Jms',
+  'compass.N': 'kaskazini',
+  'compass.NE': 'kaskazini mashariki',
+  'compass.E': 'mashariki',
+  'compass.SE': 'kusini mashariki',
+  'compass.S': 'kusini',
+  'compass.SW': 'kusini magharibi',
+  'compass.W': 'magharibi',
+  'compass.NW': 'kaskazini magharibi',
+  'nearby.searchPlaceholder': 'Tafuta maegesho karibu nawe',
+  'nearby.noMatches': 'Hakuna maegesho yanayolingana na “{query}”',
+  'nearby.spaces': { one: 'nafasi {count}', other: 'nafasi {count}' },
+
+  // Parked car
+  'parkedCar.title': 'Uliegesha wapi?',
+  'parkedCar.floor': 'Ghorofa / kiwango',
+  'parkedCar.bay': 'Nafasi',
+  'parkedCar.notes': 'Maelezo (mf., karibu na lifti)',
+  'parkedCar.addPhoto': 'Ongeza picha ya mahali',
+  'parkedCar.cameraTitle': 'Ruhusa ya Kamera',
+  'parkedCar.cameraMessage': 'Ruhusu kamera ili kupiga picha ya mahali ulipoegesha.',
+
+  // Vehicles
+  'vehicles.pickerTitle': 'Gari gani linaegeshwa?',
+  'vehicles.noneSaved': 'Bado huna magari yaliyohifadhiwa.',
+  'vehicles.add': 'Ongeza gari',
+  'vehicles.parkWithout': 'Egesha bila gari',
+  'vehicles.empty': 'Ongeza magari unayoegesha',
+  'vehicles.addTitle': 'Ongeza Gari',
+  'vehicles.editTitle': 'Hariri Gari',
+  'vehicles.platePlaceholder': 'Nambari ya usajili (mf., KDA 123A)',
+  'vehicles.nicknamePlaceholder': 'Jina la utani (si lazima)',
+  'vehicles.saveChanges': 'Hifadhi Mabadiliko',
+  'vehicles.removeTitle': 'Ondoa Gari?',
+  'vehicles.removeMessage': 'Ondoa {plate} kwenye magari yako?',
+  'vehicles.invalidPlate': 'Tafadhali weka nambari sahihi ya usajili ya Kenya (mf., KDA 123A)',
+  'vehicles.duplicatePlate': '{plate} tayari iko kwenye magari yako',
+  'vehicles.saveFailed': 'Imeshindikana kuhifadhi gari',
+  'vehicleType.car': 'Gari',
+  'vehicleType.suv': 'SUV',
+  'vehicleType.van': 'Gari dogo la mizigo',
+  'vehicleType.truck': 'Lori',
+  'vehicleType.motorcycle': 'Pikipiki',
+
+  // History
+  'history.range.all': 'Wakati wote',
+  'history.range.7d': 'Siku 7 zilizopita',
+  'history.range.30d': 'Siku 30 zilizopita',
+  'history.range.month': 'Mwezi huu',
+  'history.allVehicles': 'Magari yote',
+  'history.empty': 'Bado hakuna vipindi vya maegesho',
+  'history.notFound': 'Kipindi hiki cha maegesho hakikupatikana.',
+  'history.noLocation': 'Hakuna mahali palipohifadhiwa',
+  'history.date': 'Tarehe',
+  'history.start': 'Mwanzo',
+  'history.end': 'Mwisho',
+  'history.duration': 'Muda',
+  'history.zone': 'Eneo',
+  'history.location': 'Mahali',
+  'history.vehicle': 'Gari',
+  'history.mpesaReceipt': 'Risiti ya M-Pesa',
+  'history.billedTo': 'Imetozwa Kwa',
+  'history.chargeReference': 'Kumbukumbu ya Malipo',
+  'history.vatIncluded': 'VAT ({rate}%) imejumuishwa',
+  'history.totalPaid': 'Jumla Iliyolipwa',
+
+  // Expense export
+  'export.title': 'Hamisha matumizi',
+  'export.onlyVehicle': '{plate} pekee',
+  'export.from': 'Kuanzia',
+  'export.to': 'Hadi',
+  'export.alertTitle': 'Hamisha',
+  'export.noSessions': 'Hakuna vipindi vya maegesho katika kipindi hiki',
+  'export.failed': 'Imeshindikana kuhamisha matumizi',
+
+  // Profile
+  'profile.account': 'Akaunti',
+  'profile.name': 'Jina kamili',
+  'profile.email': 'Barua pepe (kwa risiti)',
+  'profile.saved': 'Imehifadhiwa',
+  'profile.saveDetails': 'Hifadhi Maelezo',
+  'profile.numbers': 'Nambari za M-Pesa',
+  'profile.numbersHint': 'Nambari ya chaguo-msingi hujazwa unapolipa.',
+  'profile.phonePlaceholder': 'Nambari ya simu (mf., 0712345678)',
+  'profile.labelPlaceholder': 'Lebo (si lazima, mf., Kazini)',
+  'profile.addNumber': 'Ongeza Nambari',
+  'profile.removeNumberTitle': 'Ondoa Nambari?',
+  'profile.removeNumberMessage': 'Ondoa {number} kwenye nambari zilizohifadhiwa?',
+  'profile.invalidEmail': 'Tafadhali weka barua pepe sahihi',
+  'profile.duplicateNumber': '{number} tayari imehifadhiwa',
+  'profile.saveFailed': 'Imeshindikana kuhifadhi wasifu',
+  'profile.numberSaveFailed': 'Imeshindikana kuhifadhi nambari',
+  'profile.signedInAs': 'Umeingia kama {number}',
+  'profile.signOut': 'Toka',
+  'profile.signOutTitle': 'Toka?',
+  'profile.signOutMessage': 'Utahitaji msimbo mpya utakaotumwa kwa simu yako ili kuingia tena.',
+
+  // Sign-in
+  'auth.welcomeTitle': 'Karibu KenPark',
+  'auth.welcomeMessage': 'Ingia kwa nambari yako ya simu ili kuegesha, kulipa na kuhifadhi risiti zako.',
+  'auth.phoneLabel': 'Nambari ya simu',
+  'auth.phonePlaceholder': '0712 345 678',
+  'auth.sendCode': 'Tuma Msimbo',
+  'auth.codeSent': 'Weka msimbo wa tarakimu 6 tuliotuma kwa {number}',
+  'auth.codeLabel': 'Msimbo wa uthibitisho',
+  'auth.verify': 'Thibitisha',
+  'auth.resend': 'Tuma msimbo tena',
+  'auth.resendIn': 'Tuma msimbo tena baada ya sekunde {seconds}',
+  'auth.codeResent': 'Msimbo mpya unakuja',
+  'auth.changeNumber': 'Tumia nambari nyingine',
+  'auth.invalidPhone': 'Tafadhali weka nambari sahihi ya simu',
+  'auth.invalidCode': 'Msimbo huo si sahihi. Angalia SMS ujaribu tena',
+  'auth.codeExpired': 'Msimbo huo umeisha muda. Omba mpya',
+  'auth.tooManyAttempts': 'Misimbo mingi isiyo sahihi. Omba mpya',
+  'auth.rateLimited': 'Maombi mengi mno. Subiri kidogo ujaribu tena',
+  'auth.failed': 'Kuingia kumeshindikana. Tafadhali jaribu tena',
+  'auth.sessionExpired': 'Muda wa kuingia kwako umeisha. Tafadhali ingia tena',
+
+  // Backend requests
+  'api.networkError': 'Imeshindikana kufikia seva. Angalia muunganisho wako',
+  'api.timeout': 'Seva imechukua muda mrefu kujibu. Tafadhali jaribu tena',
+  'api.cancelled': 'Ombi limesitishwa',
+  'api.serverError': 'Hitilafu imetokea upande wetu. Tafadhali jaribu tena',
+  'api.invalidResponse': 'Jibu lisilotarajiwa kutoka kwa seva. Tafadhali jaribu tena',
+
+  // Offline mode and session sync
+  'offline.banner': 'Huna mtandao. Maegesho yanaendelea na yatasawazishwa ukiunganishwa tena',
+  'offline.pendingChanges': {
+    one: 'Huna mtandao. Badiliko {count} litasawazishwa ukiunganishwa tena',
+    other: 'Huna mtandao. Mabadiliko {count} yatasawazishwa ukiunganishwa tena',
+  },
+  'offline.paymentBlocked': 'Huna mtandao. Unganisha kwenye intaneti ili kulipa',
+  'sync.endedElsewhere': 'Maegesho haya yalikwisha kusitishwa kwenye kifaa kingine',
+
+  // Realtime notices
+  'enforcement.noticeTitle': 'Usimamizi wa maegesho',
+
+  // Enforcement officers
+  'enforcement.plateLabel': 'Nambari ya gari',
+  'enforcement.platePlaceholder': 'KDA 123A',
+  'enforcement.search': 'Tafuta nambari',
+  'enforcement.searchFailed': 'Imeshindikana kutafuta nambari hiyo. Tafadhali jaribu tena',
+  'enforcement.noSession': 'Hakuna maegesho yanayoendelea kwa {plate}',
+  'enforcement.zone': 'Eneo: {zone}',
+  'enforcement.startedAt': 'Yalianza saa {time}',
+  'enforcement.paidUntil': 'Imelipiwa hadi {time}',
+  'enforcement.paysOnExit': 'Atalipa akiondoka',
+  'enforcement.overstay': 'Amezidisha muda kwa {duration}',
+  'enforcement.withinTime': 'Ndani ya muda uliolipiwa',
+  'enforcement.logViolation': 'Rekodi Ukiukaji',
+  'enforcement.zoneMap': 'Ramani ya Eneo',
+  'enforcement.recentViolations': 'Ukiukaji Uliorekodiwa',
+  'enforcement.noViolations': 'Bado hakuna ukiukaji uliorekodiwa kwenye kifaa hiki.',
+  'enforcement.uploaded': 'Imepakiwa',
+  'enforcement.waitingToUpload': 'Inasubiri kupakiwa',
+  'enforcement.refresh': 'Onyesha upya maegesho',
+  'enforcement.loadFailed': 'Imeshindikana kupakia maegesho ya eneo hili',
+  'enforcement.noZones': 'Bado hujapangiwa eneo lolote.',
+  'enforcement.zoneSummary': {
+    one: 'Maegesho {count} yanaendelea · {overstayed} yamezidisha muda',
+    other: 'Maegesho {count} yanaendelea · {overstayed} yamezidisha muda',
+  },
+  'enforcement.photo': 'Picha ya ushahidi',
+  'enforcement.takePhoto': 'Piga picha ya gari',
+  'enforcement.retakePhoto': 'Piga picha upya',
+  'enforcement.photoRequired': 'Piga picha ya gari kwanza',
+  'enforcement.cameraMessage': 'Ruhusu kamera ili kupiga picha za magari yanayokiuka sheria.',
+  'enforcement.location': 'Mahali',
+  'enforcement.locating': 'Inatafuta mahali ulipo...',
+  'enforcement.located': 'Mahali pamerekodiwa',
+  'enforcement.locatedWithin': 'Mahali pamerekodiwa (ndani ya mita {meters})',
+  'enforcement.locationUnavailable': 'Mahali hapapatikani; ukiukaji utahifadhiwa bila mahali',
+  'enforcement.notes': 'Maelezo',
+  'enforcement.notesPlaceholder': 'mf. Limezuia eneo la kupakia mizigo',
+  'enforcement.saveViolation': 'Hifadhi Ukiukaji',
+  'enforcement.saveFailed': 'Imeshindikana kuhifadhi ukiukaji. Tafadhali jaribu tena',
+  'enforcement.violationLogged': 'Ukiukaji umerekodiwa',
+  'enforcement.violationQueued': 'Ukiukaji umehifadhiwa. Utapakiwa ukiwa mtandaoni tena',
+
+  // Fleet accounts
+  'fleet.badge': 'Kampuni',
+  'fleet.billTo': 'Toza kampuni',
+  'fleet.billSubtitle': 'Gari hili ni la kampuni',
+  'fleet.billHint': 'Itaongezwa kwenye ankara ya mwezi ya kampuni. Hakuna malipo ya M-Pesa',
+  'fleet.invoiceInfo': 'Kampuni yako italipia maegesho haya',
+  'fleet.billButton': 'Toza kampuni {amount}',
+  'fleet.billFailed': 'Imeshindikana kutoza kampuni. Tafadhali jaribu tena',
+  'fleet.notAuthorised': 'Huruhusiwi tena kuegesha gari hili kwa niaba ya {fleet}',
+  'fleet.billedTitle': 'Kampuni imetozwa',
+  'fleet.billedMessage': 'Imetozwa kwa {fleet}. Kumbukumbu: {reference}',
+  'fleet.noFleets': 'Husimamii magari ya kampuni yoyote.',
+  'fleet.loadFailed': 'Imeshindikana kupakia taarifa za magari ya kampuni',
+  'fleet.sessionCount': { one: 'Maegesho {count}', other: 'Maegesho {count}' },
+  'fleet.byDriver': 'Kwa dereva',
+  'fleet.byVehicle': 'Kwa gari',
+  'fleet.noSpend': 'Hakuna maegesho yaliyotozwa mwezi huu',
+  'fleet.invoice': 'Ankara',
+  'fleet.exportInvoice': 'Ankara {format}',
+  'fleet.noCharges': 'Hakuna malipo ya kuweka kwenye ankara mwezi huu',
+  'fleet.exportFailed': 'Imeshindikana kutoa ankara. Tafadhali jaribu tena',
+  'fleet.manage': 'Simamia magari na madereva',
+  'fleet.vehicles': 'Magari',
+  'fleet.vehiclesHint': 'Magari yaliyowashwa ni ya kampuni. Ongeza mengine kwenye Magari Yangu',
+  'fleet.ownedBy': '{plate} ni la {fleet}',
+  'fleet.members': 'Madereva',
+  'fleet.membersHint': 'Madereva hawa wanaweza kuegesha magari ya kampuni kwa akaunti ya kampuni',
+  'fleet.admin': 'Msimamizi',
+  'fleet.memberPhone': 'Nambari ya simu ya dereva',
+  'fleet.addMember': 'Ongeza dereva',
+  'fleet.removeMember': 'Ondoa {phone}',
+  'fleet.saveFailed': 'Imeshindikana kuhifadhi mabadiliko. Tafadhali jaribu tena',
+
+  // Reservations
+  'reservations.reserve': 'Hifadhi',
+  'reservations.reserveAt': 'Hifadhi nafasi katika {lot}',
+  'reservations.empty': 'Bado huna nafasi zilizohifadhiwa. Chagua maegesho kwenye ramani na ubonyeze Hifadhi ili kuhifadhi nafasi mapema',
+  'reservations.notFound': 'Nafasi hii iliyohifadhiwa haikupatikana.',
+  'reservations.lotNotFound': 'Maegesho haya hayakupatikana.',
+  'reservations.day': 'Siku',
+  'reservations.duration': 'Muda gani',
+  'reservations.arrival': 'Saa ya kufika',
+  'reservations.noTimes': 'Hakuna muda uliobaki siku hii. Jaribu siku nyingine au muda mfupi zaidi',
+  'reservations.window': '{date}, {start} - {end}',
+  'reservations.depositHint': 'Amana, hurudishwa unapoingia ukifika',
+  'reservations.holdRule': {
+    one: 'Nafasi yako inashikiliwa hadi dakika {count} baada ya kuanza',
+    other: 'Nafasi yako inashikiliwa hadi dakika {count} baada ya kuanza',
+  },
+  'reservations.cancelRule': {
+    one: 'Ghairi bila malipo hadi dakika {count} kabla ya kuanza. Kughairi baadaye kunapoteza {percent}% ya amana.',
+    other: 'Ghairi bila malipo hadi dakika {count} kabla ya kuanza. Kughairi baadaye kunapoteza {percent}% ya amana.',
+  },
+  'reservations.noShowRule': 'Usipoingia kabla ya muda wa kushikilia kuisha unapoteza {percent}% ya amana.',
+  'reservations.phone': 'Nambari ya M-Pesa ya amana',
+  'reservations.payDeposit': 'Lipa amana ya {amount}',
+  'reservations.checkPhone': 'Angalia simu yako na uweke PIN ya M-Pesa kulipa amana',
+  'reservations.depositDescription': 'Amana ya kuhifadhi nafasi katika {lot}',
+  'reservations.quoteFailed': 'Imeshindikana kupata amana ya muda huu. Tafadhali jaribu tena',
+  'reservations.bookFailed': 'Imeshindikana kuhifadhi nafasi. Tafadhali jaribu tena',
+  'reservations.status.awaitingDeposit': 'Inasubiri amana',
+  'reservations.status.upcoming': 'Imehifadhiwa',
+  'reservations.status.checkInOpen': 'Tayari kuingia',
+  'reservations.status.checkedIn': 'Umeingia',
+  'reservations.status.cancelled': 'Imeghairiwa',
+  'reservations.status.noShow': 'Hukufika',
+  'reservations.qrLabel': 'Msimbo wa QR wa nafasi {code}. Uonyeshe kwenye lango la maegesho',
+  'reservations.checkInFrom': 'Ingia kuanzia {time}',
+  'reservations.holdEndsIn': 'Nafasi inashikiliwa kwa {time} zaidi',
+  'reservations.noShowRefund': 'Hakuna aliyeingia kabla ya muda wa kushikilia kuisha. Marejesho: {amount}',
+  'reservations.time': 'Muda',
+  'reservations.heldUntil': 'Inashikiliwa Hadi',
+  'reservations.deposit': 'Amana',
+  'reservations.refund': 'Marejesho',
+  'reservations.checkIn': 'Ingia na uanze maegesho',
+  'reservations.cancel': 'Ghairi nafasi',
+  'reservations.cancelTitle': 'Ghairi nafasi?',
+  'reservations.cancelFullRefund': 'Amana yako ya {amount} itarudishwa yote.',
+  'reservations.cancelPartialRefund': 'Muda wa kughairi bila malipo umepita. {amount} kati ya amana yako ya {deposit} itarudishwa.',
+  'reservations.cancelled': 'Nafasi imeghairiwa. Marejesho: {amount}',
+  'reservations.reminderTitle': 'Nafasi yako katika {lot} inakusubiri',
+  'reservations.reminderBody': {
+    one: 'Ingia ndani ya dakika {count} au nafasi itaachiliwa',
+    other: 'Ingia ndani ya dakika {count} au nafasi itaachiliwa',
+  },
+
+  // Screen reader labels and announcements
+  'a11y.dismiss': 'Funga arifa',
+  'a11y.close': 'Funga',
+  'a11y.expandPayment': 'Panua maelezo ya malipo',
+  'a11y.collapsePayment': 'Kunja maelezo ya malipo',
+  'a11y.expandSheet': 'Panua',
+  'a11y.collapseSheet': 'Kunja',
+  'a11y.parkingTimer': 'Umeegesha kwa {duration}. Gharama ya sasa {cost}',
+  'a11y.costChanged': 'Gharama ya maegesho sasa ni {cost} baada ya {duration}',
+  'a11y.prepaidExpired': 'Muda wako wa maegesho uliolipiwa mapema umeisha',
+  'a11y.showNearby': 'Tafuta maegesho karibu',
+
+  // Settings
+  'settings.theme': 'Mandhari',
+  'settings.theme.system': 'Mfumo',
+  'settings.theme.light': 'Mwanga',
+  'settings.theme.dark': 'Giza',
+  'settings.language': 'Lugha',
+  'settings.currency': 'Muundo wa sarafu',
+  'settings.reminders': 'Vikumbusho vya malipo ya mapema',
+  'settings.remindersHint': 'Nikumbushe muda huu kabla muda wangu haujaisha',
+  'settings.defaultVehicle': 'Gari la chaguo-msingi',
+  'settings.haptics': 'Mtetemo wa mguso',
+  'settings.tapToPark': 'Gusa badala ya kutelezesha',
+  'settings.tapToParkHint': 'Anza na simamisha maegesho kwa kitufe badala ya kitelezi',
+};
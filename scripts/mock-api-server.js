@@ -0,0 +1,723 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal local stand-in for the parking backend, for exercising phone + OTP
+ * sign-in, token refresh and offline session sync without a real SMS gateway
+ * or database. Codes are printed to the console instead of being texted.
+ *
+ * Endpoints:
+ *   POST /auth/otp/request   { phoneNumber }          text a code
+ *   POST /auth/otp/verify    { requestId, code }      sign in
+ *   POST /auth/refresh       { refreshToken }         rotate the token pair
+ *   POST /auth/logout        { refreshToken }         revoke the session
+ *   GET  /me                 Bearer access token      the signed-in user
+ *   POST /sessions/events    { event, sentAt, force } replay a session event
+ *   POST /sessions/:id/end                            end a session "elsewhere"
+ *   GET  /enforcement/sessions?plate=                 officer: active session for a plate
+ *   GET  /enforcement/zones/:zoneId/sessions          officer: active sessions in a zone
+ *   POST /enforcement/violations  multipart violation + photo   officer: log a violation
+ *   GET  /fleets                                      fleets the user belongs to
+ *   POST /fleets/:id/charges      { sessionId, plate }  member: bill a session, priced here
+ *   GET  /fleets/:id/spend?month=YYYY-MM              admin: spend per driver and vehicle
+ *   GET  /fleets/:id/invoices/:month                  admin: the month's invoice
+ *   POST /fleets/:id/vehicles { plate }, DELETE /fleets/:id/vehicles/:plate    admin
+ *   GET|POST /fleets/:id/members { phoneNumber }, DELETE /fleets/:id/members/:phone  admin
+ *   GET  /reservations/quote?lotId=&startsAt=&endsAt=  deposit and rules for a window
+ *   GET  /reservations                                the user's reservations
+ *   POST /reservations            { lotId, startsAt, endsAt }   hold a space
+ *   POST /reservations/:id/deposit { checkoutRequestID, mpesaReceipt }   confirm it
+ *   POST /reservations/:id/check-in, POST /reservations/:id/cancel
+ *
+ * Phone numbers ending in 9 are rate limited, to try the error path. Use
+ * /sessions/:id/end (the id is logged when a session starts) to try the
+ * sync conflict path, as if an attendant had closed the session. Numbers in
+ * MOCK_API_OFFICERS (default +254700000000) sign in as enforcement officers
+ * patrolling every zone. Numbers in MOCK_API_FLEET_ADMINS (default
+ * +254700000001) administer the "Demo Logistics" fleet, which starts with no
+ * vehicles or other drivers. Reservations take a deposit of one hour at the
+ * lot's rate; a hold not paid for within 5 minutes lapses, and one nobody
+ * checked in to is settled as a no-show the next time it is read. A session
+ * started with a reservationId checks in to that reservation, as
+ * /reservations/:id/check-in does.
+ *
+ * Environment: PORT (default 4020), MOCK_AUTH_OTP, a fixed code to accept
+ * instead of a random one, MOCK_AUTH_TOKEN_TTL_S, how long access tokens
+ * last (default 60, short so refreshes happen while you use the app), and
+ * MOCK_REALTIME_URL, the mock realtime server to push session changes to.
+ * The reservation rules come from MOCK_API_HOLD_MINUTES (default 15),
+ * MOCK_API_EARLY_CHECK_IN_MINUTES (30), MOCK_API_FREE_CANCEL_MINUTES (60),
+ * MOCK_API_LATE_CANCEL_FORFEIT_PERCENT (50) and
+ * MOCK_API_NO_SHOW_FORFEIT_PERCENT (100).
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const parkingLocations = require("../assets/data/parking-locations.json");
+
+const PORT = Number(process.env.PORT || 4020);
+const FIXED_OTP = process.env.MOCK_AUTH_OTP;
+const TOKEN_TTL_S = Number(process.env.MOCK_AUTH_TOKEN_TTL_S || 60);
+const REALTIME_URL = process.env.MOCK_REALTIME_URL;
+const OTP_TTL_S = 5 * 60;
+const RESEND_S = 30;
+const MAX_ATTEMPTS = 5;
+const OFFICERS = (process.env.MOCK_API_OFFICERS || "+254700000000").split(",");
+const OFFICER_ZONES = ["cbd-core", "upper-hill", "westlands"];
+const FLEET_ADMINS = (process.env.MOCK_API_FLEET_ADMINS || "+254700000001").split(",");
+const RESERVATION_POLICY = {
+  holdMinutes: Number(process.env.MOCK_API_HOLD_MINUTES || 15),
+  earlyCheckInMinutes: Number(process.env.MOCK_API_EARLY_CHECK_IN_MINUTES || 30),
+  freeCancelMinutes: Number(process.env.MOCK_API_FREE_CANCEL_MINUTES || 60),
+  lateCancelForfeitPercent: Number(process.env.MOCK_API_LATE_CANCEL_FORFEIT_PERCENT || 50),
+  noShowForfeitPercent: Number(process.env.MOCK_API_NO_SHOW_FORFEIT_PERCENT || 100),
+};
+const DEPOSIT_TTL_MS = 5 * 60 * 1000;
+// Months are calendar months in Nairobi time
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+const challenges = new Map();
+const accessTokens = new Map();
+const refreshTokens = new Map();
+const users = new Map();
+const violations = new Map();
+const sessions = new Map();
+const reservations = new Map();
+const fleets = new Map([
+  [
+    "flt_demo",
+    {
+      id: "flt_demo",
+      name: "Demo Logistics",
+      // Phone number -> "admin" | "member"
+      members: new Map(FLEET_ADMINS.map((phoneNumber) => [phoneNumber, "admin"])),
+      vehicles: [],
+      charges: [],
+    },
+  ],
+]);
+// Responses by Idempotency-Key, so a retried write is answered, not reapplied
+const idempotentResponses = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const fail = (res, status, errorCode, errorMessage) =>
+  send(res, status, { errorCode, errorMessage });
+
+// The parsed JSON body, and the raw bytes for multipart uploads
+const readBody = (req) =>
+  new Promise((resolve) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks);
+      try {
+        resolve({ body: raw.length ? JSON.parse(raw.toString()) : {}, raw });
+      } catch {
+        resolve({ body: {}, raw });
+      }
+    });
+  });
+
+// Good enough for the app's uploads: text fields plus whether a file came along
+const readMultipart = (req, raw) => {
+  const boundary = (req.headers["content-type"] || "").match(/boundary=(.+)$/)?.[1];
+  if (!boundary) return null;
+  const fields = {};
+  const files = {};
+  raw
+    .toString("latin1")
+    .split(`--${boundary}`)
+    .forEach((part) => {
+      const name = part.match(/name="([^"]+)"/)?.[1];
+      if (!name) return;
+      const value = part.slice(part.indexOf("\r\n\r\n") + 4).replace(/\r\n$/, "");
+      if (/filename="/.test(part)) {
+        files[name] = value.length;
+      } else {
+        fields[name] = Buffer.from(value, "latin1").toString("utf8");
+      }
+    });
+  return { fields, files };
+};
+
+const normalizePlate = (plate) => String(plate || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const authenticate = (req) => {
+  const accessToken = (req.headers.authorization || "").replace(/^Bearer /, "");
+  const session = accessTokens.get(accessToken);
+  return session && Date.now() <= session.expiresAt ? session.userId : null;
+};
+
+// Tell the driver's other devices, as the real backend does over its channel
+const publishSession = (session) => {
+  if (!REALTIME_URL) return;
+  const { userId, ...data } = session;
+  fetch(`${REALTIME_URL}/publish`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ topic: `sessions:${userId}`, data }),
+  }).catch((error) => console.error(`Could not publish session ${session.id}:`, error.message));
+};
+
+const monthOf = (timestamp) => new Date(timestamp + EAT_OFFSET_MS).toISOString().slice(0, 7);
+
+const fleetFor = (fleet, phoneNumber) => ({
+  id: fleet.id,
+  name: fleet.name,
+  role: fleet.members.get(phoneNumber),
+  vehicles: fleet.vehicles,
+});
+
+const membersOf = (fleet) => ({
+  members: [...fleet.members].map(([phoneNumber, role]) => ({ phoneNumber, role })),
+});
+
+// Totals per key, biggest spender first
+// Daytime rates of the zone tariffs in constants/zones.ts. The mock prices
+// every hour at them, in 15-minute blocks with the first-hour rate and a cap
+// per started day, which is close enough to the app's quote to try billing
+const TARIFFS = {
+  default: { graceMinutes: 10, firstHourRate: 100, subsequentHourlyRate: 50, dailyCap: 1000 },
+  "cbd-core": { graceMinutes: 10, firstHourRate: 100, subsequentHourlyRate: 50, dailyCap: 1000 },
+  "upper-hill": { graceMinutes: 10, firstHourRate: 80, subsequentHourlyRate: 40, dailyCap: 600 },
+  westlands: { graceMinutes: 15, firstHourRate: 70, subsequentHourlyRate: 50, dailyCap: 800 },
+};
+
+const priceSession = ({ zoneId, startedAt }, endedAt) => {
+  const tariff = TARIFFS[zoneId] || TARIFFS.default;
+  const minutes = Math.max(0, (endedAt - startedAt) / (60 * 1000));
+  if (minutes <= tariff.graceMinutes) return 0;
+  const billable = Math.ceil(minutes / 15) * 15;
+  const amount =
+    (Math.min(billable, 60) * tariff.firstHourRate + Math.max(0, billable - 60) * tariff.subsequentHourlyRate) / 60;
+  return Math.ceil(Math.min(amount, tariff.dailyCap * Math.ceil(billable / (24 * 60))));
+};
+
+const spendBy = (charges, key, name) => {
+  const totals = new Map();
+  charges.forEach((charge) => {
+    const line = totals.get(charge[key]) || { [name]: charge[key], amount: 0, sessions: 0 };
+    line.amount += charge.amount;
+    line.sessions += 1;
+    totals.set(charge[key], line);
+  });
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const refundAfter = (deposit, forfeitPercent) => Math.round(deposit * (1 - forfeitPercent / 100));
+
+// Lapse unpaid holds and settle no-shows as they are read, instead of on a timer
+const settle = (reservation, now = Date.now()) => {
+  if (reservation.status === "awaiting_deposit" && now > reservation.createdAt + DEPOSIT_TTL_MS) {
+    reservation.status = "cancelled";
+    reservation.refund = 0;
+  }
+  if (reservation.status === "confirmed" && now > reservation.holdUntil) {
+    reservation.status = "no_show";
+    reservation.refund = refundAfter(reservation.deposit, reservation.policy.noShowForfeitPercent);
+    console.log(`Reservation ${reservation.code} was a no-show, refunding KSH ${reservation.refund}`);
+  }
+  return reservation;
+};
+
+// Check in to a confirmed reservation once its check-in window has opened;
+// false if it can't be (yet), true if it is or already was checked in
+const checkIn = (reservation, now = Date.now()) => {
+  if (reservation.status === "confirmed") {
+    if (now < reservation.startsAt - reservation.policy.earlyCheckInMinutes * MINUTE_MS) return false;
+    reservation.status = "checked_in";
+    reservation.refund = reservation.deposit;
+    console.log(`Reservation ${reservation.code} checked in, refunding KSH ${reservation.refund}`);
+  }
+  return reservation.status === "checked_in";
+};
+
+const forDriver = ({ userId, key, createdAt, ...reservation }) => reservation;
+
+// Spaces at the lot held for any part of the window
+const heldDuring = (lotId, startsAt, endsAt) =>
+  [...reservations.values()]
+    .map((reservation) => settle(reservation))
+    .filter(
+      (reservation) =>
+        reservation.lotId === lotId &&
+        ["awaiting_deposit", "confirmed", "checked_in"].includes(reservation.status) &&
+        reservation.startsAt < endsAt &&
+        startsAt < reservation.endsAt
+    ).length;
+
+// The lot and window asked for, or an error message
+const readWindow = ({ lotId, startsAt, endsAt }) => {
+  const lot = parkingLocations.find((location) => location.id === lotId && location.kind === "lot");
+  const window = { lot, startsAt: Number(startsAt), endsAt: Number(endsAt) };
+  if (!lot) return { error: "No such parking lot" };
+  if (!(window.startsAt > Date.now() && window.endsAt > window.startsAt)) {
+    return { error: "startsAt must be in the future and before endsAt" };
+  }
+  return window;
+};
+
+const token = () => crypto.randomBytes(24).toString("base64url");
+
+const userFor = (phoneNumber) => {
+  if (!users.has(phoneNumber)) {
+    const officer = OFFICERS.includes(phoneNumber);
+    users.set(phoneNumber, {
+      id: `usr_${crypto.randomUUID()}`,
+      phoneNumber,
+      role: officer ? "officer" : "driver",
+      zoneIds: officer ? OFFICER_ZONES : [],
+    });
+  }
+  return users.get(phoneNumber);
+};
+
+const issueTokens = (user) => {
+  const accessToken = token();
+  const refreshToken = token();
+  accessTokens.set(accessToken, { userId: user.id, expiresAt: Date.now() + TOKEN_TTL_S * 1000 });
+  refreshTokens.set(refreshToken, user.phoneNumber);
+  return { accessToken, refreshToken, expiresIn: TOKEN_TTL_S, user };
+};
+
+const server = http.createServer(async (req, res) => {
+  const { body, raw } = await readBody(req);
+
+  if (req.method === "POST" && req.url === "/auth/otp/request") {
+    const phoneNumber = String(body.phoneNumber || "");
+    if (!/^\+254\d{9}$/.test(phoneNumber)) {
+      return fail(res, 400, "invalid_phone", "phoneNumber must be E.164, e.g. +254712345678");
+    }
+    if (phoneNumber.endsWith("9")) {
+      return fail(res, 429, "rate_limited", "Too many codes requested for this number");
+    }
+
+    const requestId = `otp_${crypto.randomUUID()}`;
+    const code = FIXED_OTP || String(crypto.randomInt(0, 1000000)).padStart(6, "0");
+    challenges.set(requestId, {
+      phoneNumber,
+      code,
+      expiresAt: Date.now() + OTP_TTL_S * 1000,
+      attempts: 0,
+    });
+    console.log(`OTP for ${phoneNumber}: ${code} (${requestId})`);
+
+    return send(res, 200, { requestId, expiresIn: OTP_TTL_S, resendIn: RESEND_S });
+  }
+
+  if (req.method === "POST" && req.url === "/auth/otp/verify") {
+    const challenge = challenges.get(body.requestId);
+    if (!challenge || Date.now() > challenge.expiresAt) {
+      challenges.delete(body.requestId);
+      return fail(res, 400, "code_expired", "Request a new code");
+    }
+    if (challenge.attempts >= MAX_ATTEMPTS) {
+      return fail(res, 429, "too_many_attempts", "Request a new code");
+    }
+    if (String(body.code) !== challenge.code) {
+      challenge.attempts += 1;
+      return fail(res, 400, "invalid_code", "Wrong code");
+    }
+
+    challenges.delete(body.requestId);
+    console.log(`Signed in ${challenge.phoneNumber}`);
+    return send(res, 200, issueTokens(userFor(challenge.phoneNumber)));
+  }
+
+  if (req.method === "POST" && req.url === "/auth/refresh") {
+    const phoneNumber = refreshTokens.get(body.refreshToken);
+    if (!phoneNumber) {
+      return fail(res, 401, "invalid_token", "Refresh token is invalid or revoked");
+    }
+
+    // Rotate: the old refresh token stops working as soon as it is used
+    refreshTokens.delete(body.refreshToken);
+    console.log(`Refreshed tokens for ${phoneNumber}`);
+    return send(res, 200, issueTokens(userFor(phoneNumber)));
+  }
+
+  if (req.method === "POST" && req.url === "/auth/logout") {
+    refreshTokens.delete(body.refreshToken);
+    return send(res, 204);
+  }
+
+  if (req.method === "GET" && req.url === "/me") {
+    const userId = authenticate(req);
+    if (!userId) {
+      return fail(res, 401, "invalid_token", "Access token is invalid or expired");
+    }
+    const user = [...users.values()].find((item) => item.id === userId);
+    return send(res, 200, user);
+  }
+
+  if (req.method === "POST" && req.url === "/sessions/events") {
+    const userId = authenticate(req);
+    if (!userId) {
+      return fail(res, 401, "invalid_token", "Access token is invalid or expired");
+    }
+
+    const key = req.headers["idempotency-key"];
+    if (key && idempotentResponses.has(key)) {
+      const { status, body: cached } = idempotentResponses.get(key);
+      return send(res, status, cached);
+    }
+    const reply = (status, payload) => {
+      if (key) idempotentResponses.set(key, { status, body: payload });
+      send(res, status, payload);
+    };
+
+    const { event, sentAt, force } = body;
+    if (!event || typeof event.sessionId !== "string" || typeof event.occurredAt !== "number") {
+      return fail(res, 400, "invalid_event", "event needs a sessionId and occurredAt");
+    }
+
+    // Shift the device's timestamp onto the server clock by how far the
+    // device clock was off when it sent the event
+    const skew = typeof sentAt === "number" ? Date.now() - sentAt : 0;
+    const at = event.occurredAt + skew;
+    const existing = sessions.get(event.sessionId);
+    if (existing && existing.userId !== userId) {
+      return fail(res, 404, "unknown_session", "No such session");
+    }
+
+    if (event.type === "started") {
+      if (existing && !force) {
+        return reply(409, { outcome: "conflict", session: existing });
+      }
+      const session = {
+        id: event.sessionId,
+        userId,
+        startedAt: at,
+        endedAt: existing?.endedAt ?? null,
+        plate: event.vehiclePlate ?? null,
+        zoneId: event.zoneId ?? null,
+        coords: event.coords ?? null,
+        paidUntil: typeof event.paidUntil === "number" ? event.paidUntil + skew : null,
+        reservationId: event.reservationId ?? null,
+      };
+      sessions.set(session.id, session);
+      // Starting on a reservation checks in to it, so the app needn't be online on arrival
+      const reservation = reservations.get(session.reservationId);
+      if (reservation && reservation.userId === userId) checkIn(settle(reservation));
+      console.log(`Session ${session.id} started${Math.abs(skew) > 1000 ? ` (clock skew ${skew} ms)` : ""}`);
+      return reply(200, { outcome: "accepted", session });
+    }
+
+    if (event.type === "extended") {
+      if (!existing) {
+        return fail(res, 404, "unknown_session", "No such session");
+      }
+      if (typeof event.paidUntil !== "number") {
+        return fail(res, 400, "invalid_event", "extended needs a paidUntil");
+      }
+      if (existing.endedAt !== null && !force) {
+        return reply(409, { outcome: "conflict", session: existing });
+      }
+      existing.paidUntil = event.paidUntil + skew;
+      console.log(`Session ${existing.id} paid until ${new Date(existing.paidUntil).toISOString()}`);
+      return reply(200, { outcome: "accepted", session: existing });
+    }
+
+    if (event.type === "ended") {
+      if (!existing) {
+        return fail(res, 404, "unknown_session", "No such session");
+      }
+      if (existing.endedAt !== null && !force) {
+        return reply(409, { outcome: "conflict", session: existing });
+      }
+      existing.endedAt = at;
+      console.log(`Session ${existing.id} ended (${event.reason})`);
+      return reply(200, { outcome: "accepted", session: existing });
+    }
+
+    return fail(res, 400, "invalid_event", `Unknown event type ${event.type}`);
+  }
+
+  if (req.url.startsWith("/enforcement/")) {
+    const user = [...users.values()].find((item) => item.id === authenticate(req));
+    if (!user) {
+      return fail(res, 401, "invalid_token", "Access token is invalid or expired");
+    }
+    if (user.role !== "officer") {
+      return fail(res, 403, "forbidden", "Only enforcement officers can do this");
+    }
+
+    const forOfficer = ({ id, plate, zoneId, startedAt, paidUntil, coords }) =>
+      ({ id, plate, zoneId, startedAt, paidUntil, coords });
+    const active = [...sessions.values()].filter(
+      (session) => session.endedAt === null && session.plate && user.zoneIds.includes(session.zoneId)
+    );
+
+    const url = new URL(req.url, "http://localhost");
+    if (req.method === "GET" && url.pathname === "/enforcement/sessions") {
+      const plate = normalizePlate(url.searchParams.get("plate"));
+      const session = active.find((item) => normalizePlate(item.plate) === plate);
+      return send(res, 200, { session: session ? forOfficer(session) : null });
+    }
+
+    const zoneMatch = req.method === "GET" && url.pathname.match(/^\/enforcement\/zones\/([^/]+)\/sessions$/);
+    if (zoneMatch) {
+      const zoneId = decodeURIComponent(zoneMatch[1]);
+      if (!user.zoneIds.includes(zoneId)) {
+        return fail(res, 403, "forbidden", "You don't patrol this zone");
+      }
+      return send(res, 200, {
+        sessions: active.filter((session) => session.zoneId === zoneId).map(forOfficer),
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/enforcement/violations") {
+      const form = readMultipart(req, raw);
+      let violation;
+      try {
+        violation = JSON.parse(form?.fields.violation);
+      } catch {
+        return fail(res, 400, "invalid_violation", "Expected a multipart `violation` JSON field");
+      }
+      if (!violations.has(violation.id)) {
+        violations.set(violation.id, { ...violation, officerId: user.id, photoBytes: form.files.photo ?? 0 });
+        console.log(
+          `Violation ${violation.id}: ${violation.plate} by ${user.phoneNumber}` +
+            (form.files.photo ? ` (photo, ${form.files.photo} bytes)` : "")
+        );
+      }
+      return send(res, 200, { id: violation.id });
+    }
+  }
+
+  if (req.url === "/fleets" || req.url.startsWith("/fleets/")) {
+    const user = [...users.values()].find((item) => item.id === authenticate(req));
+    if (!user) {
+      return fail(res, 401, "invalid_token", "Access token is invalid or expired");
+    }
+
+    const url = new URL(req.url, "http://localhost");
+    if (req.method === "GET" && url.pathname === "/fleets") {
+      const mine = [...fleets.values()].filter((fleet) => fleet.members.has(user.phoneNumber));
+      return send(res, 200, { fleets: mine.map((fleet) => fleetFor(fleet, user.phoneNumber)) });
+    }
+
+    const [, fleetId, resource, item] = url.pathname.split("/").slice(1).map(decodeURIComponent);
+    const fleet = fleets.get(fleetId);
+    const role = fleet?.members.get(user.phoneNumber);
+    if (!fleet) {
+      return fail(res, 404, "unknown_fleet", "No such fleet");
+    }
+    if (!role) {
+      return fail(res, 403, "not_authorised", `You are not a ${fleet.name} driver`);
+    }
+
+    if (req.method === "POST" && resource === "charges") {
+      // One charge per session, so a retried charge is answered, not billed twice
+      const existing = fleet.charges.find((charge) => charge.sessionId === body.sessionId);
+      if (existing) {
+        return send(res, 200, { id: existing.id, reference: existing.reference, amount: existing.amount });
+      }
+      const plate = fleet.vehicles.find((owned) => normalizePlate(owned) === normalizePlate(body.plate));
+      if (!plate) {
+        return fail(res, 403, "not_authorised", `${body.plate} is not a ${fleet.name} vehicle`);
+      }
+      if (typeof body.sessionId !== "string") {
+        return fail(res, 400, "invalid_charge", "A charge needs a sessionId");
+      }
+      // The company pays what the session cost by the server's record of it, up to now
+      const session = sessions.get(body.sessionId);
+      if (!session || session.userId !== user.id || session.endedAt !== null) {
+        return fail(res, 404, "unknown_session", "No such session");
+      }
+      const endedAt = Date.now();
+      const charge = {
+        id: `chg_${crypto.randomUUID()}`,
+        reference: `FLT${String(fleet.charges.length + 1).padStart(6, "0")}`,
+        sessionId: session.id,
+        plate,
+        phoneNumber: user.phoneNumber,
+        zoneId: session.zoneId,
+        startedAt: session.startedAt,
+        endedAt,
+        amount: priceSession(session, endedAt),
+      };
+      fleet.charges.push(charge);
+      console.log(`Billed ${charge.plate} KSH ${charge.amount} to ${fleet.name} (${charge.reference})`);
+      return send(res, 200, { id: charge.id, reference: charge.reference, amount: charge.amount });
+    }
+
+    if (role !== "admin") {
+      return fail(res, 403, "forbidden", "Only fleet admins can do this");
+    }
+
+    if (req.method === "GET" && resource === "spend") {
+      const month = url.searchParams.get("month");
+      const charges = fleet.charges.filter((charge) => monthOf(charge.endedAt) === month);
+      return send(res, 200, {
+        month,
+        total: charges.reduce((sum, charge) => sum + charge.amount, 0),
+        sessions: charges.length,
+        drivers: spendBy(charges, "phoneNumber", "phoneNumber"),
+        vehicles: spendBy(charges, "plate", "plate"),
+      });
+    }
+
+    if (req.method === "GET" && resource === "invoices" && item) {
+      const charges = fleet.charges.filter((charge) => monthOf(charge.endedAt) === item);
+      return send(res, 200, {
+        number: `INV-${fleet.id.toUpperCase()}-${item}`,
+        fleetName: fleet.name,
+        month: item,
+        issuedAt: Date.now(),
+        charges: charges.map(({ id, sessionId, ...charge }) => charge),
+        total: charges.reduce((sum, charge) => sum + charge.amount, 0),
+      });
+    }
+
+    if (resource === "vehicles") {
+      const plate = req.method === "DELETE" ? item : body.plate;
+      if (!plate) {
+        return fail(res, 400, "invalid_plate", "A plate is required");
+      }
+      fleet.vehicles = fleet.vehicles.filter((owned) => normalizePlate(owned) !== normalizePlate(plate));
+      if (req.method === "POST") fleet.vehicles.push(plate);
+      return send(res, 200, fleetFor(fleet, user.phoneNumber));
+    }
+
+    if (resource === "members") {
+      if (req.method === "POST") {
+        if (!/^\+254\d{9}$/.test(String(body.phoneNumber || ""))) {
+          return fail(res, 400, "invalid_phone", "phoneNumber must be E.164, e.g. +254712345678");
+        }
+        if (!fleet.members.has(body.phoneNumber)) fleet.members.set(body.phoneNumber, "member");
+      }
+      if (req.method === "DELETE" && fleet.members.get(item) === "member") {
+        fleet.members.delete(item);
+      }
+      return send(res, 200, membersOf(fleet));
+    }
+  }
+
+  if (req.url === "/reservations" || req.url.startsWith("/reservations/")) {
+    const user = [...users.values()].find((item) => item.id === authenticate(req));
+    if (!user) {
+      return fail(res, 401, "invalid_token", "Access token is invalid or expired");
+    }
+
+    const url = new URL(req.url, "http://localhost");
+    if (req.method === "GET" && url.pathname === "/reservations/quote") {
+      const window = readWindow(Object.fromEntries(url.searchParams));
+      if (window.error) {
+        return fail(res, 400, "invalid_window", window.error);
+      }
+      return send(res, 200, { deposit: window.lot.hourlyRate, policy: RESERVATION_POLICY });
+    }
+
+    if (req.method === "GET" && url.pathname === "/reservations") {
+      const mine = [...reservations.values()].filter((reservation) => reservation.userId === user.id);
+      return send(res, 200, { reservations: mine.map((reservation) => forDriver(settle(reservation))) });
+    }
+
+    if (req.method === "POST" && url.pathname === "/reservations") {
+      const key = req.headers["idempotency-key"];
+      const repeated = key && [...reservations.values()].find((reservation) => reservation.key === key);
+      if (repeated) {
+        return send(res, 200, forDriver(repeated));
+      }
+      const window = readWindow(body);
+      if (window.error) {
+        return fail(res, 400, "invalid_window", window.error);
+      }
+      if (heldDuring(window.lot.id, window.startsAt, window.endsAt) >= window.lot.capacity) {
+        return fail(res, 409, "lot_full", `${window.lot.name} is fully booked for that time`);
+      }
+      const reservation = {
+        id: `rsv_${crypto.randomUUID()}`,
+        code: crypto.randomBytes(4).toString("hex").toUpperCase(),
+        userId: user.id,
+        key,
+        createdAt: Date.now(),
+        lotId: window.lot.id,
+        lotName: window.lot.name,
+        startsAt: window.startsAt,
+        endsAt: window.endsAt,
+        holdUntil: window.startsAt + RESERVATION_POLICY.holdMinutes * MINUTE_MS,
+        deposit: window.lot.hourlyRate,
+        status: "awaiting_deposit",
+        mpesaReceipt: null,
+        refund: null,
+        policy: RESERVATION_POLICY,
+      };
+      reservations.set(reservation.id, reservation);
+      console.log(`Reservation ${reservation.code} at ${reservation.lotName} awaiting a KSH ${reservation.deposit} deposit`);
+      return send(res, 200, forDriver(reservation));
+    }
+
+    const [, id, action] = url.pathname.split("/").slice(1).map(decodeURIComponent);
+    const reservation = reservations.get(id);
+    if (!reservation || reservation.userId !== user.id) {
+      return fail(res, 404, "unknown_reservation", "No such reservation");
+    }
+    settle(reservation);
+
+    // Repeating an action that already happened answers with the result, as a retry expects
+    if (req.method === "POST" && action === "deposit") {
+      if (reservation.status === "awaiting_deposit") {
+        // The real backend checks the receipt with Daraja; the mock takes the app's word
+        reservation.status = "confirmed";
+        reservation.mpesaReceipt = body.mpesaReceipt ?? body.checkoutRequestID ?? null;
+        console.log(`Reservation ${reservation.code} confirmed (${reservation.mpesaReceipt})`);
+      } else if (reservation.status !== "confirmed") {
+        return fail(res, 409, "not_awaiting_deposit", "This reservation is no longer waiting for a deposit");
+      }
+      return send(res, 200, forDriver(reservation));
+    }
+
+    if (req.method === "POST" && action === "check-in") {
+      if (!checkIn(reservation)) {
+        return reservation.status === "confirmed"
+          ? fail(res, 409, "too_early", "It is too early to check in to this reservation")
+          : fail(res, 409, "not_confirmed", "This reservation can no longer be checked in to");
+      }
+      return send(res, 200, forDriver(reservation));
+    }
+
+    if (req.method === "POST" && action === "cancel") {
+      if (["awaiting_deposit", "confirmed"].includes(reservation.status)) {
+        const free = Date.now() <= reservation.startsAt - reservation.policy.freeCancelMinutes * MINUTE_MS;
+        reservation.refund =
+          reservation.status === "awaiting_deposit"
+            ? 0
+            : free
+              ? reservation.deposit
+              : refundAfter(reservation.deposit, reservation.policy.lateCancelForfeitPercent);
+        reservation.status = "cancelled";
+        console.log(`Reservation ${reservation.code} cancelled, refunding KSH ${reservation.refund}`);
+      } else if (reservation.status !== "cancelled") {
+        return fail(res, 409, "not_cancellable", "This reservation can no longer be cancelled");
+      }
+      return send(res, 200, forDriver(reservation));
+    }
+  }
+
+  const endMatch = req.method === "POST" && req.url.match(/^\/sessions\/([^/]+)\/end$/);
+  if (endMatch) {
+    // No token needed: this stands in for an attendant or another device
+    const session = sessions.get(endMatch[1]);
+    if (!session) {
+      return fail(res, 404, "unknown_session", "No such session");
+    }
+    session.endedAt = session.endedAt ?? Date.now();
+    console.log(`Session ${session.id} ended elsewhere`);
+    publishSession(session);
+    return send(res, 200, session);
+  }
+
+  send(res, 404, { errorMessage: `No mock for ${req.method} ${req.url}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT}`);
+});
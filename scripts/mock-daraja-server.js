@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal local stand-in for Safaricom's Daraja STK push API, for exercising
+ * the payment flow without the sandbox.
+ *
+ * Endpoints:
+ *   POST /mpesa/stkpush/v1/processrequest   start a checkout
+ *   POST /mpesa/stkpushquery/v1/query       query a checkout
+ *
+ * The last digit of PhoneNumber picks the outcome:
+ *   0 (and anything not listed) success   1 insufficient funds (1)
+ *   2 cancelled by user (1032)            3 phone unreachable (1037)
+ *   4 wrong PIN (2001)                    5 never resolves
+ *
+ * Environment: PORT (default 4010), MOCK_DARAJA_DELAY_MS, how long a checkout
+ * stays pending before resolving (default 8000), and MOCK_REALTIME_URL, the
+ * mock realtime server to push results to as Safaricom's callback would.
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = Number(process.env.PORT || 4010);
+const DELAY_MS = Number(process.env.MOCK_DARAJA_DELAY_MS || 8000);
+const REALTIME_URL = process.env.MOCK_REALTIME_URL;
+
+const SCENARIOS = {
+  1: { ResultCode: "1", ResultDesc: "The balance is insufficient for the transaction." },
+  2: { ResultCode: "1032", ResultDesc: "Request cancelled by user" },
+  3: { ResultCode: "1037", ResultDesc: "DS timeout user cannot be reached" },
+  4: { ResultCode: "2001", ResultDesc: "The initiator information is invalid." },
+  5: null,
+};
+
+const checkouts = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const receiptNumber = () =>
+  crypto.randomBytes(5).toString("hex").toUpperCase().slice(0, 10);
+
+const resultFor = (checkoutRequestID, checkout) => ({
+  ResponseCode: "0",
+  ResponseDescription: "The service request has been accepted successfully",
+  CheckoutRequestID: checkoutRequestID,
+  ...(SCENARIOS[checkout.scenario] || {
+    ResultCode: "0",
+    ResultDesc: "The service request is processed successfully.",
+    MpesaReceiptNumber: checkout.receipt,
+  }),
+});
+
+// Stands in for the backend relaying Safaricom's callback to the app
+const publishResult = (checkoutRequestID, checkout) =>
+  fetch(`${REALTIME_URL}/publish`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      topic: `payments:${checkoutRequestID}`,
+      data: resultFor(checkoutRequestID, checkout),
+    }),
+  }).catch((error) => console.error(`Could not publish ${checkoutRequestID}:`, error.message));
+
+const server = http.createServer(async (req, res) => {
+  const body = await readBody(req);
+
+  if (req.method === "POST" && req.url === "/mpesa/stkpush/v1/processrequest") {
+    const phone = String(body.PhoneNumber || body.PartyA || "");
+    if (!/^254\d{9}$/.test(phone)) {
+      return send(res, 400, {
+        errorCode: "400.002.02",
+        errorMessage: "Bad Request - Invalid PhoneNumber",
+      });
+    }
+
+    const checkoutRequestID = `ws_CO_${Date.now()}${crypto.randomInt(1000, 9999)}`;
+    const checkout = {
+      createdAt: Date.now(),
+      scenario: phone.slice(-1),
+      receipt: receiptNumber(),
+    };
+    checkouts.set(checkoutRequestID, checkout);
+    console.log(`STK push ${checkoutRequestID} -> ${phone} (KSH ${body.Amount})`);
+    if (REALTIME_URL && SCENARIOS[checkout.scenario] !== null) {
+      setTimeout(() => publishResult(checkoutRequestID, checkout), DELAY_MS);
+    }
+
+    return send(res, 200, {
+      MerchantRequestID: crypto.randomUUID(),
+      CheckoutRequestID: checkoutRequestID,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    });
+  }
+
+  if (req.method === "POST" && req.url === "/mpesa/stkpushquery/v1/query") {
+    const checkout = checkouts.get(body.CheckoutRequestID);
+    if (!checkout) {
+      return send(res, 404, {
+        errorCode: "404.001.04",
+        errorMessage: "Invalid CheckoutRequestID",
+      });
+    }
+
+    const outcome = SCENARIOS[checkout.scenario];
+    if (Date.now() - checkout.createdAt < DELAY_MS || outcome === null) {
+      return send(res, 500, {
+        errorCode: "500.001.1001",
+        errorMessage: "The transaction is being processed",
+      });
+    }
+
+    return send(res, 200, resultFor(body.CheckoutRequestID, checkout));
+  }
+
+  send(res, 404, { errorMessage: `No mock for ${req.method} ${req.url}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Daraja listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal local stand-in for the parking backend's realtime channel, for
+ * exercising pushed payment results, session updates and enforcement
+ * notices, and the app's reconnect/heartbeat handling.
+ *
+ * WebSocket (ws://localhost:4030?token=...):
+ *   -> { type: "subscribe" | "unsubscribe", topic }   <- { type: "event", topic, data }
+ *   -> { type: "ping" }                                <- { type: "pong" }
+ * A missing token is refused with close code 4001. Subscribing replays the
+ * latest event published on the topic, as the real backend does.
+ *
+ * HTTP, for tests and the other mock servers:
+ *   POST /publish   { topic, data }   push an event to subscribers
+ *   POST /drop                        cut every connection, to try reconnecting
+ *
+ * Topics: payments:<CheckoutRequestID>, sessions:<userId>,
+ * enforcement:<userId>. Set MOCK_REALTIME_URL=http://localhost:4030 when
+ * running mock-daraja and mock-api to have them publish here.
+ *
+ * Environment: PORT (default 4030), MOCK_REALTIME_NO_PONG=1 to ignore pings,
+ * so the app's heartbeat gives up on the connection.
+ */
+
+const http = require("http");
+const { WebSocketServer } = require("ws");
+
+const PORT = Number(process.env.PORT || 4030);
+const NO_PONG = process.env.MOCK_REALTIME_NO_PONG === "1";
+
+const latest = new Map();
+const subscriptions = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const push = (socket, topic, data) =>
+  socket.send(JSON.stringify({ type: "event", topic, data }));
+
+const server = http.createServer(async (req, res) => {
+  const body = await readBody(req);
+
+  if (req.method === "POST" && req.url === "/publish") {
+    if (typeof body.topic !== "string") {
+      return send(res, 400, { errorMessage: "topic is required" });
+    }
+    latest.set(body.topic, body.data);
+    const subscribers = [...(subscriptions.get(body.topic) || [])];
+    subscribers.forEach((socket) => push(socket, body.topic, body.data));
+    console.log(`Published ${body.topic} to ${subscribers.length} subscriber(s)`);
+    return send(res, 200, { delivered: subscribers.length });
+  }
+
+  if (req.method === "POST" && req.url === "/drop") {
+    wss.clients.forEach((socket) => socket.terminate());
+    console.log("Dropped every connection");
+    return send(res, 200, {});
+  }
+
+  send(res, 404, { errorMessage: `No mock for ${req.method} ${req.url}` });
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on("connection", (socket, req) => {
+  const token = new URL(req.url, "http://localhost").searchParams.get("token");
+  if (!token) {
+    socket.close(4001, "Missing access token");
+    return;
+  }
+
+  const topics = new Set();
+  console.log(`Client connected (${wss.clients.size} open)`);
+
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    if (message.type === "ping") {
+      if (!NO_PONG) socket.send(JSON.stringify({ type: "pong" }));
+      return;
+    }
+
+    if (message.type === "subscribe" && typeof message.topic === "string") {
+      topics.add(message.topic);
+      if (!subscriptions.has(message.topic)) subscriptions.set(message.topic, new Set());
+      subscriptions.get(message.topic).add(socket);
+      if (latest.has(message.topic)) push(socket, message.topic, latest.get(message.topic));
+      return;
+    }
+
+    if (message.type === "unsubscribe" && typeof message.topic === "string") {
+      topics.delete(message.topic);
+      subscriptions.get(message.topic)?.delete(socket);
+    }
+  });
+
+  socket.on("close", () => {
+    topics.forEach((topic) => subscriptions.get(topic)?.delete(socket));
+    console.log(`Client disconnected (${wss.clients.size} open)`);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime listening on ws://localhost:${PORT}`);
+});
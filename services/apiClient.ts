@@ -0,0 +1,44 @@
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+
+import { API_URL, REQUEST_TIMEOUT_MS } from '@/constants/api';
+import { authStore } from '@/services/authStore';
+
+/**
+ * Shared axios instance for calls made on the driver's behalf. Every request
+ * carries the current access token; a 401 triggers one refresh and a single
+ * retry before the error reaches the caller.
+ *
+ * Paths are relative to `API_URL`; absolute URLs (e.g. a separate payments
+ * host) still get the token. Call endpoints through `apiRequest` rather than
+ * using the instance directly.
+ */
+export const apiClient = axios.create({
+  baseURL: API_URL,
+  timeout: REQUEST_TIMEOUT_MS,
+});
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+apiClient.interceptors.request.use(async (config) => {
+  const accessToken = await authStore.getAccessToken();
+  if (accessToken) {
+    config.headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(undefined, async (error) => {
+  const config: RetriableRequestConfig | undefined = axios.isAxiosError(error) ? error.config : undefined;
+  // The token may have been revoked or expired early; only ever retry once
+  if (!config || config._retried || error.response?.status !== 401) {
+    throw error;
+  }
+
+  config._retried = true;
+  const accessToken = await authStore.refresh();
+  if (!accessToken) {
+    throw error;
+  }
+  config.headers.set('Authorization', `Bearer ${accessToken}`);
+  return apiClient(config);
+});
@@ -0,0 +1,135 @@
+import axios, { type AxiosInstance, type AxiosRequestConfig } from 'axios';
+import 'react-native-get-random-values';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+import { API_URL, REQUEST_TIMEOUT_MS } from '@/constants/api';
+import { translate, type MessageKey } from '@/utils/i18n';
+import { wait } from '@/utils/wait';
+
+/**
+ * How the app talks to its backends. Every response is checked against a
+ * schema before callers see it, calls that are safe to repeat are retried
+ * with backoff, and every failure is an `ApiError` whose message can go
+ * straight to the UI.
+ */
+
+export type ApiErrorKind = 'network' | 'timeout' | 'cancelled' | 'http' | 'invalid_response';
+
+const ERROR_MESSAGES: Record<ApiErrorKind, MessageKey> = {
+  network: 'api.networkError',
+  timeout: 'api.timeout',
+  cancelled: 'api.cancelled',
+  http: 'api.serverError',
+  invalid_response: 'api.invalidResponse',
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export class ApiError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string = translate(ERROR_MESSAGES[kind]),
+    /** HTTP status, when the server answered */
+    readonly status: number | null = null,
+    /** Machine-readable reason from the error body, e.g. "invalid_code" */
+    readonly code: string | null = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  /** The request may not have reached the server, or the server was briefly unable to handle it */
+  get retryable(): boolean {
+    return (
+      this.kind === 'network' ||
+      this.kind === 'timeout' ||
+      (this.status !== null && RETRYABLE_STATUSES.has(this.status))
+    );
+  }
+}
+
+/** True for requests abandoned on purpose, which callers should ignore rather than report */
+export const isCancelled = (error: unknown) => error instanceof ApiError && error.kind === 'cancelled';
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) return new ApiError('cancelled');
+  if (!axios.isAxiosError(error)) return new ApiError('network');
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return new ApiError('timeout');
+  if (!error.response) return new ApiError('network');
+
+  const { status, data } = error.response;
+  // Backends word `errorMessage` for the customer; fall back to a generic one
+  return new ApiError(
+    'http',
+    typeof data?.errorMessage === 'string' ? data.errorMessage : undefined,
+    status,
+    typeof data?.errorCode === 'string' ? data.errorCode : null
+  );
+};
+
+/** Random UUID identifying one logical write across its retries */
+export const createIdempotencyKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/** Client for endpoints that need no signed-in driver, such as signing in */
+export const publicClient = axios.create({
+  baseURL: API_URL,
+  timeout: REQUEST_TIMEOUT_MS,
+});
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+  /** Safe to send more than once; defaults to true for GETs and writes carrying an idempotency key */
+  idempotent?: boolean;
+  /** Sent as `Idempotency-Key` so the server can recognise a retried write */
+  idempotencyKey?: string;
+}
+
+/** Exponential backoff with jitter so clients that failed together don't retry together */
+const getRetryDelay = (attempt: number) =>
+  RETRY_BASE_DELAY_MS * Math.pow(2, attempt) + Math.random() * RETRY_BASE_DELAY_MS;
+
+/**
+ * Send a request and return its body, validated by `schema`. Throws
+ * `ApiError`; a body that doesn't match the schema is an `invalid_response`
+ * and is never retried.
+ */
+export const apiRequest = async <T>(
+  client: AxiosInstance,
+  config: AxiosRequestConfig,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  { signal, idempotent, idempotencyKey }: ApiRequestOptions = {}
+): Promise<T> => {
+  const method = (config.method ?? 'get').toLowerCase();
+  const attempts = (idempotent ?? (method === 'get' || idempotencyKey !== undefined)) ? MAX_ATTEMPTS : 1;
+  const headers = idempotencyKey ? { ...config.headers, 'Idempotency-Key': idempotencyKey } : config.headers;
+
+  for (let attempt = 0; ; attempt++) {
+    let data: unknown;
+    try {
+      ({ data } = await client.request({ ...config, headers, signal }));
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (attempt + 1 >= attempts || !apiError.retryable || signal?.aborted) {
+        throw apiError;
+      }
+      await wait(getRetryDelay(attempt), signal);
+      continue;
+    }
+
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      console.error(`Error validating response from ${config.url}:`, parsed.error);
+      throw new ApiError('invalid_response');
+    }
+    return parsed.data;
+  }
+};
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import { apiRequest, publicClient } from '@/services/apiRequest';
+
+/**
+ * Sign-in endpoints of the parking backend. They need no access token, so
+ * they use the public client and a failed refresh can't trigger another.
+ */
+
+const otpChallengeSchema = z.object({
+  requestId: z.string(),
+  /** Seconds until the code stops working */
+  expiresIn: z.number(),
+  /** Seconds before another code may be sent */
+  resendIn: z.number(),
+});
+
+const tokenSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+  /** Seconds the access token is valid for */
+  expiresIn: z.number().positive(),
+});
+
+const userSchema = z.object({
+  id: z.string(),
+  phoneNumber: z.string(),
+  role: z.enum(['driver', 'officer']).default('driver'),
+  zoneIds: z.array(z.string()).default([]),
+});
+
+const signInSchema = tokenSchema.extend({ user: userSchema });
+
+export type TokenResponse = z.infer<typeof tokenSchema>;
+
+export const authApi = {
+  requestOtp: (phoneNumber: string, signal?: AbortSignal) =>
+    apiRequest(
+      publicClient,
+      { method: 'post', url: '/auth/otp/request', data: { phoneNumber } },
+      otpChallengeSchema,
+      { signal }
+    ),
+
+  verifyOtp: (requestId: string, code: string, signal?: AbortSignal) =>
+    apiRequest(
+      publicClient,
+      { method: 'post', url: '/auth/otp/verify', data: { requestId, code } },
+      signInSchema,
+      { signal }
+    ),
+
+  // Refresh tokens are single use: a retry after the server consumed one would sign the driver out
+  refresh: (refreshToken: string) =>
+    apiRequest(publicClient, { method: 'post', url: '/auth/refresh', data: { refreshToken } }, tokenSchema),
+
+  logout: (refreshToken: string) =>
+    apiRequest(publicClient, { method: 'post', url: '/auth/logout', data: { refreshToken } }, z.unknown()),
+};
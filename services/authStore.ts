@@ -0,0 +1,198 @@
+import { authApi, type TokenResponse } from '@/services/authApi';
+import { ApiError, toApiError } from '@/services/apiRequest';
+import { toastStore } from '@/services/toastStore';
+import { tokenStorage, type AuthTokens, type AuthUser } from '@/services/tokenStorage';
+import { translate, type MessageKey } from '@/utils/i18n';
+import { toE164 } from '@/utils/phoneNumber';
+
+/**
+ * Who is signed in. Drivers sign in with their phone number and a one-time
+ * code sent by SMS; the backend answers with a short-lived access token and a
+ * refresh token, which `apiClient` trades for a new pair when the access
+ * token runs out.
+ */
+
+export type AuthStatus = 'loading' | 'signedOut' | 'signedIn';
+
+export interface AuthState {
+  status: AuthStatus;
+  user: AuthUser | null;
+}
+
+export interface OtpChallenge {
+  requestId: string;
+  /** E.164, e.g. "+254712345678" */
+  phoneNumber: string;
+  /** Epoch ms after which the code no longer works */
+  expiresAt: number;
+  /** Epoch ms before which another code can't be sent */
+  resendAt: number;
+}
+
+// Refresh a little early so a request never leaves with a token about to lapse
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  invalid_phone: 'auth.invalidPhone',
+  invalid_code: 'auth.invalidCode',
+  code_expired: 'auth.codeExpired',
+  too_many_attempts: 'auth.tooManyAttempts',
+  rate_limited: 'auth.rateLimited',
+};
+
+let state: AuthState = { status: 'loading', user: null };
+let tokens: AuthTokens | null = null;
+let loading: Promise<AuthState> | null = null;
+let refreshing: Promise<string | null> | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (next: AuthState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+/** The backend's reason for refusing, worded for the driver */
+const toAuthError = (error: unknown): ApiError => {
+  const apiError = toApiError(error);
+  if (apiError.kind !== 'http') return apiError;
+  const key = (apiError.code && ERROR_MESSAGES[apiError.code]) || 'auth.failed';
+  return new ApiError('http', translate(key), apiError.status, apiError.code);
+};
+
+const toTokens = (data: TokenResponse): AuthTokens => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  accessTokenExpiresAt: Date.now() + data.expiresIn * 1000,
+});
+
+const startSession = async (nextTokens: AuthTokens, user: AuthUser) => {
+  tokens = nextTokens;
+  await tokenStorage.save({ tokens: nextTokens, user });
+  setState({ status: 'signedIn', user });
+};
+
+const endSession = async () => {
+  tokens = null;
+  await tokenStorage.clear();
+  setState({ status: 'signedOut', user: null });
+};
+
+export const authStore = {
+  /** Restore the stored session once; later calls share the same result */
+  load(): Promise<AuthState> {
+    if (!loading) {
+      loading = (async () => {
+        const session = await tokenStorage.load();
+        if (session) {
+          tokens = session.tokens;
+          // Sessions saved before roles existed belong to drivers
+          const { user } = session;
+          setState({
+            status: 'signedIn',
+            user: { ...user, role: user.role ?? 'driver', zoneIds: user.zoneIds ?? [] },
+          });
+        } else {
+          setState({ status: 'signedOut', user: null });
+        }
+        return state;
+      })();
+    }
+    return loading;
+  },
+
+  get(): AuthState {
+    return state;
+  },
+
+  /** Text a code to the number. Throws if the number is invalid or the backend refuses */
+  async requestOtp(input: string, signal?: AbortSignal): Promise<OtpChallenge> {
+    const phoneNumber = toE164(input);
+    if (!phoneNumber) {
+      throw new Error(translate('auth.invalidPhone'));
+    }
+
+    try {
+      const data = await authApi.requestOtp(phoneNumber, signal);
+      const now = Date.now();
+      return {
+        requestId: data.requestId,
+        phoneNumber,
+        expiresAt: now + data.expiresIn * 1000,
+        resendAt: now + data.resendIn * 1000,
+      };
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  },
+
+  /** Sign in with the code from the SMS. Throws if the code is wrong or expired */
+  async verifyOtp(requestId: string, code: string, signal?: AbortSignal): Promise<AuthUser> {
+    try {
+      const data = await authApi.verifyOtp(requestId, code.trim(), signal);
+      await startSession(toTokens(data), data.user);
+      return data.user;
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  },
+
+  /** Access token for the next request, refreshed first if it is about to expire */
+  async getAccessToken(): Promise<string | null> {
+    if (!tokens) return null;
+    if (tokens.accessTokenExpiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+    return authStore.refresh();
+  },
+
+  /**
+   * Trade the refresh token for a new pair; concurrent callers share one
+   * request. If the backend rejects the refresh token the driver is signed
+   * out, but a network failure keeps the session for the next attempt.
+   */
+  refresh(): Promise<string | null> {
+    if (!refreshing) {
+      refreshing = (async () => {
+        const current = tokens;
+        const user = state.user;
+        if (!current || !user) return null;
+
+        try {
+          const data = await authApi.refresh(current.refreshToken);
+          // Signed out while the request was in flight
+          if (tokens !== current) return null;
+          await startSession(toTokens(data), user);
+          return data.accessToken;
+        } catch (error) {
+          const apiError = toApiError(error);
+          if (apiError.status === 401 || apiError.status === 400) {
+            await endSession();
+            toastStore.info(translate('auth.sessionExpired'));
+          } else {
+            console.error('Error refreshing session:', error);
+          }
+          return null;
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  },
+
+  async signOut(): Promise<void> {
+    const current = tokens;
+    await endSession();
+    if (current) {
+      // Revoking is best effort; the tokens are already gone from the device
+      authApi.logout(current.refreshToken).catch((error) => console.error('Error revoking session:', error));
+    }
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
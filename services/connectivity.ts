@@ -0,0 +1,46 @@
+import * as Network from 'expo-network';
+
+/**
+ * Whether the device can reach the internet, kept current from the OS so
+ * services and screens can check it or re-render when it changes.
+ *
+ * Starts out online: until the OS has answered, assume the best rather than
+ * block the driver on launch.
+ */
+
+let online = true;
+let started = false;
+const listeners = new Set<() => void>();
+
+const isReachable = (state: Network.NetworkState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+const update = (state: Network.NetworkState) => {
+  const next = isReachable(state);
+  if (next === online) return;
+  online = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const connectivity = {
+  /** Begin following the OS network state; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    Network.addNetworkStateListener(update);
+    Network.getNetworkStateAsync()
+      .then(update)
+      .catch((error) => console.error('Error reading network state:', error));
+  },
+
+  isOnline(): boolean {
+    return online;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
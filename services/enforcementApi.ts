@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+import { apiClient } from '@/services/apiClient';
+import { apiRequest } from '@/services/apiRequest';
+import type { Violation } from '@/services/violationStore';
+
+/**
+ * Endpoints for parking enforcement officers. The backend only answers for
+ * officers, and only for the zones they patrol.
+ */
+
+const coordsSchema = z.object({ latitude: z.number(), longitude: z.number() });
+
+const enforcementSessionSchema = z.object({
+  id: z.string(),
+  plate: z.string(),
+  zoneId: z.string().nullable(),
+  startedAt: z.number(),
+  /** End of prepaid time; null when the driver pays on leaving */
+  paidUntil: z.number().nullable(),
+  coords: coordsSchema.nullable(),
+});
+
+const plateLookupSchema = z.object({ session: enforcementSessionSchema.nullable() });
+
+const zoneSessionsSchema = z.object({ sessions: z.array(enforcementSessionSchema) });
+
+const violationReceiptSchema = z.object({ id: z.string() });
+
+export type EnforcementSession = z.infer<typeof enforcementSessionSchema>;
+
+export const enforcementApi = {
+  /** The active session for a plate, or null if the vehicle isn't parked on the app */
+  lookupPlate: async (plate: string, signal?: AbortSignal) =>
+    (
+      await apiRequest(
+        apiClient,
+        { method: 'get', url: '/enforcement/sessions', params: { plate } },
+        plateLookupSchema,
+        { signal }
+      )
+    ).session,
+
+  zoneSessions: async (zoneId: string, signal?: AbortSignal) =>
+    (
+      await apiRequest(
+        apiClient,
+        { method: 'get', url: `/enforcement/zones/${encodeURIComponent(zoneId)}/sessions` },
+        zoneSessionsSchema,
+        { signal }
+      )
+    ).sessions,
+
+  /** Upload a logged violation with its photo; the violation id makes resends safe */
+  reportViolation: (violation: Violation) => {
+    const form = new FormData();
+    form.append(
+      'violation',
+      JSON.stringify({
+        id: violation.id,
+        plate: violation.plate,
+        zoneId: violation.zoneId,
+        sessionId: violation.sessionId,
+        notes: violation.notes,
+        coords: violation.coords,
+        loggedAt: violation.loggedAt,
+      })
+    );
+    if (violation.photoUri) {
+      // React Native uploads a file from a { uri, name, type } part
+      form.append('photo', {
+        uri: violation.photoUri,
+        name: `${violation.id}.jpg`,
+        type: 'image/jpeg',
+      } as unknown as Blob);
+    }
+
+    return apiRequest(
+      apiClient,
+      {
+        method: 'post',
+        url: '/enforcement/violations',
+        data: form,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        // Photos take a while on a weak connection
+        timeout: 60 * 1000,
+      },
+      violationReceiptSchema,
+      { idempotencyKey: violation.id }
+    );
+  },
+};
@@ -0,0 +1,118 @@
+import type { PaymentProvider } from '@/services/paymentProvider';
+import { describeResultCode, type StkQueryResult } from '@/services/mpesaStatus';
+
+/**
+ * In-process stand-in for M-Pesa. Nothing leaves the device: checkouts are
+ * kept in memory and resolve after configurable delays.
+ *
+ * Unless a scenario is forced, the last digit of the phone number picks it,
+ * matching scripts/mock-daraja-server.js:
+ *   0 success, 1 insufficient funds, 2 declined by user,
+ *   3 phone unreachable, 4 wrong PIN, 5 never resolves
+ */
+
+export type FakeScenario =
+  | 'success'
+  | 'insufficient-funds'
+  | 'declined'
+  | 'unreachable'
+  | 'wrong-pin'
+  | 'no-callback';
+
+export interface FakePaymentOptions {
+  /** Delay before the STK push request itself is accepted */
+  acceptDelayMs?: number;
+  /** How long after acceptance the customer "answers" the prompt */
+  callbackDelayMs?: number;
+  /** Force one scenario for every payment */
+  scenario?: FakeScenario;
+}
+
+const SCENARIO_BY_DIGIT: Record<string, FakeScenario> = {
+  '1': 'insufficient-funds',
+  '2': 'declined',
+  '3': 'unreachable',
+  '4': 'wrong-pin',
+  '5': 'no-callback',
+};
+
+const RESULT_CODE_BY_SCENARIO: Record<Exclude<FakeScenario, 'no-callback'>, number> = {
+  success: 0,
+  'insufficient-funds': 1,
+  declined: 1032,
+  unreachable: 1037,
+  'wrong-pin': 2001,
+};
+
+interface FakeCheckout {
+  scenario: FakeScenario;
+  resolvesAt: number;
+  receipt: string;
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const fakeReceipt = () =>
+  `FK${Math.random().toString(36).slice(2, 10).toUpperCase()}`;
+
+export const createFakePaymentProvider = ({
+  acceptDelayMs = 800,
+  callbackDelayMs = 6 * 1000,
+  scenario,
+}: FakePaymentOptions = {}): PaymentProvider => {
+  const checkouts = new Map<string, FakeCheckout>();
+
+  return {
+    name: 'fake',
+
+    async requestStkPush(request, signal) {
+      await delay(acceptDelayMs, signal);
+
+      if (!/^254\d{9}$/.test(request.phoneNumber)) {
+        throw new Error('Bad Request - Invalid PhoneNumber');
+      }
+
+      const checkoutRequestID = `ws_CO_FAKE_${Date.now()}`;
+      checkouts.set(checkoutRequestID, {
+        scenario: scenario ?? SCENARIO_BY_DIGIT[request.phoneNumber.slice(-1)] ?? 'success',
+        resolvesAt: Date.now() + callbackDelayMs,
+        receipt: fakeReceipt(),
+      });
+
+      return {
+        checkoutRequestID,
+        merchantRequestID: `FAKE-${checkoutRequestID}`,
+        customerMessage: 'Success. Request accepted for processing',
+      };
+    },
+
+    async queryStatus(checkoutRequestID): Promise<StkQueryResult> {
+      const checkout = checkouts.get(checkoutRequestID);
+      if (!checkout) {
+        throw new Error(`Unknown checkout ${checkoutRequestID}`);
+      }
+
+      if (checkout.scenario === 'no-callback' || Date.now() < checkout.resolvesAt) {
+        return { outcome: 'pending', resultCode: null, message: '', mpesaReceiptNumber: null };
+      }
+
+      const resultCode = RESULT_CODE_BY_SCENARIO[checkout.scenario];
+      return {
+        ...describeResultCode(resultCode),
+        resultCode,
+        mpesaReceiptNumber: resultCode === 0 ? checkout.receipt : null,
+      };
+    },
+  };
+};
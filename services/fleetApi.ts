@@ -0,0 +1,150 @@
+import { z } from 'zod';
+
+import { apiClient } from '@/services/apiClient';
+import { apiRequest } from '@/services/apiRequest';
+
+/**
+ * Fleet (company) accounts. An organization owns vehicles and authorises its
+ * members to park them; parking a fleet vehicle is billed to the company and
+ * invoiced monthly instead of paid by the driver over M-Pesa. Everything but
+ * `list` and `bill` is for fleet admins only.
+ */
+
+const fleetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** The signed-in user's role in this fleet */
+  role: z.enum(['admin', 'member']),
+  /** Plates of the vehicles the fleet owns, in display form */
+  vehicles: z.array(z.string()),
+});
+
+const fleetListSchema = z.object({ fleets: z.array(fleetSchema) });
+
+const memberSchema = z.object({
+  /** E.164, e.g. "+254712345678" */
+  phoneNumber: z.string(),
+  role: z.enum(['admin', 'member']),
+});
+
+const memberListSchema = z.object({ members: z.array(memberSchema) });
+
+const chargeSchema = z.object({
+  id: z.string(),
+  /** Shown to the driver and on the invoice in place of an M-Pesa receipt */
+  reference: z.string(),
+  /** What the backend priced the session at */
+  amount: z.number(),
+});
+
+const spendLineSchema = z.object({ amount: z.number(), sessions: z.number() });
+
+const spendSchema = z.object({
+  month: z.string(),
+  total: z.number(),
+  sessions: z.number(),
+  drivers: z.array(spendLineSchema.extend({ phoneNumber: z.string() })),
+  vehicles: z.array(spendLineSchema.extend({ plate: z.string() })),
+});
+
+const invoiceSchema = z.object({
+  number: z.string(),
+  fleetName: z.string(),
+  month: z.string(),
+  issuedAt: z.number(),
+  charges: z.array(
+    z.object({
+      reference: z.string(),
+      plate: z.string(),
+      phoneNumber: z.string(),
+      zoneId: z.string().nullable(),
+      startedAt: z.number(),
+      endedAt: z.number(),
+      amount: z.number(),
+    })
+  ),
+  total: z.number(),
+});
+
+export type Fleet = z.infer<typeof fleetSchema>;
+export type FleetMember = z.infer<typeof memberSchema>;
+export type FleetCharge = z.infer<typeof chargeSchema>;
+export type FleetSpend = z.infer<typeof spendSchema>;
+export type FleetInvoice = z.infer<typeof invoiceSchema>;
+
+export interface FleetChargeRequest {
+  /** The session being billed, priced by the backend; also makes retrying the charge safe */
+  sessionId: string;
+  plate: string;
+}
+
+const fleetUrl = (fleetId: string, path = '') => `/fleets/${encodeURIComponent(fleetId)}${path}`;
+
+export const fleetApi = {
+  /** Fleets the signed-in user belongs to */
+  list: async (signal?: AbortSignal) =>
+    (await apiRequest(apiClient, { method: 'get', url: '/fleets' }, fleetListSchema, { signal })).fleets,
+
+  /** Bill a finished session to the company; refused if the driver isn't authorised for the vehicle */
+  bill: (fleetId: string, charge: FleetChargeRequest) =>
+    apiRequest(
+      apiClient,
+      { method: 'post', url: fleetUrl(fleetId, '/charges'), data: charge },
+      chargeSchema,
+      { idempotencyKey: charge.sessionId }
+    ),
+
+  /** Spend for a calendar month, e.g. "2026-10", per driver and per vehicle */
+  spend: (fleetId: string, month: string, signal?: AbortSignal) =>
+    apiRequest(apiClient, { method: 'get', url: fleetUrl(fleetId, '/spend'), params: { month } }, spendSchema, {
+      signal,
+    }),
+
+  invoice: (fleetId: string, month: string, signal?: AbortSignal) =>
+    apiRequest(
+      apiClient,
+      { method: 'get', url: fleetUrl(fleetId, `/invoices/${encodeURIComponent(month)}`) },
+      invoiceSchema,
+      { signal }
+    ),
+
+  addVehicle: (fleetId: string, plate: string) =>
+    apiRequest(
+      apiClient,
+      { method: 'post', url: fleetUrl(fleetId, '/vehicles'), data: { plate } },
+      fleetSchema,
+      { idempotent: true }
+    ),
+
+  removeVehicle: (fleetId: string, plate: string) =>
+    apiRequest(
+      apiClient,
+      { method: 'delete', url: fleetUrl(fleetId, `/vehicles/${encodeURIComponent(plate)}`) },
+      fleetSchema,
+      { idempotent: true }
+    ),
+
+  members: async (fleetId: string, signal?: AbortSignal) =>
+    (await apiRequest(apiClient, { method: 'get', url: fleetUrl(fleetId, '/members') }, memberListSchema, { signal }))
+      .members,
+
+  addMember: async (fleetId: string, phoneNumber: string) =>
+    (
+      await apiRequest(
+        apiClient,
+        { method: 'post', url: fleetUrl(fleetId, '/members'), data: { phoneNumber } },
+        memberListSchema,
+        { idempotent: true }
+      )
+    ).members,
+
+  removeMember: async (fleetId: string, phoneNumber: string) =>
+    (
+      await apiRequest(
+        apiClient,
+        { method: 'delete', url: fleetUrl(fleetId, `/members/${encodeURIComponent(phoneNumber)}`) },
+        memberListSchema,
+        { idempotent: true }
+      )
+    ).members,
+};
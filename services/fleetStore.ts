@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+import { toApiError } from '@/services/apiRequest';
+import { authStore } from '@/services/authStore';
+import { connectivity } from '@/services/connectivity';
+import { fleetApi, type Fleet } from '@/services/fleetApi';
+import { normalizePlate } from '@/utils/plateValidator';
+
+/**
+ * Fleets the signed-in user belongs to, kept on the device so a fleet
+ * vehicle is still recognised after a restart without signal. Refreshed
+ * from the backend on sign-in, when connectivity returns and when the app
+ * comes back to the foreground; forgotten on sign-out.
+ */
+
+const STORAGE_KEY = '@kenpark/fleets';
+
+let fleets: Fleet[] = [];
+let loading: Promise<Fleet[]> | null = null;
+let refreshing: Promise<void> | null = null;
+let started = false;
+const listeners = new Set<() => void>();
+
+const load = (): Promise<Fleet[]> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw) fleets = JSON.parse(raw) as Fleet[];
+      } catch (error) {
+        console.error('Error reading fleets:', error);
+      }
+      listeners.forEach((listener) => listener());
+      return fleets;
+    })();
+  }
+  return loading;
+};
+
+const write = async (next: Fleet[]) => {
+  fleets = next;
+  listeners.forEach((listener) => listener());
+  try {
+    if (next.length > 0) {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving fleets:', error);
+  }
+};
+
+/** The fleet among `fleets` that owns this plate, if any */
+export const findFleetByPlate = (fleets: Fleet[], plate: string | null | undefined): Fleet | null => {
+  if (!plate) return null;
+  const normalized = normalizePlate(plate);
+  return fleets.find((fleet) => fleet.vehicles.some((item) => normalizePlate(item) === normalized)) ?? null;
+};
+
+const isSignedIn = () => authStore.get().status === 'signedIn';
+
+const syncWithAuth = () => {
+  if (isSignedIn()) {
+    fleetStore.refresh();
+  } else if (fleets.length > 0) {
+    write([]);
+  }
+};
+
+export const fleetStore = {
+  /** Follow sign-in and connectivity; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    connectivity.start();
+    authStore.subscribe(syncWithAuth);
+    connectivity.subscribe(() => {
+      if (connectivity.isOnline()) fleetStore.refresh();
+    });
+    AppState.addEventListener('change', (status) => {
+      if (status === 'active') fleetStore.refresh();
+    });
+    Promise.all([load(), authStore.load()]).then(syncWithAuth);
+  },
+
+  getAll(): Fleet[] {
+    return fleets;
+  },
+
+  /** Fetch memberships again; keeps the stored copy if the backend can't be reached */
+  refresh(): Promise<void> {
+    if (!refreshing) {
+      refreshing = (async () => {
+        await load();
+        if (!isSignedIn() || !connectivity.isOnline()) return;
+        try {
+          await write(await fleetApi.list());
+        } catch (error) {
+          console.error('Error refreshing fleets:', toApiError(error));
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  },
+
+  /** Replace one fleet with the backend's copy after an admin changed it */
+  async update(fleet: Fleet): Promise<void> {
+    await load();
+    await write(fleets.map((item) => (item.id === fleet.id ? fleet : item)));
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
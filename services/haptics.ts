@@ -0,0 +1,18 @@
+import * as Haptics from 'expo-haptics';
+
+import { settingsStore } from '@/services/settingsStore';
+
+/**
+ * Haptic feedback that respects the on/off switch in Settings.
+ */
+export const haptics = {
+  impact(style: Haptics.ImpactFeedbackStyle = Haptics.ImpactFeedbackStyle.Light) {
+    if (!settingsStore.get().haptics) return;
+    Haptics.impactAsync(style).catch(() => {});
+  },
+
+  notify(type: Haptics.NotificationFeedbackType) {
+    if (!settingsStore.get().haptics) return;
+    Haptics.notificationAsync(type).catch(() => {});
+  },
+};
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { SessionCoords } from '@/services/sessionStore';
+import type { TariffLine } from '@/utils/tariff';
+
+/**
+ * Local record of completed (paid) parking sessions, newest first.
+ */
+
+const STORAGE_KEY = '@kenpark/parking-history';
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export interface CompletedSession {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  durationSeconds: number;
+  coords: SessionCoords | null;
+  /** Human readable place name, when one was resolved */
+  locationName: string | null;
+  amount: number;
+  /** M-Pesa receipt, or the fleet charge reference when billed to a company */
+  mpesaReceipt: string;
+  /** Fleet the session was billed to instead of paid by the driver */
+  billedTo?: string | null;
+  vehiclePlate: string | null;
+  zoneName: string | null;
+  /** Itemized charges, when the amount paid matches a tariff quote */
+  tariffLines: TariffLine[] | null;
+}
+
+export interface HistoryFilter {
+  /** Only sessions that started at or after this time (epoch ms) */
+  from?: number;
+  /** Only sessions that started before this time (epoch ms) */
+  to?: number;
+  vehiclePlate?: string | null;
+}
+
+export interface HistoryPage {
+  sessions: CompletedSession[];
+  hasMore: boolean;
+}
+
+const readAll = async (): Promise<CompletedSession[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CompletedSession[]) : [];
+  } catch (error) {
+    console.error('Error reading parking history:', error);
+    return [];
+  }
+};
+
+const matches = (session: CompletedSession, filter: HistoryFilter) =>
+  (filter.from === undefined || session.startedAt >= filter.from) &&
+  (filter.to === undefined || session.startedAt < filter.to) &&
+  (!filter.vehiclePlate || session.vehiclePlate === filter.vehiclePlate);
+
+export const historyStore = {
+  async add(session: CompletedSession): Promise<void> {
+    try {
+      const sessions = await readAll();
+      const next = [session, ...sessions.filter((item) => item.id !== session.id)];
+      next.sort((a, b) => b.startedAt - a.startedAt);
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving parking history:', error);
+    }
+  },
+
+  async getPage(
+    filter: HistoryFilter = {},
+    offset = 0,
+    limit: number = HISTORY_PAGE_SIZE
+  ): Promise<HistoryPage> {
+    const filtered = (await readAll()).filter((session) => matches(session, filter));
+    return {
+      sessions: filtered.slice(offset, offset + limit),
+      hasMore: offset + limit < filtered.length,
+    };
+  },
+
+  /** Every matching session, oldest first, e.g. for expense exports */
+  async getAll(filter: HistoryFilter = {}): Promise<CompletedSession[]> {
+    return (await readAll())
+      .filter((session) => matches(session, filter))
+      .reverse();
+  },
+
+  async getById(id: string): Promise<CompletedSession | null> {
+    const sessions = await readAll();
+    return sessions.find((session) => session.id === id) ?? null;
+  },
+
+  /** Distinct plates that appear in the history, for filter options */
+  async getVehiclePlates(): Promise<string[]> {
+    const plates = new Set<string>();
+    (await readAll()).forEach((session) => {
+      if (session.vehiclePlate) plates.add(session.vehiclePlate);
+    });
+    return Array.from(plates).sort();
+  },
+};
@@ -0,0 +1,272 @@
+import { paymentsApi, stkQuerySchema, type StkQueryResponse } from '@/services/paymentsApi';
+import { realtime, realtimeTopics } from '@/services/realtime';
+import { translate, type MessageKey } from '@/utils/i18n';
+import { wait } from '@/utils/wait';
+
+/**
+ * M-Pesa STK push lifecycle: the payment state machine, Daraja result code
+ * mapping, and waiting for the result — pushed over the realtime channel,
+ * with status polling with backoff whenever the channel is down.
+ *
+ * Kept free of React so the same logic can drive `usePayment`, launch-time
+ * reconciliation and tests against the local mock Daraja server
+ * (`node scripts/mock-daraja-server.js`).
+ */
+
+export type PaymentPhase =
+  | 'idle'
+  | 'initiated'
+  | 'pending'
+  | 'polling'
+  | 'success'
+  | 'failed'
+  | 'cancelled'
+  | 'timeout';
+
+export type PaymentOutcome = 'success' | 'failed' | 'cancelled' | 'timeout';
+
+export interface PaymentState {
+  phase: PaymentPhase;
+  checkoutRequestID: string | null;
+  mpesaReceiptNumber: string | null;
+  resultCode: number | null;
+  message: string | null;
+  pollAttempts: number;
+}
+
+export type PaymentEvent =
+  | { type: 'INITIATE' }
+  | { type: 'ACCEPTED'; checkoutRequestID: string }
+  | { type: 'POLL'; attempt: number }
+  | { type: 'RESOLVED'; result: StkQueryResult }
+  | { type: 'TIMEOUT' }
+  | { type: 'ERROR'; message: string }
+  | { type: 'RESET' };
+
+export interface StkQueryResult {
+  /** 'pending' while Safaricom is still waiting on the customer */
+  outcome: PaymentOutcome | 'pending';
+  resultCode: number | null;
+  message: string;
+  mpesaReceiptNumber: string | null;
+}
+
+export const STK_TIMEOUT_MS = 90 * 1000;
+const POLL_INITIAL_DELAY_MS = 3 * 1000;
+const POLL_MAX_DELAY_MS = 15 * 1000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+// Returned by the STK query endpoint while the prompt is still on the phone
+const STILL_PROCESSING_ERROR = '500.001.1001';
+
+const RESULT_CODES: Record<number, { outcome: PaymentOutcome; message: MessageKey }> = {
+  0: { outcome: 'success', message: 'payment.received' },
+  1: { outcome: 'failed', message: 'payment.insufficientFunds' },
+  17: { outcome: 'failed', message: 'payment.declined' },
+  26: { outcome: 'failed', message: 'payment.mpesaBusy' },
+  1001: { outcome: 'failed', message: 'payment.busy' },
+  1019: { outcome: 'timeout', message: 'payment.expired' },
+  1025: { outcome: 'failed', message: 'payment.promptFailed' },
+  1032: { outcome: 'cancelled', message: 'payment.cancelledOnPhone' },
+  1037: { outcome: 'timeout', message: 'payment.unreachable' },
+  2001: { outcome: 'failed', message: 'payment.wrongPin' },
+  9999: { outcome: 'failed', message: 'payment.promptFailed' },
+};
+
+export const INITIAL_PAYMENT_STATE: PaymentState = {
+  phase: 'idle',
+  checkoutRequestID: null,
+  mpesaReceiptNumber: null,
+  resultCode: null,
+  message: null,
+  pollAttempts: 0,
+};
+
+export const isFinalPhase = (phase: PaymentPhase) =>
+  phase === 'success' || phase === 'failed' || phase === 'cancelled' || phase === 'timeout';
+
+export const describeResultCode = (
+  resultCode: number,
+  fallback?: string
+): { outcome: PaymentOutcome; message: string } => {
+  const known = RESULT_CODES[resultCode];
+  if (known) return { outcome: known.outcome, message: translate(known.message) };
+  return {
+    outcome: 'failed',
+    message: fallback || translate('payment.failedWithCode', { code: resultCode }),
+  };
+};
+
+/**
+ * Pure transition function. Events that make no sense for the current phase
+ * (e.g. a late poll result after a timeout) leave the state unchanged.
+ */
+export const paymentReducer = (state: PaymentState, event: PaymentEvent): PaymentState => {
+  switch (event.type) {
+    case 'INITIATE':
+      return state.phase === 'idle' || isFinalPhase(state.phase)
+        ? { ...INITIAL_PAYMENT_STATE, phase: 'initiated' }
+        : state;
+    case 'ACCEPTED':
+      return state.phase === 'initiated'
+        ? { ...state, phase: 'pending', checkoutRequestID: event.checkoutRequestID }
+        : state;
+    case 'POLL':
+      return state.phase === 'pending' || state.phase === 'polling'
+        ? { ...state, phase: 'polling', pollAttempts: event.attempt }
+        : state;
+    case 'RESOLVED':
+      if (isFinalPhase(state.phase) || state.phase === 'idle' || event.result.outcome === 'pending') {
+        return state;
+      }
+      return {
+        ...state,
+        phase: event.result.outcome,
+        resultCode: event.result.resultCode,
+        message: event.result.message,
+        mpesaReceiptNumber: event.result.mpesaReceiptNumber,
+      };
+    case 'TIMEOUT':
+      return isFinalPhase(state.phase) || state.phase === 'idle'
+        ? state
+        : { ...state, phase: 'timeout', message: translate('payment.noResponse') };
+    case 'ERROR':
+      return state.phase === 'idle' ? state : { ...state, phase: 'failed', message: event.message };
+    case 'RESET':
+      return INITIAL_PAYMENT_STATE;
+  }
+};
+
+export const getPollDelay = (attempt: number): number =>
+  Math.min(POLL_INITIAL_DELAY_MS * Math.pow(POLL_BACKOFF_FACTOR, attempt), POLL_MAX_DELAY_MS);
+
+/** Parse a Daraja STK query response (or error body) into a result */
+export const parseStkQueryResponse = (data: StkQueryResponse): StkQueryResult => {
+  if (data?.errorCode === STILL_PROCESSING_ERROR) {
+    return { outcome: 'pending', resultCode: null, message: data.errorMessage ?? '', mpesaReceiptNumber: null };
+  }
+
+  const resultCode = Number(data?.ResultCode);
+  if (data?.ResultCode === undefined || Number.isNaN(resultCode)) {
+    return { outcome: 'pending', resultCode: null, message: '', mpesaReceiptNumber: null };
+  }
+
+  const { outcome, message } = describeResultCode(resultCode, data.ResultDesc);
+  return {
+    outcome,
+    resultCode,
+    message,
+    mpesaReceiptNumber: data.MpesaReceiptNumber ?? null,
+  };
+};
+
+export type StkQuery = (checkoutRequestID: string, signal?: AbortSignal) => Promise<StkQueryResult>;
+
+/** Results pushed by the backend as Safaricom calls back, instead of asked for */
+export interface StkResultFeed {
+  /** True while pushes are arriving, so there's no need to poll */
+  isLive(): boolean;
+  /** Call `listener` with each result for the checkout; returns an unsubscribe function */
+  subscribe(checkoutRequestID: string, listener: (result: StkQueryResult) => void): () => void;
+}
+
+/**
+ * STK query against a Daraja-compatible endpoint. Point `baseURL` at the
+ * parking backend (which adds the shortcode credentials) or at the mock server.
+ */
+export const createStkQuery = (baseURL: string): StkQuery => async (checkoutRequestID, signal) =>
+  parseStkQueryResponse(await paymentsApi.stkQuery(baseURL, checkoutRequestID, signal));
+
+/** Callback results relayed by the parking backend over the realtime channel */
+export const realtimeStkFeed: StkResultFeed = {
+  isLive: realtime.isConnected,
+  subscribe: (checkoutRequestID, listener) =>
+    realtime.subscribe(realtimeTopics.payment(checkoutRequestID), stkQuerySchema, (data) =>
+      listener(parseStkQueryResponse(data))
+    ),
+};
+
+/**
+ * Poll until the checkout resolves, the deadline passes or `signal` aborts.
+ * Network errors are treated like "still pending" so a flaky connection
+ * doesn't fail a payment the customer may already have approved. Attempts
+ * are skipped while `skipWhile` returns true, e.g. while results are pushed.
+ */
+export const pollStkStatus = async ({
+  checkoutRequestID,
+  query,
+  startedAt = Date.now(),
+  timeoutMs = STK_TIMEOUT_MS,
+  signal,
+  onAttempt,
+  skipWhile,
+}: {
+  checkoutRequestID: string;
+  query: StkQuery;
+  startedAt?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number) => void;
+  skipWhile?: () => boolean;
+}): Promise<StkQueryResult> => {
+  for (let attempt = 0; ; attempt++) {
+    const remaining = startedAt + timeoutMs - Date.now();
+    if (remaining <= 0) break;
+
+    await wait(Math.min(getPollDelay(attempt), remaining), signal);
+    if (signal?.aborted) {
+      return { outcome: 'cancelled', resultCode: null, message: translate('payment.cancelled'), mpesaReceiptNumber: null };
+    }
+    if (skipWhile?.()) continue;
+
+    onAttempt?.(attempt + 1);
+    try {
+      const result = await query(checkoutRequestID, signal);
+      if (result.outcome !== 'pending') return result;
+    } catch (error) {
+      console.warn('STK status query failed, will retry:', error);
+    }
+  }
+
+  return {
+    outcome: 'timeout',
+    resultCode: null,
+    message: translate('payment.noResponse'),
+    mpesaReceiptNumber: null,
+  };
+};
+
+/**
+ * Wait for the checkout to resolve, preferring results pushed by `feed` and
+ * polling only while the feed isn't live. Without a feed (e.g. the fake
+ * provider) this is plain polling.
+ */
+export const watchStkStatus = async ({
+  feed,
+  signal,
+  ...options
+}: Parameters<typeof pollStkStatus>[0] & { feed?: StkResultFeed }): Promise<StkQueryResult> => {
+  if (!feed) return pollStkStatus({ ...options, signal });
+
+  const done = new AbortController();
+  const onAbort = () => done.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let unsubscribe = () => {};
+  const pushed = new Promise<StkQueryResult>((resolve) => {
+    unsubscribe = feed.subscribe(options.checkoutRequestID, (result) => {
+      if (result.outcome !== 'pending') resolve(result);
+    });
+  });
+
+  try {
+    return await Promise.race([
+      pushed,
+      pollStkStatus({ ...options, signal: done.signal, skipWhile: feed.isLive }),
+    ]);
+  } finally {
+    unsubscribe();
+    signal?.removeEventListener('abort', onAbort);
+    done.abort();
+  }
+};
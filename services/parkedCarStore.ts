@@ -0,0 +1,76 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { LatLng } from '@/utils/geo';
+
+/**
+ * Where the car was left for the current session. The position is frozen
+ * when parking starts and does not follow the driver afterwards.
+ */
+
+const STORAGE_KEY = '@kenpark/parked-car';
+
+export interface ParkedCar {
+  coords: LatLng;
+  /** GPS accuracy radius in metres when the position was taken */
+  accuracy: number | null;
+  recordedAt: number;
+  floor: string;
+  bay: string;
+  notes: string;
+  /** Local file URI of a photo of the spot */
+  photoUri: string | null;
+}
+
+export type ParkedCarDetails = Pick<ParkedCar, 'floor' | 'bay' | 'notes' | 'photoUri'>;
+
+export const parkedCarStore = {
+  async load(): Promise<ParkedCar | null> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as ParkedCar) : null;
+    } catch (error) {
+      console.error('Error loading parked car:', error);
+      return null;
+    }
+  },
+
+  async record(coords: LatLng, accuracy: number | null = null): Promise<ParkedCar> {
+    const parkedCar: ParkedCar = {
+      coords: { latitude: coords.latitude, longitude: coords.longitude },
+      accuracy,
+      recordedAt: Date.now(),
+      floor: '',
+      bay: '',
+      notes: '',
+      photoUri: null,
+    };
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(parkedCar));
+    } catch (error) {
+      console.error('Error saving parked car:', error);
+    }
+    return parkedCar;
+  },
+
+  async updateDetails(details: Partial<ParkedCarDetails>): Promise<ParkedCar | null> {
+    const current = await parkedCarStore.load();
+    if (!current) return null;
+
+    const next = { ...current, ...details };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving parked car:', error);
+    }
+    return next;
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing parked car:', error);
+    }
+  },
+};
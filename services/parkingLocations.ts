@@ -0,0 +1,68 @@
+import { Linking, Platform } from 'react-native';
+
+import locations from '@/assets/data/parking-locations.json';
+import { getDistanceMeters, type LatLng } from '@/utils/geo';
+import { isWithinOperatingHours, type OperatingHours } from '@/utils/localTime';
+
+/**
+ * Nearby lots and street parking, served from a JSON file bundled with the
+ * app so search works without a connection.
+ */
+
+export interface ParkingLocation extends LatLng {
+  id: string;
+  name: string;
+  kind: 'lot' | 'street';
+  address: string;
+  hourlyRate: number;
+  capacity: number;
+  openingHours: OperatingHours;
+}
+
+export interface NearbyParkingLocation extends ParkingLocation {
+  distanceMeters: number;
+}
+
+const PARKING_LOCATIONS = locations as ParkingLocation[];
+
+export const isLocationOpen = (location: ParkingLocation, date: Date = new Date()) =>
+  isWithinOperatingHours(location.openingHours, date);
+
+export const getParkingLocation = (id: string): ParkingLocation | null =>
+  PARKING_LOCATIONS.find((location) => location.id === id) ?? null;
+
+/** Locations matching `query` (name or address), nearest first */
+export const getNearbyLocations = (origin: LatLng, query = ''): NearbyParkingLocation[] => {
+  const needle = query.trim().toLowerCase();
+
+  return PARKING_LOCATIONS
+    .filter((location) =>
+      !needle ||
+      location.name.toLowerCase().includes(needle) ||
+      location.address.toLowerCase().includes(needle)
+    )
+    .map((location) => ({ ...location, distanceMeters: getDistanceMeters(origin, location) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+};
+
+/** Hand off turn-by-turn directions to the platform maps app */
+export const openDirections = async (destination: ParkingLocation): Promise<void> => {
+  const { latitude, longitude } = destination;
+  const label = encodeURIComponent(destination.name);
+  const nativeUrl = Platform.select({
+    ios: `maps://?daddr=${latitude},${longitude}&q=${label}`,
+    android: `google.navigation:q=${latitude},${longitude}`,
+  });
+  const webUrl = `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
+
+  // canOpenURL needs per-scheme manifest entries, so just try the native app
+  if (nativeUrl) {
+    try {
+      await Linking.openURL(nativeUrl);
+      return;
+    } catch {
+      // No maps app handled it; fall back to the browser
+    }
+  }
+  await Linking.openURL(webUrl);
+};
@@ -0,0 +1,83 @@
+import { MPESA_API_URL } from '@/constants/api';
+import { createIdempotencyKey } from '@/services/apiRequest';
+import { createFakePaymentProvider } from '@/services/fakePaymentProvider';
+import { createStkQuery, realtimeStkFeed, type StkQuery, type StkResultFeed } from '@/services/mpesaStatus';
+import { paymentsApi } from '@/services/paymentsApi';
+
+/**
+ * Seam between the payment flow and whatever actually takes the money.
+ *
+ * `usePayment` talks only to a `PaymentProvider`; which one it gets is a dev
+ * setting (`EXPO_PUBLIC_PAYMENT_PROVIDER=fake|mpesa`), so the swipe -> pay ->
+ * receipt flow can run with no network at all.
+ */
+
+export interface StkPushRequest {
+  /** E.164 without the plus, e.g. 254712345678 */
+  phoneNumber: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+  /**
+   * Identifies this payment across retries so the driver is prompted once.
+   * Reuse it when retrying the same payment; one is generated if omitted.
+   */
+  idempotencyKey?: string;
+}
+
+export interface StkPushResponse {
+  checkoutRequestID: string;
+  merchantRequestID: string;
+  customerMessage: string;
+}
+
+export interface PaymentProvider {
+  name: 'mpesa' | 'fake';
+  requestStkPush(request: StkPushRequest, signal?: AbortSignal): Promise<StkPushResponse>;
+  queryStatus: StkQuery;
+  /** Pushed results, when the provider has them; pass to `watchStkStatus` */
+  resultFeed?: StkResultFeed;
+}
+
+export type PaymentProviderName = PaymentProvider['name'];
+
+/**
+ * M-Pesa over HTTP. The base URL is the parking backend, which holds the
+ * Daraja credentials, or `npm run mock-daraja` during development.
+ */
+export const createMpesaProvider = (baseURL: string = MPESA_API_URL): PaymentProvider => ({
+  name: 'mpesa',
+
+  async requestStkPush(request, signal) {
+    const response = await paymentsApi.stkPush(
+      baseURL,
+      request,
+      request.idempotencyKey ?? createIdempotencyKey(),
+      signal
+    );
+    return {
+      checkoutRequestID: response.CheckoutRequestID,
+      merchantRequestID: response.MerchantRequestID,
+      customerMessage: response.CustomerMessage,
+    };
+  },
+
+  queryStatus: createStkQuery(baseURL),
+
+  resultFeed: realtimeStkFeed,
+});
+
+export const getPaymentProviderName = (): PaymentProviderName =>
+  process.env.EXPO_PUBLIC_PAYMENT_PROVIDER === 'fake' ? 'fake' : 'mpesa';
+
+let provider: PaymentProvider | null = null;
+
+/** The provider selected by the dev setting, created on first use */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    provider = getPaymentProviderName() === 'fake'
+      ? createFakePaymentProvider()
+      : createMpesaProvider();
+  }
+  return provider;
+};
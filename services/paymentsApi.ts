@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+import { apiClient } from '@/services/apiClient';
+import { apiRequest } from '@/services/apiRequest';
+import type { StkPushRequest } from '@/services/paymentProvider';
+
+/**
+ * Daraja-compatible STK push endpoints, on the parking backend (which adds
+ * the shortcode credentials) or the mock server. Sent as the signed-in
+ * driver so payments are tied to their account.
+ */
+
+const stkPushSchema = z.object({
+  CheckoutRequestID: z.string(),
+  MerchantRequestID: z.string(),
+  CustomerMessage: z.string().default(''),
+});
+
+// Daraja answers a query for a checkout still in progress with a 500 and an
+// error body, so both shapes are accepted and told apart by the caller. The
+// backend pushes callback results over the realtime channel in the same shape.
+export const stkQuerySchema = z
+  .object({
+    errorCode: z.string().optional(),
+    errorMessage: z.string().optional(),
+    ResultCode: z.union([z.string(), z.number()]).optional(),
+    ResultDesc: z.string().optional(),
+    MpesaReceiptNumber: z.string().optional(),
+  })
+  .passthrough();
+
+export type StkQueryResponse = z.infer<typeof stkQuerySchema>;
+
+export const paymentsApi = {
+  /** The key makes retries safe: the backend sends at most one prompt per key */
+  stkPush: (baseURL: string, request: StkPushRequest, idempotencyKey: string, signal?: AbortSignal) =>
+    apiRequest(
+      apiClient,
+      {
+        method: 'post',
+        url: `${baseURL}/mpesa/stkpush/v1/processrequest`,
+        data: {
+          PhoneNumber: request.phoneNumber,
+          Amount: request.amount,
+          AccountReference: request.accountReference,
+          TransactionDesc: request.description,
+        },
+      },
+      stkPushSchema,
+      { signal, idempotencyKey }
+    ),
+
+  stkQuery: (baseURL: string, checkoutRequestID: string, signal?: AbortSignal) =>
+    apiRequest(
+      apiClient,
+      {
+        method: 'post',
+        url: `${baseURL}/mpesa/stkpushquery/v1/query`,
+        data: { CheckoutRequestID: checkoutRequestID },
+        timeout: 10 * 1000,
+        validateStatus: (status) => status === 200 || status === 500,
+      },
+      stkQuerySchema,
+      { signal, idempotent: true }
+    ),
+};
@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { StkQuery, StkQueryResult } from '@/services/mpesaStatus';
+import { translate } from '@/utils/i18n';
+
+/**
+ * STK push checkouts that were sent but not yet resolved.
+ *
+ * A checkout is recorded as soon as Safaricom accepts the push and removed
+ * once it resolves. Anything still here on launch was interrupted (app
+ * killed, phone restarted) and is queried again so a payment the customer
+ * approved is never dropped.
+ */
+
+const STORAGE_KEY = '@kenpark/pending-checkouts';
+
+// Daraja only answers queries for recent checkouts; give up after this
+const MAX_RECONCILE_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface PendingCheckout {
+  checkoutRequestID: string;
+  /** Active parking session the payment is for */
+  sessionId: string | null;
+  /** Reservation the payment is the deposit for */
+  reservationId?: string | null;
+  /** Prepaid time the payment buys, when it is for a prepaid block */
+  prepaidMinutes?: number | null;
+  amount: number;
+  phoneNumber: string;
+  createdAt: number;
+}
+
+export interface ReconciledCheckout {
+  checkout: PendingCheckout;
+  result: StkQueryResult;
+}
+
+const readAll = async (): Promise<PendingCheckout[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingCheckout[]) : [];
+  } catch (error) {
+    console.error('Error reading pending checkouts:', error);
+    return [];
+  }
+};
+
+const writeAll = async (checkouts: PendingCheckout[]) => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(checkouts));
+  } catch (error) {
+    console.error('Error saving pending checkouts:', error);
+  }
+};
+
+// Runs tasks one after another, so read-modify-write cycles can't interleave
+const createQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+};
+
+// The payment screen and reservationStore both reconcile on launch
+const queueReconcile = createQueue();
+const queueWrite = createQueue();
+
+const update = (change: (checkouts: PendingCheckout[]) => PendingCheckout[]) =>
+  queueWrite(async () => writeAll(change(await readAll())));
+
+const reconcileNow = async (
+  query: StkQuery,
+  include: (checkout: PendingCheckout) => boolean,
+  now: number
+): Promise<ReconciledCheckout[]> => {
+  const checkouts = (await readAll()).filter(include);
+  const resolved: ReconciledCheckout[] = [];
+
+  for (const checkout of checkouts) {
+    try {
+      const result = await query(checkout.checkoutRequestID);
+      if (result.outcome !== 'pending') {
+        resolved.push({ checkout, result });
+        continue;
+      }
+    } catch (error) {
+      console.warn('Could not reconcile checkout', checkout.checkoutRequestID, error);
+    }
+
+    if (now - checkout.createdAt > MAX_RECONCILE_AGE_MS) {
+      resolved.push({
+        checkout,
+        result: {
+          outcome: 'timeout',
+          resultCode: null,
+          message: translate('payment.unconfirmed'),
+          mpesaReceiptNumber: null,
+        },
+      });
+    }
+  }
+
+  // Checkouts may have been added or removed while the queries ran
+  const resolvedIds = new Set(resolved.map(({ checkout }) => checkout.checkoutRequestID));
+  await update((checkouts) => checkouts.filter((item) => !resolvedIds.has(item.checkoutRequestID)));
+  return resolved;
+};
+
+export const pendingCheckouts = {
+  getAll: readAll,
+
+  add(checkout: PendingCheckout): Promise<void> {
+    return update((checkouts) => [
+      ...checkouts.filter((item) => item.checkoutRequestID !== checkout.checkoutRequestID),
+      checkout,
+    ]);
+  },
+
+  remove(checkoutRequestID: string): Promise<void> {
+    return update((checkouts) => checkouts.filter((item) => item.checkoutRequestID !== checkoutRequestID));
+  },
+
+  /**
+   * Query every stored checkout `include` accepts once. Resolved checkouts
+   * (and ones too old to query) are removed and returned; those still pending
+   * stay for next time, as does everything `include` leaves to its own owner.
+   * Reconciles run one at a time.
+   */
+  reconcile(
+    query: StkQuery,
+    { include = () => true, now = Date.now() }: { include?: (checkout: PendingCheckout) => boolean; now?: number } = {}
+  ): Promise<ReconciledCheckout[]> {
+    return queueReconcile(() => reconcileNow(query, include, now));
+  },
+};
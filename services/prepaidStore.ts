@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getTariffTotal, type Tariff } from '@/utils/tariff';
+
+/**
+ * Prepaid parking: the driver pays for a block of time up front and can buy
+ * more without ending the session. Tracks paid-until alongside the start
+ * time so the UI can show a countdown and detect overstay.
+ */
+
+const STORAGE_KEY = '@kenpark/prepaid-session';
+
+export const PREPAID_DURATIONS_MINUTES = [30, 60, 120, 180, 240, 480];
+
+export interface PrepaidPurchase {
+  minutes: number;
+  amount: number;
+  mpesaReceipt: string;
+  paidAt: number;
+}
+
+export interface PrepaidSession {
+  startedAt: number;
+  paidUntil: number;
+  purchases: PrepaidPurchase[];
+  /** Scheduled expiry notification ids, cancelled on extend or end */
+  reminderIds: string[];
+}
+
+/** Seconds of paid time left; negative once the driver has overstayed */
+export const getRemainingSeconds = (session: PrepaidSession, now: number = Date.now()) =>
+  Math.floor((session.paidUntil - now) / 1000);
+
+/**
+ * Price of paying until `paidUntil + minutes`, as the difference between the
+ * two totals so first-hour rates and daily caps still apply across extensions.
+ */
+export const quoteExtension = (
+  tariff: Tariff,
+  startedAt: number,
+  paidUntil: number,
+  minutes: number
+): number =>
+  getTariffTotal(tariff, startedAt, paidUntil + minutes * 60 * 1000) -
+  (paidUntil > startedAt ? getTariffTotal(tariff, startedAt, paidUntil) : 0);
+
+const save = async (session: PrepaidSession): Promise<PrepaidSession> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Error saving prepaid session:', error);
+  }
+  return session;
+};
+
+export const prepaidStore = {
+  async load(): Promise<PrepaidSession | null> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as PrepaidSession) : null;
+    } catch (error) {
+      console.error('Error loading prepaid session:', error);
+      return null;
+    }
+  },
+
+  start(purchase: PrepaidPurchase, reminderIds: string[] = []): Promise<PrepaidSession> {
+    return save({
+      startedAt: purchase.paidAt,
+      paidUntil: purchase.paidAt + purchase.minutes * 60 * 1000,
+      purchases: [purchase],
+      reminderIds,
+    });
+  },
+
+  /**
+   * Add paid time. If the driver had already overstayed, the new block still
+   * runs from the old paid-until, since the overstay is part of what's paid.
+   */
+  extend(
+    session: PrepaidSession,
+    purchase: PrepaidPurchase,
+    reminderIds: string[] = []
+  ): Promise<PrepaidSession> {
+    return save({
+      ...session,
+      paidUntil: session.paidUntil + purchase.minutes * 60 * 1000,
+      purchases: [...session.purchases, purchase],
+      reminderIds,
+    });
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing prepaid session:', error);
+    }
+  },
+};
@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { translate } from '@/utils/i18n';
+import { formatInternational, toE164 } from '@/utils/phoneNumber';
+
+/**
+ * The driver's account details and saved M-Pesa numbers. Numbers are stored
+ * in E.164 as produced by `toE164`, and exactly one is the default whenever
+ * the list is not empty.
+ */
+
+const STORAGE_KEY = '@kenpark/profile';
+
+const KENYA_COUNTRY_CODE = '254';
+
+export interface SavedPhoneNumber {
+  id: string;
+  /** E.164, e.g. "+254712345678" */
+  number: string;
+  label: string;
+  isDefault: boolean;
+}
+
+export interface Profile {
+  name: string;
+  email: string;
+  phoneNumbers: SavedPhoneNumber[];
+}
+
+const EMPTY_PROFILE: Profile = { name: '', email: '', phoneNumbers: [] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+/** The subscriber part of a saved number, as typed after the +254 prefix */
+export const toLocalPhoneNumber = (number: string) => {
+  const digits = number.replace(/\D/g, '');
+  return digits.startsWith(KENYA_COUNTRY_CODE) ? digits.slice(KENYA_COUNTRY_CODE.length) : digits;
+};
+
+/** "+254712345678" -> "+254 712 345 678" */
+export const formatSavedPhoneNumber = (number: string) => formatInternational(number);
+
+const readProfile = async (): Promise<Profile> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_PROFILE;
+    const profile = { ...EMPTY_PROFILE, ...(JSON.parse(raw) as Partial<Profile>) };
+    // Numbers saved before they were kept in E.164 have no leading plus
+    return {
+      ...profile,
+      phoneNumbers: profile.phoneNumbers.map((item) =>
+        item.number.startsWith('+') ? item : { ...item, number: `+${item.number}` }
+      ),
+    };
+  } catch (error) {
+    console.error('Error reading profile:', error);
+    return EMPTY_PROFILE;
+  }
+};
+
+const writeProfile = async (profile: Profile): Promise<Profile> => {
+  const phoneNumbers = [...profile.phoneNumbers];
+  // Keep the single-default invariant no matter what the caller did
+  if (phoneNumbers.length > 0 && !phoneNumbers.some((item) => item.isDefault)) {
+    phoneNumbers[0] = { ...phoneNumbers[0], isDefault: true };
+  }
+  const next = { ...profile, phoneNumbers };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const profileStore = {
+  load: readProfile,
+
+  async getDefaultPhoneNumber(): Promise<SavedPhoneNumber | null> {
+    const { phoneNumbers } = await readProfile();
+    return phoneNumbers.find((item) => item.isDefault) ?? null;
+  },
+
+  /** Throws if the email is present but not a valid address */
+  async saveDetails(details: { name: string; email: string }): Promise<Profile> {
+    const email = details.email.trim();
+    if (email && !validateEmail(email)) {
+      throw new Error(translate('profile.invalidEmail'));
+    }
+    return writeProfile({ ...(await readProfile()), name: details.name.trim(), email });
+  },
+
+  /** Throws if the number is invalid or already saved */
+  async addPhoneNumber(input: string, label: string): Promise<Profile> {
+    const number = toE164(input);
+    if (!number) {
+      throw new Error(translate('payment.invalidPhone'));
+    }
+
+    const profile = await readProfile();
+    if (profile.phoneNumbers.some((item) => item.number === number)) {
+      throw new Error(translate('profile.duplicateNumber', { number: formatSavedPhoneNumber(number) }));
+    }
+
+    return writeProfile({
+      ...profile,
+      phoneNumbers: [
+        ...profile.phoneNumbers,
+        {
+          id: Date.now().toString(36),
+          number,
+          label: label.trim(),
+          isDefault: profile.phoneNumbers.length === 0,
+        },
+      ],
+    });
+  },
+
+  async removePhoneNumber(id: string): Promise<Profile> {
+    const profile = await readProfile();
+    return writeProfile({
+      ...profile,
+      phoneNumbers: profile.phoneNumbers.filter((item) => item.id !== id),
+    });
+  },
+
+  async setDefaultPhoneNumber(id: string): Promise<Profile> {
+    const profile = await readProfile();
+    return writeProfile({
+      ...profile,
+      phoneNumbers: profile.phoneNumbers.map((item) => ({ ...item, isDefault: item.id === id })),
+    });
+  },
+};
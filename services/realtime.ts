@@ -0,0 +1,272 @@
+import { AppState } from 'react-native';
+import { z, type ZodType, type ZodTypeDef } from 'zod';
+
+import { REALTIME_URL } from '@/constants/api';
+import { authStore } from '@/services/authStore';
+import { connectivity } from '@/services/connectivity';
+
+/**
+ * Push channel from the backend: M-Pesa callback results, changes made to a
+ * session from another device, and enforcement notices.
+ *
+ * One WebSocket is kept open while a driver is signed in. It reconnects with
+ * backoff when dropped, pings to notice connections that died silently, and
+ * re-sends every subscription after reconnecting. The backend replays the
+ * latest event of a topic on subscribe, so nothing is lost while offline.
+ *
+ * Protocol (JSON text frames):
+ *   client -> { type: 'subscribe' | 'unsubscribe', topic }  |  { type: 'ping' }
+ *   server -> { type: 'event', topic, data }                |  { type: 'pong' }
+ */
+
+export type RealtimeStatus = 'disconnected' | 'connecting' | 'connected';
+
+const PING_INTERVAL_MS = 25 * 1000;
+// Any frame counts as proof of life; without one for this long the socket is dead
+const PONG_TIMEOUT_MS = 10 * 1000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// Close code the backend uses when the access token is missing or expired
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+const NORMAL_CLOSE_CODE = 1000;
+
+/** Topic names; each is scoped to one checkout or one driver */
+export const realtimeTopics = {
+  payment: (checkoutRequestID: string) => `payments:${checkoutRequestID}`,
+  sessions: (userId: string) => `sessions:${userId}`,
+  enforcement: (userId: string) => `enforcement:${userId}`,
+};
+
+const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('event'), topic: z.string(), data: z.unknown() }),
+  z.object({ type: z.literal('pong') }),
+]);
+
+type TopicHandler = (data: unknown) => void;
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = 'disconnected';
+let wanted = false;
+let attempt = 0;
+let started = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pingTimer: ReturnType<typeof setInterval> | null = null;
+let pongTimer: ReturnType<typeof setTimeout> | null = null;
+const topics = new Map<string, Set<TopicHandler>>();
+const listeners = new Set<() => void>();
+
+const setStatus = (next: RealtimeStatus) => {
+  if (next === status) return;
+  status = next;
+  listeners.forEach((listener) => listener());
+};
+
+const send = (message: object) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const stopHeartbeat = () => {
+  if (pingTimer) clearInterval(pingTimer);
+  if (pongTimer) clearTimeout(pongTimer);
+  pingTimer = null;
+  pongTimer = null;
+};
+
+const startHeartbeat = (ws: WebSocket) => {
+  stopHeartbeat();
+  pingTimer = setInterval(() => {
+    send({ type: 'ping' });
+    if (!pongTimer) {
+      pongTimer = setTimeout(() => drop(ws), PONG_TIMEOUT_MS);
+    }
+  }, PING_INTERVAL_MS);
+};
+
+const clearReconnect = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+};
+
+/** Exponential backoff with jitter so clients dropped together don't return together */
+const scheduleReconnect = () => {
+  // Coming back online reconnects straight away instead
+  if (!wanted || reconnectTimer || !connectivity.isOnline()) return;
+  const delay =
+    Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt), RECONNECT_MAX_DELAY_MS) +
+    Math.random() * RECONNECT_BASE_DELAY_MS;
+  attempt += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+};
+
+/** Forget a socket that closed or stopped answering, then try again */
+function drop(ws: WebSocket) {
+  if (socket !== ws) return;
+  socket = null;
+  stopHeartbeat();
+  ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+  ws.close();
+  setStatus('disconnected');
+  scheduleReconnect();
+}
+
+const dispatch = (raw: unknown) => {
+  let parsed;
+  try {
+    parsed = serverMessageSchema.safeParse(JSON.parse(String(raw)));
+  } catch {
+    parsed = null;
+  }
+  if (!parsed?.success) {
+    console.error('Error reading realtime message:', raw);
+    return;
+  }
+
+  const message = parsed.data;
+  if (message.type === 'event') {
+    topics.get(message.topic)?.forEach((handler) => handler(message.data));
+  }
+};
+
+async function connect() {
+  if (!wanted || socket || status === 'connecting') return;
+  setStatus('connecting');
+
+  const accessToken = await authStore.getAccessToken();
+  // Signed out while the token was fetched, or the refresh failed
+  if (!wanted || !accessToken) {
+    setStatus('disconnected');
+    return;
+  }
+
+  const ws = new WebSocket(`${REALTIME_URL}?token=${encodeURIComponent(accessToken)}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    attempt = 0;
+    setStatus('connected');
+    topics.forEach((_, topic) => send({ type: 'subscribe', topic }));
+    startHeartbeat(ws);
+  };
+
+  ws.onmessage = (event) => {
+    if (pongTimer) clearTimeout(pongTimer);
+    pongTimer = null;
+    dispatch(event.data);
+  };
+
+  ws.onerror = () => {
+    // Always followed by onclose, which reconnects
+  };
+
+  ws.onclose = (event) => {
+    if (socket !== ws) return;
+    if (event.code === UNAUTHORIZED_CLOSE_CODE) {
+      // Reconnect once the token is fresh; a failed refresh signs the driver out
+      socket = null;
+      stopHeartbeat();
+      setStatus('disconnected');
+      authStore.refresh().then((token) => (token ? connect() : scheduleReconnect()));
+      return;
+    }
+    drop(ws);
+  };
+}
+
+const disconnect = () => {
+  clearReconnect();
+  stopHeartbeat();
+  attempt = 0;
+  const ws = socket;
+  socket = null;
+  if (ws) {
+    ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+    ws.close(NORMAL_CLOSE_CODE);
+  }
+  setStatus('disconnected');
+};
+
+/** Skip the wait and reconnect now, e.g. when the network or the app comes back */
+const reconnectNow = () => {
+  if (!wanted || socket) return;
+  clearReconnect();
+  attempt = 0;
+  connect();
+};
+
+const syncWithAuth = () => {
+  wanted = authStore.get().status === 'signedIn';
+  if (wanted) {
+    connect();
+  } else {
+    disconnect();
+  }
+};
+
+export const realtime = {
+  /** Stay connected whenever a driver is signed in; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    connectivity.start();
+    authStore.subscribe(syncWithAuth);
+    connectivity.subscribe(() => {
+      if (connectivity.isOnline()) reconnectNow();
+    });
+    AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') reconnectNow();
+    });
+    authStore.load().then(syncWithAuth);
+  },
+
+  getStatus(): RealtimeStatus {
+    return status;
+  },
+
+  isConnected(): boolean {
+    return status === 'connected';
+  },
+
+  /**
+   * Call `handler` with every event on `topic` that matches `schema`; events
+   * that don't match are logged and skipped. Returns an unsubscribe function.
+   */
+  subscribe<T>(topic: string, schema: ZodType<T, ZodTypeDef, unknown>, handler: (data: T) => void): () => void {
+    const topicHandler: TopicHandler = (data) => {
+      const parsed = schema.safeParse(data);
+      if (parsed.success) {
+        handler(parsed.data);
+      } else {
+        console.error(`Error validating realtime event on ${topic}:`, parsed.error);
+      }
+    };
+
+    const handlers = topics.get(topic) ?? new Set<TopicHandler>();
+    if (handlers.size === 0) {
+      topics.set(topic, handlers);
+      send({ type: 'subscribe', topic });
+    }
+    handlers.add(topicHandler);
+
+    return () => {
+      handlers.delete(topicHandler);
+      if (handlers.size === 0 && topics.get(topic) === handlers) {
+        topics.delete(topic);
+        send({ type: 'unsubscribe', topic });
+      }
+    };
+  },
+
+  /** Listen for connection status changes */
+  subscribeStatus(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,306 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+import { PARKING_ZONES } from '@/constants/zones';
+import type { FleetInvoice } from '@/services/fleetApi';
+import type { CompletedSession } from '@/services/historyStore';
+import type { Language } from '@/services/settingsStore';
+import { translate } from '@/utils/i18n';
+import { toLocalDateKey } from '@/utils/localTime';
+import { getTariffLabels } from '@/utils/tariffLabels';
+import {
+  formatDuration,
+  formatLocation,
+  formatSessionDate,
+  formatSessionTime,
+} from '@/utils/sessionFormat';
+
+/**
+ * Receipts for single sessions, expense exports over a date range and fleet
+ * invoices, shareable as PDF, HTML or (for exports and invoices) CSV.
+ */
+
+export type ReceiptFormat = 'pdf' | 'html';
+export type ExportFormat = 'pdf' | 'csv';
+
+export const VAT_RATE = 0.16;
+
+const BUSINESS_NAME = 'KenPark';
+
+/** Receipts are tax documents, so they stay in English whatever the app language */
+export const RECEIPT_LANGUAGE: Language = 'en';
+
+/** Tariff lines worded for a receipt, whatever the app language */
+export const receiptTariffLabels = getTariffLabels(RECEIPT_LANGUAGE, 'KSH');
+
+/** VAT contained in a VAT-inclusive amount */
+export const getVatAmount = (amount: number) =>
+  Math.round(((amount * VAT_RATE) / (1 + VAT_RATE)) * 100) / 100;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const money = (amount: number) => `KSH ${amount.toFixed(2)}`;
+
+const formatDateTime = (timestamp: number) =>
+  `${formatSessionDate(timestamp, RECEIPT_LANGUAGE)} ${formatSessionTime(timestamp, RECEIPT_LANGUAGE)}`;
+
+const PAGE_STYLE = `
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1a1a1a; padding: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .muted { color: #777; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  td, th { padding: 6px 4px; border-bottom: 1px solid #eee; text-align: left; font-size: 13px; }
+  .right { text-align: right; }
+  .total td { font-weight: 700; border-top: 2px solid #1a1a1a; }
+`;
+
+export const buildReceiptHtml = (session: CompletedSession): string => {
+  const payment: [string, string][] = session.billedTo
+    ? [['Billed To', session.billedTo], ['Charge Reference', session.mpesaReceipt]]
+    : [['M-Pesa Receipt', session.mpesaReceipt]];
+  const details: [string, string][] = [
+    ['Receipt No.', session.id],
+    ...payment,
+    ['Vehicle', session.vehiclePlate ?? '—'],
+    ['Zone', session.zoneName ?? '—'],
+    ['Location', formatLocation(session.locationName, session.coords, RECEIPT_LANGUAGE)],
+    ['Start', formatDateTime(session.startedAt)],
+    ['End', formatDateTime(session.endedAt)],
+    ['Duration', formatDuration(session.durationSeconds, RECEIPT_LANGUAGE)],
+  ];
+
+  const lines = session.tariffLines ?? [
+    { label: 'Parking', period: null, minutes: 0, rate: null, amount: session.amount },
+  ];
+  const vat = getVatAmount(session.amount);
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width" /><style>${PAGE_STYLE}</style></head>
+<body>
+  <h1>${BUSINESS_NAME} Parking Receipt</h1>
+  <div class="muted">Issued ${escapeHtml(formatDateTime(session.endedAt))}</div>
+  <table>
+    ${details.map(([label, value]) => `<tr><td>${label}</td><td class="right">${escapeHtml(value)}</td></tr>`).join('')}
+  </table>
+  <table>
+    <tr><th>Charge</th><th class="right">Amount</th></tr>
+    ${lines.map((line) => `<tr><td>${escapeHtml(line.label)}</td><td class="right">${money(line.amount)}</td></tr>`).join('')}
+    <tr><td>Amount excl. VAT</td><td class="right">${money(session.amount - vat)}</td></tr>
+    <tr><td>VAT (${VAT_RATE * 100}%)</td><td class="right">${money(vat)}</td></tr>
+    <tr class="total"><td>Total Paid</td><td class="right">${money(session.amount)}</td></tr>
+  </table>
+</body>
+</html>`;
+};
+
+const CSV_HEADER = [
+  'Date',
+  'Start',
+  'End',
+  'Duration (min)',
+  'Vehicle',
+  'Zone',
+  'Location',
+  'M-Pesa Receipt',
+  'Amount excl. VAT',
+  'VAT',
+  'Total',
+];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Sessions the driver paid for; those billed to a fleet go on the company's invoice instead */
+export const getReimbursableSessions = (sessions: CompletedSession[]): CompletedSession[] =>
+  sessions.filter((session) => !session.billedTo);
+
+export const buildExpenseCsv = (sessions: CompletedSession[]): string => {
+  const rows = getReimbursableSessions(sessions).map((session) => {
+    const vat = getVatAmount(session.amount);
+    return [
+      toLocalDateKey(new Date(session.startedAt)),
+      formatSessionTime(session.startedAt, RECEIPT_LANGUAGE),
+      formatSessionTime(session.endedAt, RECEIPT_LANGUAGE),
+      Math.round(session.durationSeconds / 60),
+      session.vehiclePlate ?? '',
+      session.zoneName ?? '',
+      formatLocation(session.locationName, session.coords, RECEIPT_LANGUAGE),
+      session.mpesaReceipt,
+      (session.amount - vat).toFixed(2),
+      vat.toFixed(2),
+      session.amount.toFixed(2),
+    ].map(csvCell).join(',');
+  });
+
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+};
+
+export const buildExpenseReportHtml = (
+  sessions: CompletedSession[],
+  from: number,
+  to: number
+): string => {
+  const paid = getReimbursableSessions(sessions);
+  const total = paid.reduce((sum, session) => sum + session.amount, 0);
+  const vat = paid.reduce((sum, session) => sum + getVatAmount(session.amount), 0);
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /><style>${PAGE_STYLE}</style></head>
+<body>
+  <h1>${BUSINESS_NAME} Parking Expenses</h1>
+  <div class="muted">${escapeHtml(formatSessionDate(from, RECEIPT_LANGUAGE))} – ${escapeHtml(formatSessionDate(to - 1, RECEIPT_LANGUAGE))} · ${paid.length} sessions</div>
+  <table>
+    <tr><th>Date</th><th>Vehicle</th><th>Zone</th><th>Duration</th><th>M-Pesa</th><th class="right">Amount</th></tr>
+    ${paid.map((session) => `<tr>
+      <td>${escapeHtml(formatSessionDate(session.startedAt, RECEIPT_LANGUAGE))}</td>
+      <td>${escapeHtml(session.vehiclePlate ?? '—')}</td>
+      <td>${escapeHtml(session.zoneName ?? '—')}</td>
+      <td>${escapeHtml(formatDuration(session.durationSeconds, RECEIPT_LANGUAGE))}</td>
+      <td>${escapeHtml(session.mpesaReceipt)}</td>
+      <td class="right">${money(session.amount)}</td>
+    </tr>`).join('')}
+    <tr><td colspan="5">VAT (${VAT_RATE * 100}%) included</td><td class="right">${money(vat)}</td></tr>
+    <tr class="total"><td colspan="5">Total</td><td class="right">${money(total)}</td></tr>
+  </table>
+</body>
+</html>`;
+};
+
+const INVOICE_CSV_HEADER = [
+  'Reference',
+  'Date',
+  'Start',
+  'End',
+  'Vehicle',
+  'Driver',
+  'Zone',
+  'Amount excl. VAT',
+  'VAT',
+  'Total',
+];
+
+const zoneName = (zoneId: string | null) => PARKING_ZONES.find((zone) => zone.id === zoneId)?.name ?? '';
+
+// "2026-10" -> "October 2026"
+const formatInvoiceMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(RECEIPT_LANGUAGE, { month: 'long', year: 'numeric' });
+};
+
+export const buildFleetInvoiceCsv = (invoice: FleetInvoice): string => {
+  const rows = invoice.charges.map((charge) => {
+    const vat = getVatAmount(charge.amount);
+    return [
+      charge.reference,
+      toLocalDateKey(new Date(charge.startedAt)),
+      formatSessionTime(charge.startedAt, RECEIPT_LANGUAGE),
+      formatSessionTime(charge.endedAt, RECEIPT_LANGUAGE),
+      charge.plate,
+      charge.phoneNumber,
+      zoneName(charge.zoneId),
+      (charge.amount - vat).toFixed(2),
+      vat.toFixed(2),
+      charge.amount.toFixed(2),
+    ].map(csvCell).join(',');
+  });
+
+  return [INVOICE_CSV_HEADER.join(','), ...rows].join('\n');
+};
+
+export const buildFleetInvoiceHtml = (invoice: FleetInvoice): string => {
+  const vat = getVatAmount(invoice.total);
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /><style>${PAGE_STYLE}</style></head>
+<body>
+  <h1>${BUSINESS_NAME} Parking Invoice</h1>
+  <div class="muted">Invoice ${escapeHtml(invoice.number)} · Issued ${escapeHtml(formatDateTime(invoice.issuedAt))}</div>
+  <div class="muted">Billed to ${escapeHtml(invoice.fleetName)} for ${escapeHtml(formatInvoiceMonth(invoice.month))} · ${invoice.charges.length} sessions</div>
+  <table>
+    <tr><th>Date</th><th>Vehicle</th><th>Driver</th><th>Zone</th><th>Reference</th><th class="right">Amount</th></tr>
+    ${invoice.charges.map((charge) => `<tr>
+      <td>${escapeHtml(formatSessionDate(charge.startedAt, RECEIPT_LANGUAGE))}</td>
+      <td>${escapeHtml(charge.plate)}</td>
+      <td>${escapeHtml(charge.phoneNumber)}</td>
+      <td>${escapeHtml(zoneName(charge.zoneId) || '—')}</td>
+      <td>${escapeHtml(charge.reference)}</td>
+      <td class="right">${money(charge.amount)}</td>
+    </tr>`).join('')}
+    <tr><td colspan="5">Amount excl. VAT</td><td class="right">${money(invoice.total - vat)}</td></tr>
+    <tr><td colspan="5">VAT (${VAT_RATE * 100}%)</td><td class="right">${money(vat)}</td></tr>
+    <tr class="total"><td colspan="5">Total Due</td><td class="right">${money(invoice.total)}</td></tr>
+  </table>
+</body>
+</html>`;
+};
+
+const writeCacheFile = (name: string, content: string): string => {
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  return file.uri;
+};
+
+const share = async (uri: string, mimeType: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error(translate('receipt.shareUnavailable'));
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle });
+};
+
+export const shareReceipt = async (
+  session: CompletedSession,
+  format: ReceiptFormat = 'pdf'
+): Promise<void> => {
+  const html = buildReceiptHtml(session);
+  const title = `Parking receipt ${session.mpesaReceipt}`;
+
+  if (format === 'html') {
+    await share(writeCacheFile(`receipt-${session.id}.html`, html), 'text/html', title);
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  await share(uri, 'application/pdf', title);
+};
+
+export const shareExpenseExport = async (
+  sessions: CompletedSession[],
+  from: number,
+  to: number,
+  format: ExportFormat
+): Promise<void> => {
+  const period = toLocalDateKey(new Date(from));
+  const title = 'Parking expenses';
+
+  if (format === 'csv') {
+    await share(writeCacheFile(`parking-expenses-${period}.csv`, buildExpenseCsv(sessions)), 'text/csv', title);
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html: buildExpenseReportHtml(sessions, from, to) });
+  await share(uri, 'application/pdf', title);
+};
+
+export const shareFleetInvoice = async (invoice: FleetInvoice, format: ExportFormat): Promise<void> => {
+  const title = `Parking invoice ${invoice.number}`;
+
+  if (format === 'csv') {
+    await share(writeCacheFile(`invoice-${invoice.number}.csv`, buildFleetInvoiceCsv(invoice)), 'text/csv', title);
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html: buildFleetInvoiceHtml(invoice) });
+  await share(uri, 'application/pdf', title);
+};
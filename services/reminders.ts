@@ -0,0 +1,95 @@
+import * as Notifications from 'expo-notifications';
+
+import type { Reservation } from '@/services/reservationsApi';
+import { settingsStore } from '@/services/settingsStore';
+import { translate } from '@/utils/i18n';
+
+/**
+ * Local notifications warning the driver before prepaid parking runs out
+ * and before a reservation's hold on a space ends.
+ */
+
+// Show reminders even while the app is open on the Parking screen
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export const requestReminderPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+/**
+ * Schedule one reminder per lead time before `paidUntil`, skipping any that
+ * would already be in the past. Lead times default to the ones chosen in
+ * Settings. Returns the notification ids.
+ */
+export const scheduleExpiryReminders = async (
+  paidUntil: number,
+  leadMinutes: number[] = settingsStore.get().reminderLeadMinutes,
+  now: number = Date.now()
+): Promise<string[]> => {
+  if (!(await requestReminderPermission())) return [];
+
+  const ids: string[] = [];
+  for (const minutes of leadMinutes) {
+    const fireAt = paidUntil - minutes * 60 * 1000;
+    if (fireAt <= now) continue;
+
+    try {
+      ids.push(
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: translate('reminder.title', { count: minutes }),
+            body: translate('reminder.body'),
+          },
+          trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(fireAt) },
+        })
+      );
+    } catch (error) {
+      console.warn('Unable to schedule parking reminder:', error);
+    }
+  }
+  return ids;
+};
+
+export const cancelReminders = async (ids: string[]): Promise<void> => {
+  await Promise.all(
+    ids.map((id) => Notifications.cancelScheduledNotificationAsync(id).catch(() => undefined))
+  );
+};
+
+// Warn this long before the hold ends, while there is still time to get there
+const HOLD_REMINDER_LEAD_MINUTES = 15;
+
+// One reminder per reservation, so it can be replaced or cancelled by id alone
+const holdReminderId = (reservationId: string) => `reservation-hold-${reservationId}`;
+
+/** Remind the driver to check in before the reservation's space is released */
+export const scheduleHoldReminder = async (reservation: Reservation, now: number = Date.now()): Promise<void> => {
+  const fireAt = reservation.holdUntil - HOLD_REMINDER_LEAD_MINUTES * 60 * 1000;
+  if (fireAt <= now || !(await requestReminderPermission())) return;
+
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: holdReminderId(reservation.id),
+      content: {
+        title: translate('reservations.reminderTitle', { lot: reservation.lotName }),
+        body: translate('reservations.reminderBody', { count: HOLD_REMINDER_LEAD_MINUTES }),
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(fireAt) },
+    });
+  } catch (error) {
+    console.warn('Unable to schedule reservation reminder:', error);
+  }
+};
+
+export const cancelHoldReminder = (reservationId: string): Promise<void> =>
+  Notifications.cancelScheduledNotificationAsync(holdReminderId(reservationId)).catch(() => undefined);
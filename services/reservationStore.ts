@@ -0,0 +1,246 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+import { createIdempotencyKey, toApiError } from '@/services/apiRequest';
+import { authStore } from '@/services/authStore';
+import { connectivity } from '@/services/connectivity';
+import { watchStkStatus } from '@/services/mpesaStatus';
+import { getPaymentProvider } from '@/services/paymentProvider';
+import { pendingCheckouts } from '@/services/pendingCheckouts';
+import { cancelHoldReminder, scheduleHoldReminder } from '@/services/reminders';
+import { reservationsApi, type Reservation, type ReservationRequest } from '@/services/reservationsApi';
+import { sessionSync } from '@/services/sessionSync';
+import { translate } from '@/utils/i18n';
+
+/**
+ * The signed-in driver's reservations, kept on the device so the QR code can
+ * be shown at a lot gate without signal. Refreshed from the backend on
+ * sign-in, when connectivity returns, when the app comes back to the
+ * foreground and once queued session events have synced (a session started
+ * on a reservation checks in to it); forgotten on sign-out.
+ */
+
+const STORAGE_KEY = '@kenpark/reservations';
+
+let reservations: Reservation[] = [];
+let loading: Promise<Reservation[]> | null = null;
+let refreshing: Promise<void> | null = null;
+let started = false;
+const listeners = new Set<() => void>();
+
+const load = (): Promise<Reservation[]> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw) reservations = JSON.parse(raw) as Reservation[];
+      } catch (error) {
+        console.error('Error reading reservations:', error);
+      }
+      listeners.forEach((listener) => listener());
+      return reservations;
+    })();
+  }
+  return loading;
+};
+
+const write = async (next: Reservation[]) => {
+  reservations = next;
+  listeners.forEach((listener) => listener());
+  try {
+    if (next.length > 0) {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving reservations:', error);
+  }
+};
+
+// Keep the hold reminder in step with the reservation's status
+const save = async (reservation: Reservation): Promise<Reservation> => {
+  await load();
+  const others = reservations.filter((item) => item.id !== reservation.id);
+  await write([reservation, ...others]);
+  if (reservation.status === 'confirmed') {
+    await scheduleHoldReminder(reservation);
+  } else {
+    await cancelHoldReminder(reservation.id);
+  }
+  return reservation;
+};
+
+const isSignedIn = () => authStore.get().status === 'signedIn';
+
+// Settle deposits whose payment was still open when the app last closed;
+// one the driver paid confirms its reservation
+const reconcileDeposits = async () => {
+  const resolved = await pendingCheckouts.reconcile(getPaymentProvider().queryStatus, {
+    include: (checkout) => Boolean(checkout.reservationId),
+  });
+  for (const { checkout, result } of resolved) {
+    if (result.outcome !== 'success' || !checkout.reservationId) continue;
+    try {
+      await save(
+        await reservationsApi.confirmDeposit(checkout.reservationId, {
+          checkoutRequestID: checkout.checkoutRequestID,
+          mpesaReceipt: result.mpesaReceiptNumber,
+        })
+      );
+    } catch (error) {
+      // Paid but not confirmed yet; try again next launch
+      console.error('Error confirming reservation deposit:', toApiError(error));
+      await pendingCheckouts.add(checkout);
+    }
+  }
+};
+
+const syncWithAuth = () => {
+  if (isSignedIn()) {
+    reservationStore.refresh();
+  } else if (reservations.length > 0) {
+    reservations.forEach((reservation) => cancelHoldReminder(reservation.id));
+    write([]);
+  }
+};
+
+export interface BookingRequest extends ReservationRequest {
+  /** M-Pesa number to prompt for the deposit, E.164 */
+  phoneNumber: string;
+}
+
+export const reservationStore = {
+  /** Follow sign-in and connectivity; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    connectivity.start();
+    authStore.subscribe(syncWithAuth);
+    connectivity.subscribe(() => {
+      if (connectivity.isOnline()) reservationStore.refresh();
+    });
+    AppState.addEventListener('change', (status) => {
+      if (status === 'active') reservationStore.refresh();
+    });
+    let pendingSessionEvents = sessionSync.getPendingCount();
+    sessionSync.subscribe(() => {
+      const pending = sessionSync.getPendingCount();
+      if (pending === 0 && pendingSessionEvents > 0) reservationStore.refresh();
+      pendingSessionEvents = pending;
+    });
+    Promise.all([load(), authStore.load()]).then(() => {
+      syncWithAuth();
+      if (isSignedIn()) reconcileDeposits();
+    });
+  },
+
+  getAll(): Reservation[] {
+    return reservations;
+  },
+
+  /** Fetch reservations again; keeps the stored copy if the backend can't be reached */
+  refresh(): Promise<void> {
+    if (!refreshing) {
+      refreshing = (async () => {
+        await load();
+        if (!isSignedIn() || !connectivity.isOnline()) return;
+        try {
+          const next = await reservationsApi.list();
+          await write(next);
+          // Reminders for holds confirmed or settled on another device
+          await Promise.all(
+            next.map((reservation) =>
+              reservation.status === 'confirmed'
+                ? scheduleHoldReminder(reservation)
+                : cancelHoldReminder(reservation.id)
+            )
+          );
+        } catch (error) {
+          console.error('Error refreshing reservations:', toApiError(error));
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  },
+
+  /**
+   * Hold a space and take the deposit over M-Pesa. `onPrompt` is called once
+   * the STK prompt is on its way to the phone. Throws with the payment's
+   * message if the deposit isn't paid; the unpaid hold lapses on the backend.
+   * The checkout is kept in `pendingCheckouts` until the deposit is confirmed,
+   * so one interrupted mid-payment is settled on the next launch.
+   */
+  async book(
+    { phoneNumber, ...request }: BookingRequest,
+    { signal, onPrompt }: { signal?: AbortSignal; onPrompt?: () => void } = {}
+  ): Promise<Reservation> {
+    const reservation = await save(await reservationsApi.create(request, createIdempotencyKey()));
+
+    const provider = getPaymentProvider();
+    const { checkoutRequestID } = await provider.requestStkPush(
+      {
+        phoneNumber: phoneNumber.replace(/^\+/, ''),
+        amount: reservation.deposit,
+        accountReference: reservation.code,
+        description: translate('reservations.depositDescription', { lot: reservation.lotName }),
+        idempotencyKey: `${reservation.id}-stk`,
+      },
+      signal
+    );
+    onPrompt?.();
+    await pendingCheckouts.add({
+      checkoutRequestID,
+      sessionId: null,
+      reservationId: reservation.id,
+      amount: reservation.deposit,
+      phoneNumber,
+      createdAt: Date.now(),
+    });
+
+    const result = await watchStkStatus({
+      checkoutRequestID,
+      query: provider.queryStatus,
+      feed: provider.resultFeed,
+      signal,
+    });
+    if (result.outcome !== 'success') {
+      // Without a result code the driver may still approve it; leave it for reconciliation
+      if (result.resultCode !== null) await pendingCheckouts.remove(checkoutRequestID);
+      throw new Error(result.message);
+    }
+
+    const confirmed = await save(
+      await reservationsApi.confirmDeposit(reservation.id, {
+        checkoutRequestID,
+        mpesaReceipt: result.mpesaReceiptNumber,
+      })
+    );
+    await pendingCheckouts.remove(checkoutRequestID);
+    return confirmed;
+  },
+
+  /**
+   * Arrived at the lot and started parking on the reservation. The backend
+   * checks in (and refunds the deposit) when the session's start syncs, so
+   * this only marks the stored copy, which works offline
+   */
+  async checkIn(id: string): Promise<Reservation | null> {
+    await load();
+    const reservation = reservations.find((item) => item.id === id);
+    return reservation?.status === 'confirmed' ? save({ ...reservation, status: 'checked_in' }) : null;
+  },
+
+  async cancel(id: string): Promise<Reservation> {
+    return save(await reservationsApi.cancel(id));
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
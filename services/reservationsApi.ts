@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+import { apiClient } from '@/services/apiClient';
+import { apiRequest } from '@/services/apiRequest';
+
+/**
+ * Advance reservations at parking lots. A reservation is created waiting for
+ * its deposit, confirmed once the deposit's M-Pesa payment succeeds, and
+ * held until a while after it starts. Checking in on arrival refunds the
+ * deposit; cancelling late or not turning up forfeits some or all of it,
+ * by rules the backend sets and sends along with every quote.
+ */
+
+const policySchema = z.object({
+  /** Minutes after the start the space is kept before it counts as a no-show */
+  holdMinutes: z.number(),
+  /** Minutes before the start from which checking in is allowed */
+  earlyCheckInMinutes: z.number(),
+  /** Cancelling at least this many minutes before the start refunds everything */
+  freeCancelMinutes: z.number(),
+  /** Share of the deposit kept after a later cancellation, 0-100 */
+  lateCancelForfeitPercent: z.number(),
+  /** Share of the deposit kept when nobody checks in before the hold ends, 0-100 */
+  noShowForfeitPercent: z.number(),
+});
+
+const quoteSchema = z.object({ deposit: z.number(), policy: policySchema });
+
+const reservationSchema = z.object({
+  id: z.string(),
+  /** Encoded in the QR code the lot attendant or gate scans */
+  code: z.string(),
+  lotId: z.string(),
+  lotName: z.string(),
+  startsAt: z.number(),
+  endsAt: z.number(),
+  /** The space is released if nobody has checked in by then */
+  holdUntil: z.number(),
+  deposit: z.number(),
+  status: z.enum(['awaiting_deposit', 'confirmed', 'checked_in', 'cancelled', 'no_show']),
+  mpesaReceipt: z.string().nullable(),
+  /** Deposit returned to the driver, once settled */
+  refund: z.number().nullable(),
+  policy: policySchema,
+});
+
+const reservationListSchema = z.object({ reservations: z.array(reservationSchema) });
+
+export type ReservationPolicy = z.infer<typeof policySchema>;
+export type ReservationQuote = z.infer<typeof quoteSchema>;
+export type Reservation = z.infer<typeof reservationSchema>;
+export type ReservationStatus = Reservation['status'];
+
+export interface ReservationRequest {
+  lotId: string;
+  startsAt: number;
+  endsAt: number;
+}
+
+const reservationUrl = (id: string, path = '') => `/reservations/${encodeURIComponent(id)}${path}`;
+
+export const reservationsApi = {
+  /** Deposit and rules for a window, before anything is booked */
+  quote: (request: ReservationRequest, signal?: AbortSignal) =>
+    apiRequest(
+      apiClient,
+      { method: 'get', url: '/reservations/quote', params: request },
+      quoteSchema,
+      { signal }
+    ),
+
+  list: async (signal?: AbortSignal) =>
+    (await apiRequest(apiClient, { method: 'get', url: '/reservations' }, reservationListSchema, { signal }))
+      .reservations,
+
+  /** Hold a space while the deposit is paid; fails with 409 when the lot is fully booked */
+  create: (request: ReservationRequest, idempotencyKey: string) =>
+    apiRequest(
+      apiClient,
+      { method: 'post', url: '/reservations', data: request },
+      reservationSchema,
+      { idempotencyKey }
+    ),
+
+  confirmDeposit: (id: string, deposit: { checkoutRequestID: string; mpesaReceipt: string | null }) =>
+    apiRequest(
+      apiClient,
+      { method: 'post', url: reservationUrl(id, '/deposit'), data: deposit },
+      reservationSchema,
+      { idempotencyKey: `${id}-deposit` }
+    ),
+
+  cancel: (id: string) =>
+    apiRequest(
+      apiClient,
+      { method: 'post', url: reservationUrl(id, '/cancel') },
+      reservationSchema,
+      { idempotencyKey: `${id}-cancel` }
+    ),
+};
@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Persistence for the active parking session.
+ *
+ * The session is stored as a start timestamp rather than a tick counter so
+ * elapsed time can be recomputed after the OS kills the app. Session time is
+ * the wall clock plus `clockAdjustmentMs`, and every heartbeat records the
+ * latest session time seen; if the clock is later found behind that, the
+ * difference is added to the adjustment once, so winding the clock back can
+ * never shorten a session.
+ */
+
+const STORAGE_KEY = '@kenpark/active-session';
+
+// Allowed disagreement between wall clock and monotonic clock between beats
+const CLOCK_DRIFT_TOLERANCE_MS = 5 * 1000;
+
+export interface SessionCoords {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ActiveSession {
+  id: string;
+  /** Wall-clock time the session started (epoch ms) */
+  startedAt: number;
+  /** Latest session time (wall clock plus adjustment) observed while running */
+  lastSeenAt: number;
+  /** Time added to the wall clock after backward clock jumps */
+  clockAdjustmentMs: number;
+  coords: SessionCoords | null;
+  /** Plate of the vehicle chosen when the session started */
+  vehiclePlate: string | null;
+  /** Parking zone the session started in */
+  zoneId: string | null;
+  /** Reservation checked in on to start the session */
+  reservationId?: string | null;
+}
+
+export interface Heartbeat {
+  session: ActiveSession;
+  /** True when this beat found and corrected a clock jump */
+  clockJumped: boolean;
+}
+
+const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isActiveSession = (value: unknown): value is ActiveSession => {
+  if (value === null || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.startedAt === 'number' &&
+    typeof candidate.lastSeenAt === 'number' &&
+    typeof candidate.clockAdjustmentMs === 'number'
+  );
+};
+
+// Session time for a wall-clock reading, never behind what was already seen
+const getSessionTime = (session: ActiveSession, now: number): number =>
+  Math.max(now + session.clockAdjustmentMs, session.lastSeenAt);
+
+/**
+ * Elapsed session time in whole seconds, never less than what was already
+ * observed before a backward clock change.
+ */
+export const getElapsedSeconds = (session: ActiveSession, now: number = Date.now()): number =>
+  Math.max(0, Math.floor((getSessionTime(session, now) - session.startedAt) / 1000));
+
+/** Effective end time to bill against, with clock adjustments applied */
+export const getBillableEndTime = (session: ActiveSession, now: number = Date.now()): number =>
+  session.startedAt + getElapsedSeconds(session, now) * 1000;
+
+/**
+ * Advance the session's last-seen time and correct for clock jumps.
+ *
+ * Across app restarts only backward jumps past `lastSeenAt` can be detected.
+ * While the app is running, pass the monotonic time of this and the previous
+ * beat (e.g. `performance.now()`) to also catch a clock that was wound back
+ * by less than the time since the last beat.
+ */
+export const applyHeartbeat = (
+  session: ActiveSession,
+  now: number = Date.now(),
+  monotonic?: { previous: number; current: number }
+): Heartbeat => {
+  const adjustedNow = now + session.clockAdjustmentMs;
+  let adjustment = Math.max(0, session.lastSeenAt - adjustedNow);
+
+  if (monotonic) {
+    // Where the session time should be going by the monotonic clock
+    const expected = session.lastSeenAt + monotonic.current - monotonic.previous;
+    if (expected - adjustedNow > CLOCK_DRIFT_TOLERANCE_MS) {
+      adjustment = expected - adjustedNow;
+    }
+  }
+
+  // Later beats compare against the corrected time, so a jump is only counted once
+  return {
+    session: {
+      ...session,
+      lastSeenAt: adjustedNow + adjustment,
+      clockAdjustmentMs: session.clockAdjustmentMs + adjustment,
+    },
+    clockJumped: adjustment > 0,
+  };
+};
+
+export const sessionStore = {
+  createSession(
+    coords: SessionCoords | null = null,
+    vehiclePlate: string | null = null,
+    zoneId: string | null = null,
+    reservationId: string | null = null,
+    now: number = Date.now()
+  ): ActiveSession {
+    return {
+      id: createSessionId(),
+      startedAt: now,
+      lastSeenAt: now,
+      clockAdjustmentMs: 0,
+      coords,
+      vehiclePlate,
+      zoneId,
+      reservationId,
+    };
+  },
+
+  async load(): Promise<ActiveSession | null> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!raw) return null;
+
+      const parsed: unknown = JSON.parse(raw);
+      if (!isActiveSession(parsed)) {
+        console.warn('Discarding malformed stored parking session');
+        await AsyncStorage.removeItem(STORAGE_KEY);
+        return null;
+      }
+
+      // Catch clock changes made while the app was not running
+      return applyHeartbeat({
+        ...parsed,
+        vehiclePlate: parsed.vehiclePlate ?? null,
+        zoneId: parsed.zoneId ?? null,
+      }).session;
+    } catch (error) {
+      console.error('Error loading parking session:', error);
+      return null;
+    }
+  },
+
+  async save(session: ActiveSession): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving parking session:', error);
+    }
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing parking session:', error);
+    }
+  },
+};
@@ -0,0 +1,280 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+import { ApiError, createIdempotencyKey, toApiError } from '@/services/apiRequest';
+import { connectivity } from '@/services/connectivity';
+import type { SessionCoords } from '@/services/sessionStore';
+import { sessionsApi, type ServerSession } from '@/services/sessionsApi';
+import { toastStore } from '@/services/toastStore';
+import { translate } from '@/utils/i18n';
+
+/**
+ * Offline-first record of parking sessions for the backend.
+ *
+ * Starting, extending and ending a session never waits for the network: each is written
+ * to a durable queue with the device's timestamp and sent, in order, whenever
+ * the device is online — straight away, when connectivity returns, or when
+ * the app comes back to the foreground.
+ */
+
+const STORAGE_KEY = '@kenpark/session-sync';
+
+// Wait before retrying after the backend couldn't be reached while online
+const RETRY_DELAY_MS = 30 * 1000;
+
+interface SessionEventBase {
+  /** Also the idempotency key, so a resend is never applied twice */
+  id: string;
+  sessionId: string;
+  /** Device time the driver acted (epoch ms) */
+  occurredAt: number;
+}
+
+export type SessionEvent =
+  | (SessionEventBase & {
+      type: 'started';
+      zoneId: string | null;
+      vehiclePlate: string | null;
+      coords: SessionCoords | null;
+      /** End of the time paid for up front, if the session was prepaid */
+      paidUntil: number | null;
+      /** Reservation checked in on to start the session */
+      reservationId: string | null;
+    })
+  | (SessionEventBase & {
+      /** More time was paid for; the session is now paid until `paidUntil` */
+      type: 'extended';
+      paidUntil: number;
+    })
+  | (SessionEventBase & {
+      type: 'ended';
+      /** `billed` went to a fleet account instead of M-Pesa */
+      reason: 'paid' | 'billed' | 'cancelled';
+      amount: number | null;
+      mpesaReceipt: string | null;
+    });
+
+interface SyncState {
+  /** Session started on this device and not yet ended */
+  openSessionId: string | null;
+  queue: SessionEvent[];
+}
+
+export type ConflictResolution = 'drop' | 'overwrite';
+
+/**
+ * Decide between the device's event and the backend's copy of the session,
+ * e.g. after the driver ended it from another phone or an attendant closed
+ * it. An ended session stays ended at the backend's time, since that is what
+ * was billed, and the device's event is dropped. Otherwise the device wins:
+ * its timestamps were taken when the driver actually acted.
+ */
+export const resolveConflict = (event: SessionEvent, server: ServerSession): ConflictResolution =>
+  server.endedAt !== null ? 'drop' : 'overwrite';
+
+let state: SyncState = { openSessionId: null, queue: [] };
+let loading: Promise<SyncState> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let started = false;
+const listeners = new Set<() => void>();
+
+const load = (): Promise<SyncState> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw) state = JSON.parse(raw) as SyncState;
+      } catch (error) {
+        console.error('Error reading session sync queue:', error);
+      }
+      return state;
+    })();
+  }
+  return loading;
+};
+
+const write = async (next: SyncState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving session sync queue:', error);
+  }
+};
+
+const removeEvent = (id: string) => write({ ...state, queue: state.queue.filter((item) => item.id !== id) });
+
+// Rejected outright (malformed, or for a session the backend will never
+// accept); keeping it would block every event behind it
+const isPoisoned = (error: ApiError) =>
+  error.kind === 'invalid_response' ||
+  (error.status !== null && error.status >= 400 && error.status < 500 && ![401, 403, 408, 429].includes(error.status));
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    sessionSync.flush();
+  }, RETRY_DELAY_MS);
+};
+
+/** Send one event, settling a conflict if there is one. Throws if it should be tried again later */
+const pushEvent = async (event: SessionEvent) => {
+  const result = await sessionsApi.pushEvent(event);
+  if (result.outcome === 'accepted') return;
+
+  if (resolveConflict(event, result.session) === 'overwrite') {
+    await sessionsApi.pushEvent(event, { force: true });
+    return;
+  }
+
+  // The backend's end time stands, so the driver should know theirs didn't
+  toastStore.warning(translate('sync.endedElsewhere'));
+};
+
+export const sessionSync = {
+  /** Begin syncing whenever the device is online; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    connectivity.start();
+    connectivity.subscribe(() => {
+      if (connectivity.isOnline()) sessionSync.flush();
+    });
+    AppState.addEventListener('change', (status) => {
+      if (status === 'active') sessionSync.flush();
+    });
+    load().then(() => sessionSync.flush());
+  },
+
+  /**
+   * Record that a session started on this device; returns its id, which is
+   * `sessionId` when the device already gave the session one
+   */
+  async recordStart({
+    sessionId = createIdempotencyKey(),
+    occurredAt = Date.now(),
+    paidUntil = null,
+    reservationId = null,
+    ...details
+  }: {
+    sessionId?: string;
+    occurredAt?: number;
+    zoneId: string | null;
+    vehiclePlate: string | null;
+    coords: SessionCoords | null;
+    paidUntil?: number | null;
+    reservationId?: string | null;
+  }): Promise<string> {
+    await load();
+    await write({
+      openSessionId: sessionId,
+      queue: [
+        ...state.queue,
+        { ...details, id: createIdempotencyKey(), type: 'started', sessionId, occurredAt, paidUntil, reservationId },
+      ],
+    });
+    sessionSync.flush();
+    return sessionId;
+  },
+
+  /** Record that time was paid for on the open session, which now runs to `paidUntil` */
+  async recordExtended({ paidUntil, occurredAt = Date.now() }: { paidUntil: number; occurredAt?: number }) {
+    await load();
+    const sessionId = state.openSessionId;
+    if (!sessionId) return;
+
+    await write({
+      ...state,
+      queue: [...state.queue, { id: createIdempotencyKey(), type: 'extended', sessionId, occurredAt, paidUntil }],
+    });
+    sessionSync.flush();
+  },
+
+  /** Record that the open session ended, paid for, billed to a fleet or cancelled */
+  async recordEnd(details: {
+    reason: 'paid' | 'billed' | 'cancelled';
+    amount: number | null;
+    mpesaReceipt: string | null;
+    occurredAt?: number;
+  }): Promise<void> {
+    await load();
+    const sessionId = state.openSessionId;
+    if (!sessionId) return;
+
+    await write({
+      openSessionId: null,
+      queue: [
+        ...state.queue,
+        {
+          id: createIdempotencyKey(),
+          type: 'ended',
+          sessionId,
+          occurredAt: details.occurredAt ?? Date.now(),
+          reason: details.reason,
+          amount: details.amount,
+          mpesaReceipt: details.mpesaReceipt,
+        },
+      ],
+    });
+    sessionSync.flush();
+  },
+
+  /** Send queued events in order until the queue is empty or the backend can't be reached */
+  flush(): Promise<void> {
+    if (!flushing) {
+      flushing = (async () => {
+        await load();
+        while (state.queue.length > 0 && connectivity.isOnline()) {
+          const event = state.queue[0];
+          try {
+            await pushEvent(event);
+          } catch (error) {
+            const apiError = toApiError(error);
+            if (!isPoisoned(apiError)) {
+              scheduleRetry();
+              return;
+            }
+            console.error(`Dropping session event ${event.id} the backend rejected:`, apiError);
+          }
+          await removeEvent(event.id);
+        }
+      })().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  },
+
+  /**
+   * The backend reports this session ended on another device or by an
+   * attendant. Returns true if it was the session open here, which is then
+   * closed without recording an end of its own.
+   */
+  async markEndedElsewhere(sessionId: string): Promise<boolean> {
+    await load();
+    if (state.openSessionId !== sessionId) return false;
+    await write({ ...state, openSessionId: null });
+    return true;
+  },
+
+  /** The session started on this device and not yet ended, if any */
+  async getOpenSessionId(): Promise<string | null> {
+    await load();
+    return state.openSessionId;
+  },
+
+  /** Events recorded but not yet accepted by the backend */
+  getPendingCount(): number {
+    return state.queue.length;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+import { apiClient } from '@/services/apiClient';
+import { apiRequest } from '@/services/apiRequest';
+import type { SessionEvent } from '@/services/sessionSync';
+
+/**
+ * Parking session endpoints of the backend. Sessions are created and ended by
+ * replaying events recorded on the device, so the backend sees what happened
+ * even when it happened offline.
+ */
+
+export const serverSessionSchema = z.object({
+  id: z.string(),
+  startedAt: z.number(),
+  endedAt: z.number().nullable(),
+});
+
+// A conflict comes back as a 409 carrying the backend's copy of the session
+const pushEventSchema = z.object({
+  outcome: z.enum(['accepted', 'conflict']),
+  session: serverSessionSchema,
+});
+
+export type ServerSession = z.infer<typeof serverSessionSchema>;
+export type PushEventResult = z.infer<typeof pushEventSchema>;
+
+export const sessionsApi = {
+  /**
+   * Send one event. `sentAt` lets the backend correct the event's device
+   * timestamp for clock skew; `force` overwrites the backend's copy after a
+   * conflict was resolved in the device's favour.
+   */
+  pushEvent: (event: SessionEvent, { force = false }: { force?: boolean } = {}) =>
+    apiRequest(
+      apiClient,
+      {
+        method: 'post',
+        url: '/sessions/events',
+        data: { event, sentAt: Date.now(), force },
+        validateStatus: (status) => status === 200 || status === 409,
+      },
+      pushEventSchema,
+      // The forced resend is a different write from the one that conflicted
+      { idempotencyKey: force ? `${event.id}-force` : event.id }
+    ),
+};
@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { CurrencyFormat } from '@/utils/currency';
+import type { MessageKey } from '@/utils/i18n';
+
+/**
+ * App-wide preferences. Kept in memory once loaded so screens can subscribe
+ * and re-render as soon as a setting changes, and persisted on every update.
+ */
+
+const STORAGE_KEY = '@kenpark/settings';
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+export type Language = 'en' | 'sw';
+
+export interface Settings {
+  theme: ThemePreference;
+  language: Language;
+  currencyFormat: CurrencyFormat;
+  /** Minutes before prepaid time runs out to send a reminder */
+  reminderLeadMinutes: number[];
+  haptics: boolean;
+  /** Start and stop parking with a plain button instead of the swipe slider */
+  tapToPark: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  theme: 'system',
+  language: 'en',
+  currencyFormat: 'KSH',
+  reminderLeadMinutes: [15, 5],
+  haptics: true,
+  tapToPark: false,
+};
+
+export const THEME_OPTIONS: { value: ThemePreference; label: MessageKey }[] = [
+  { value: 'system', label: 'settings.theme.system' },
+  { value: 'light', label: 'settings.theme.light' },
+  { value: 'dark', label: 'settings.theme.dark' },
+];
+
+/** Each language is listed under its own name */
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'sw', label: 'Kiswahili' },
+];
+
+export const REMINDER_LEAD_OPTIONS = [30, 15, 10, 5];
+
+let current: Settings = DEFAULT_SETTINGS;
+let loading: Promise<Settings> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const settingsStore = {
+  /** Read persisted settings once; later calls share the same result */
+  load(): Promise<Settings> {
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          if (raw) {
+            current = { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<Settings>) };
+            notify();
+          }
+        } catch (error) {
+          console.error('Error reading settings:', error);
+        }
+        return current;
+      })();
+    }
+    return loading;
+  },
+
+  get(): Settings {
+    return current;
+  },
+
+  async update(changes: Partial<Settings>): Promise<Settings> {
+    current = { ...current, ...changes };
+    notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+    }
+    return current;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
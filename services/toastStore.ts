@@ -0,0 +1,110 @@
+/**
+ * App-wide toast queue. Anything can show a toast — screens, hooks such as
+ * `usePayment`, plain services — without a callback being passed down;
+ * `ToastProvider` (mounted in the root layout) renders the queue one toast at
+ * a time.
+ */
+
+export type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
+export interface ToastOptions {
+  type?: ToastType;
+  /** Defaults to the name of the type, e.g. "Error" */
+  title?: string;
+  message: string;
+  /** How long to stay up; `null` keeps it until dismissed */
+  durationMs?: number | null;
+  action?: ToastAction;
+  /** Called when the toast goes away without its action being pressed */
+  onDismiss?: () => void;
+}
+
+export interface Toast extends ToastOptions {
+  id: string;
+  type: ToastType;
+  durationMs: number | null;
+}
+
+const DEFAULT_DURATION_MS: Record<ToastType, number> = {
+  success: 3000,
+  info: 3000,
+  warning: 4000,
+  error: 5000,
+};
+
+// Leave time to read the message and reach the button
+const ACTION_DURATION_MS = 6000;
+
+// Older toasts are dropped rather than making the driver sit through a backlog
+const MAX_QUEUED = 5;
+
+let queue: Toast[] = [];
+let nextId = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const remove = (id: string) => {
+  const toast = queue.find((item) => item.id === id);
+  queue = queue.filter((item) => item.id !== id);
+  notify();
+  return toast;
+};
+
+export const toastStore = {
+  /** Queue a toast and return its id */
+  show(options: ToastOptions): string {
+    const type = options.type ?? 'info';
+    const toast: Toast = {
+      ...options,
+      id: `toast-${++nextId}`,
+      type,
+      durationMs:
+        options.durationMs !== undefined
+          ? options.durationMs
+          : options.action ? ACTION_DURATION_MS : DEFAULT_DURATION_MS[type],
+    };
+    // Keep the one on screen and the newest; drop the oldest waiting one
+    const dropped = queue.length >= MAX_QUEUED ? queue[1] : null;
+    queue = [...queue.filter((item) => item !== dropped), toast];
+    notify();
+    dropped?.onDismiss?.();
+    return toast.id;
+  },
+
+  success: (message: string, options?: Omit<ToastOptions, 'message' | 'type'>) =>
+    toastStore.show({ ...options, message, type: 'success' }),
+  error: (message: string, options?: Omit<ToastOptions, 'message' | 'type'>) =>
+    toastStore.show({ ...options, message, type: 'error' }),
+  warning: (message: string, options?: Omit<ToastOptions, 'message' | 'type'>) =>
+    toastStore.show({ ...options, message, type: 'warning' }),
+  info: (message: string, options?: Omit<ToastOptions, 'message' | 'type'>) =>
+    toastStore.show({ ...options, message, type: 'info' }),
+
+  /** Remove a toast, shown or still queued */
+  dismiss(id: string) {
+    remove(id)?.onDismiss?.();
+  },
+
+  /** Run a toast's action and remove it */
+  runAction(id: string) {
+    remove(id)?.action?.onPress();
+  },
+
+  /** The toast on screen, if any */
+  getCurrent(): Toast | null {
+    return queue[0] ?? null;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
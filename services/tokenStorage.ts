@@ -0,0 +1,61 @@
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * The signed-in session, kept in the Keychain / Keystore rather than
+ * AsyncStorage since the refresh token is as good as the driver's password.
+ */
+
+// SecureStore keys may only use letters, digits, ".", "-" and "_"
+const STORAGE_KEY = 'kenpark.auth.session';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch ms after which the access token is rejected */
+  accessTokenExpiresAt: number;
+}
+
+/** Officers are county parking attendants and also get the enforcement tools */
+export type UserRole = 'driver' | 'officer';
+
+export interface AuthUser {
+  id: string;
+  /** E.164, e.g. "+254712345678" */
+  phoneNumber: string;
+  role: UserRole;
+  /** Parking zones an officer patrols; empty for drivers */
+  zoneIds: string[];
+}
+
+export interface StoredSession {
+  tokens: AuthTokens;
+  user: AuthUser;
+}
+
+export const tokenStorage = {
+  async load(): Promise<StoredSession | null> {
+    try {
+      const raw = await SecureStore.getItemAsync(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredSession) : null;
+    } catch (error) {
+      console.error('Error reading session:', error);
+      return null;
+    }
+  },
+
+  async save(session: StoredSession): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing session:', error);
+    }
+  },
+};
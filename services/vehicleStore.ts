@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { translate, type MessageKey } from '@/utils/i18n';
+import { formatPlate, normalizePlate } from '@/utils/plateValidator';
+
+/**
+ * Local registry of the driver's vehicles. Exactly one vehicle is the
+ * default whenever the registry is not empty.
+ */
+
+const STORAGE_KEY = '@kenpark/vehicles';
+
+export type VehicleType = 'car' | 'suv' | 'van' | 'truck' | 'motorcycle';
+
+export const VEHICLE_TYPES: { value: VehicleType; label: MessageKey }[] = [
+  { value: 'car', label: 'vehicleType.car' },
+  { value: 'suv', label: 'vehicleType.suv' },
+  { value: 'van', label: 'vehicleType.van' },
+  { value: 'truck', label: 'vehicleType.truck' },
+  { value: 'motorcycle', label: 'vehicleType.motorcycle' },
+];
+
+export interface Vehicle {
+  id: string;
+  /** Display form, e.g. "KDA 123A" */
+  plate: string;
+  nickname: string;
+  type: VehicleType;
+  isDefault: boolean;
+}
+
+export interface VehicleInput {
+  plate: string;
+  nickname: string;
+  type: VehicleType;
+}
+
+const readAll = async (): Promise<Vehicle[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Vehicle[]) : [];
+  } catch (error) {
+    console.error('Error reading vehicles:', error);
+    return [];
+  }
+};
+
+const writeAll = async (vehicles: Vehicle[]): Promise<Vehicle[]> => {
+  // Keep the single-default invariant no matter what the caller did
+  if (vehicles.length > 0 && !vehicles.some((vehicle) => vehicle.isDefault)) {
+    vehicles[0] = { ...vehicles[0], isDefault: true };
+  }
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(vehicles));
+  return vehicles;
+};
+
+export const vehicleStore = {
+  getAll: readAll,
+
+  async getDefault(): Promise<Vehicle | null> {
+    const vehicles = await readAll();
+    return vehicles.find((vehicle) => vehicle.isDefault) ?? null;
+  },
+
+  /**
+   * Add a vehicle, or update it when `id` is given. Throws if the plate is
+   * invalid or already registered to another vehicle.
+   */
+  async save(input: VehicleInput, id?: string): Promise<Vehicle[]> {
+    const plate = formatPlate(input.plate);
+    if (!plate) {
+      throw new Error(translate('vehicles.invalidPlate'));
+    }
+
+    const vehicles = await readAll();
+    const duplicate = vehicles.find(
+      (vehicle) => vehicle.id !== id && normalizePlate(vehicle.plate) === normalizePlate(plate)
+    );
+    if (duplicate) {
+      throw new Error(translate('vehicles.duplicatePlate', { plate }));
+    }
+
+    const details = { plate, nickname: input.nickname.trim(), type: input.type };
+
+    if (id) {
+      return writeAll(vehicles.map((vehicle) => (vehicle.id === id ? { ...vehicle, ...details } : vehicle)));
+    }
+
+    return writeAll([
+      ...vehicles,
+      { id: Date.now().toString(36), ...details, isDefault: vehicles.length === 0 },
+    ]);
+  },
+
+  async remove(id: string): Promise<Vehicle[]> {
+    const vehicles = await readAll();
+    return writeAll(vehicles.filter((vehicle) => vehicle.id !== id));
+  },
+
+  async setDefault(id: string): Promise<Vehicle[]> {
+    const vehicles = await readAll();
+    return writeAll(vehicles.map((vehicle) => ({ ...vehicle, isDefault: vehicle.id === id })));
+  },
+};
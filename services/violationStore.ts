@@ -0,0 +1,175 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { AppState } from 'react-native';
+
+import { createIdempotencyKey, toApiError } from '@/services/apiRequest';
+import { connectivity } from '@/services/connectivity';
+import { enforcementApi } from '@/services/enforcementApi';
+import type { LatLng } from '@/utils/geo';
+
+/**
+ * Violations logged by enforcement officers. Each is saved on the device
+ * first, with its photo copied out of the camera cache, so logging works in
+ * basements and dead spots; uploads happen in order whenever the device is
+ * online.
+ */
+
+const STORAGE_KEY = '@kenpark/violations';
+
+// Uploaded violations are kept for reference up to this many
+const MAX_SYNCED = 50;
+
+// Wait before retrying after the backend couldn't be reached while online
+const RETRY_DELAY_MS = 30 * 1000;
+
+export interface Violation {
+  id: string;
+  plate: string;
+  zoneId: string | null;
+  /** Active session for the plate when it was logged, if any */
+  sessionId: string | null;
+  notes: string;
+  /** Local file URI of the evidence photo */
+  photoUri: string | null;
+  coords: LatLng | null;
+  loggedAt: number;
+  /** When the backend accepted it; null while waiting to upload */
+  syncedAt: number | null;
+}
+
+export type ViolationInput = Omit<Violation, 'id' | 'loggedAt' | 'syncedAt'>;
+
+let violations: Violation[] = [];
+let loading: Promise<Violation[]> | null = null;
+let syncing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let started = false;
+const listeners = new Set<() => void>();
+
+const photoDirectory = () => new Directory(Paths.document, 'violations');
+
+// The camera's cache can be cleared by the OS before the upload happens
+const keepPhoto = (uri: string, id: string): string => {
+  const directory = photoDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+  const destination = new File(directory, `${id}.jpg`);
+  new File(uri).copy(destination);
+  return destination.uri;
+};
+
+const deletePhoto = (uri: string | null) => {
+  if (!uri) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error('Error deleting violation photo:', error);
+  }
+};
+
+const load = (): Promise<Violation[]> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw) violations = JSON.parse(raw) as Violation[];
+      } catch (error) {
+        console.error('Error reading violations:', error);
+      }
+      listeners.forEach((listener) => listener());
+      return violations;
+    })();
+  }
+  return loading;
+};
+
+const write = async (next: Violation[]) => {
+  // Newest first; drop the oldest uploaded ones beyond the limit
+  const synced = next.filter((item) => item.syncedAt !== null);
+  const pruned = synced.slice(MAX_SYNCED);
+  pruned.forEach((item) => deletePhoto(item.photoUri));
+  violations = next.filter((item) => !pruned.includes(item));
+  listeners.forEach((listener) => listener());
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(violations));
+  } catch (error) {
+    console.error('Error saving violations:', error);
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    violationStore.sync();
+  }, RETRY_DELAY_MS);
+};
+
+export const violationStore = {
+  /** Upload whenever the device is online; later calls do nothing */
+  start() {
+    if (started) return;
+    started = true;
+    connectivity.start();
+    connectivity.subscribe(() => {
+      if (connectivity.isOnline()) violationStore.sync();
+    });
+    AppState.addEventListener('change', (status) => {
+      if (status === 'active') violationStore.sync();
+    });
+    load().then(() => violationStore.sync());
+  },
+
+  getAll(): Violation[] {
+    return violations;
+  },
+
+  /** Save a violation on the device and upload it as soon as possible */
+  async log(input: ViolationInput): Promise<Violation> {
+    await load();
+    const id = createIdempotencyKey();
+    const violation: Violation = {
+      ...input,
+      id,
+      photoUri: input.photoUri ? keepPhoto(input.photoUri, id) : null,
+      loggedAt: Date.now(),
+      syncedAt: null,
+    };
+    await write([violation, ...violations]);
+    violationStore.sync();
+    return violation;
+  },
+
+  /** Upload waiting violations, oldest first, until done or the backend can't be reached */
+  sync(): Promise<void> {
+    if (!syncing) {
+      syncing = (async () => {
+        await load();
+        let pending = violations.filter((item) => item.syncedAt === null).reverse();
+        while (pending.length > 0 && connectivity.isOnline()) {
+          const violation = pending[0];
+          try {
+            await enforcementApi.reportViolation(violation);
+          } catch (error) {
+            // Keep it: losing evidence is worse than retrying, even after a 4xx
+            console.error(`Error uploading violation ${violation.id}:`, toApiError(error));
+            scheduleRetry();
+            return;
+          }
+          await write(violations.map((item) => (item.id === violation.id ? { ...item, syncedAt: Date.now() } : item)));
+          pending = pending.slice(1);
+        }
+      })().finally(() => {
+        syncing = null;
+      });
+    }
+    return syncing;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,28 @@
+import type { Language } from '@/services/settingsStore';
+import { getLocale } from '@/utils/i18n';
+
+/**
+ * Display formats for Kenyan shilling amounts, chosen in Settings.
+ */
+
+export type CurrencyFormat = 'KSH' | 'KES' | 'KSh';
+
+export const CURRENCY_FORMATS: { value: CurrencyFormat; label: string }[] = [
+  { value: 'KSH', label: 'KSH 1,200' },
+  { value: 'KES', label: 'KES 1,200' },
+  { value: 'KSh', label: 'KSh 1,200.00' },
+];
+
+export const formatCurrency = (
+  amount: number,
+  format: CurrencyFormat = 'KSH',
+  language?: Language
+): string => {
+  const sign = amount < 0 ? '-' : '';
+  const digits = format === 'KSh' ? 2 : 0;
+  const value = Math.abs(amount).toLocaleString(getLocale(language), {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits === 0 ? 2 : digits,
+  });
+  return `${sign}${format} ${value}`;
+};
@@ -0,0 +1,20 @@
+import type { ParkingZone } from '@/constants/zones';
+import type { EnforcementSession } from '@/services/enforcementApi';
+
+/**
+ * Minutes a session has run past what the driver paid for or the zone's
+ * maximum stay, whichever comes first; 0 while it's within both.
+ */
+export const getOverstayMinutes = (
+  session: EnforcementSession,
+  zone: ParkingZone | null,
+  now: number = Date.now()
+): number => {
+  const limits = [
+    session.paidUntil,
+    zone ? session.startedAt + zone.maxStayMinutes * 60 * 1000 : null,
+  ].filter((limit): limit is number => limit !== null);
+  if (limits.length === 0) return 0;
+
+  return Math.max(0, Math.floor((now - Math.min(...limits)) / (60 * 1000)));
+};
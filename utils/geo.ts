@@ -0,0 +1,60 @@
+import { translate } from '@/utils/i18n';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Ray-casting point-in-polygon test. Accurate enough for street-scale zones,
+ * where treating latitude/longitude as planar coordinates is fine.
+ */
+export const isPointInPolygon = (point: LatLng, polygon: LatLng[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) +
+          a.longitude;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+};
+
+/** Great-circle distance between two points in metres (haversine) */
+export const getDistanceMeters = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+/** Initial compass bearing from one point to another, 0-360° clockwise from north */
+export const getBearingDegrees = (from: LatLng, to: LatLng): number => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+export const formatBearing = (degrees: number): string =>
+  translate(`compass.${COMPASS_POINTS[Math.round(degrees / 45) % COMPASS_POINTS.length]}`);
@@ -0,0 +1,63 @@
+import { en, type MessageKey } from '@/locales/en';
+import { sw } from '@/locales/sw';
+import { settingsStore, type Language } from '@/services/settingsStore';
+
+/**
+ * Message lookup and locale-aware formatting. `translate` reads the language
+ * from Settings, so it works outside React too (services, utils); screens use
+ * `useTranslation` so they re-render when the language changes.
+ */
+
+export type { MessageKey };
+
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+export type Catalog = Record<MessageKey, string | PluralMessage>;
+
+export type TranslateParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Catalog> = { en, sw };
+
+const LOCALES: Record<Language, string> = {
+  en: 'en-KE',
+  sw: 'sw-KE',
+};
+
+export const getLocale = (language: Language = settingsStore.get().language): string =>
+  LOCALES[language];
+
+const interpolate = (message: string, params: TranslateParams) =>
+  message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : String(params[name])
+  );
+
+export const translate = (
+  key: MessageKey,
+  params: TranslateParams = {},
+  language: Language = settingsStore.get().language
+): string => {
+  const entry = CATALOGS[language][key] ?? en[key];
+  // English and Kiswahili both only distinguish one from everything else
+  const message = typeof entry === 'string' ? entry : params.count === 1 ? entry.one : entry.other;
+  return interpolate(message, params);
+};
+
+export const formatNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions,
+  language?: Language
+): string => value.toLocaleString(getLocale(language), options);
+
+/** "1 hr 5 min", "saa 1 na dakika 5" */
+export const formatMinutesDuration = (totalMinutes: number, language?: Language): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.round(totalMinutes % 60);
+  const hoursText = translate('duration.hours', { count: hours }, language);
+  const minutesText = translate('duration.minutes', { count: minutes }, language);
+  if (hours === 0) return minutesText;
+  if (minutes === 0) return hoursText;
+  return translate('duration.hoursMinutes', { hours: hoursText, minutes: minutesText }, language);
+};
@@ -0,0 +1,35 @@
+/**
+ * Clock and calendar helpers in the device's local time, which is what
+ * opening hours, tariff periods and receipt dates are all expressed in.
+ */
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export interface OperatingHours {
+  /** Days of the week the hours apply on, 0 = Sunday */
+  days: number[];
+  /** Local opening time, HH:mm */
+  open: string;
+  /** Local closing time, HH:mm */
+  close: string;
+}
+
+/** "07:30" -> 450 */
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Minutes since local midnight */
+export const getMinuteOfDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+export const isWithinOperatingHours = (hours: OperatingHours, date: Date = new Date()): boolean => {
+  const { days, open, close } = hours;
+  if (!days.includes(date.getDay())) return false;
+  const minutes = getMinuteOfDay(date);
+  return minutes >= parseTimeOfDay(open) && minutes < parseTimeOfDay(close);
+};
+
+/** Local calendar day as "YYYY-MM-DD", e.g. for grouping or file names */
+export const toLocalDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
@@ -0,0 +1,23 @@
+import { AsYouType, parsePhoneNumberFromString } from 'libphonenumber-js';
+
+/**
+ * Phone numbers used to sign in. Drivers type them however they're used to
+ * ("0712 345 678", "+254712345678", "712345678"); numbers without a country
+ * code are read as Kenyan, and only Kenyan numbers are accepted since they
+ * double as M-Pesa numbers.
+ */
+
+const DEFAULT_COUNTRY = 'KE';
+
+/** E.164 form, e.g. "+254712345678", or null if it isn't a valid Kenyan number */
+export const toE164 = (input: string): string | null => {
+  const parsed = parsePhoneNumberFromString(input, DEFAULT_COUNTRY);
+  return parsed?.isValid() && parsed.country === DEFAULT_COUNTRY ? parsed.number : null;
+};
+
+/** "+254712345678" -> "+254 712 345 678"; anything unparseable is returned as is */
+export const formatInternational = (number: string) =>
+  parsePhoneNumberFromString(number, DEFAULT_COUNTRY)?.formatInternational() ?? number;
+
+/** Group digits as they're typed, e.g. "0712345" -> "0712 345" */
+export const formatAsYouType = (input: string) => new AsYouType(DEFAULT_COUNTRY).input(input);
@@ -0,0 +1,64 @@
+/**
+ * Kenyan number plate validation and formatting.
+ *
+ * Plates are compared in their compact form (upper case, no spaces) and
+ * displayed in the spaced form printed on the plate itself.
+ */
+
+export type PlateKind = 'private' | 'motorcycle' | 'government' | 'diplomatic';
+
+interface PlatePattern {
+  kind: PlateKind;
+  pattern: RegExp;
+  format: (match: RegExpMatchArray) => string;
+}
+
+const PLATE_PATTERNS: PlatePattern[] = [
+  // KMDA 123A
+  {
+    kind: 'motorcycle',
+    pattern: /^(KM[A-Z]{2})(\d{3})([A-Z])$/,
+    format: (m) => `${m[1]} ${m[2]}${m[3]}`,
+  },
+  // KDA 123A, or the older KAA 123 without a suffix letter
+  {
+    kind: 'private',
+    pattern: /^(K[A-Z]{2})(\d{3})([A-Z]?)$/,
+    format: (m) => `${m[1]} ${m[2]}${m[3]}`,
+  },
+  // GKA 123B
+  {
+    kind: 'government',
+    pattern: /^(GK[A-Z])(\d{3})([A-Z]?)$/,
+    format: (m) => `${m[1]} ${m[2]}${m[3]}`,
+  },
+  // 19CD 123K
+  {
+    kind: 'diplomatic',
+    pattern: /^(\d{1,3})(CD)(\d{1,3})([A-Z]?)$/,
+    format: (m) => `${m[1]}${m[2]} ${m[3]}${m[4]}`,
+  },
+];
+
+export const normalizePlate = (plate: string): string =>
+  plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const matchPlate = (plate: string) => {
+  const compact = normalizePlate(plate);
+  for (const candidate of PLATE_PATTERNS) {
+    const match = compact.match(candidate.pattern);
+    if (match) return { candidate, match };
+  }
+  return null;
+};
+
+export const validatePlate = (plate: string): boolean => matchPlate(plate) !== null;
+
+export const getPlateKind = (plate: string): PlateKind | null =>
+  matchPlate(plate)?.candidate.kind ?? null;
+
+/** Format a plate for display (e.g. "kda123a" -> "KDA 123A"), or null if invalid */
+export const formatPlate = (plate: string): string | null => {
+  const result = matchPlate(plate);
+  return result ? result.candidate.format(result.match) : null;
+};
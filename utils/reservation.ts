@@ -0,0 +1,88 @@
+import type { Reservation } from '@/services/reservationsApi';
+import type { MessageKey } from '@/utils/i18n';
+import { parseTimeOfDay, type OperatingHours } from '@/utils/localTime';
+
+/**
+ * Where a reservation stands and what the driver gets back, by the rules the
+ * backend sent with it. The backend settles refunds; these are for showing
+ * the driver what to expect before they act.
+ */
+
+export type ReservationPhase =
+  | 'awaiting_deposit'
+  /** Confirmed, too early to check in */
+  | 'upcoming'
+  /** Confirmed and the driver may check in now */
+  | 'check_in_open'
+  | 'checked_in'
+  | 'cancelled'
+  | 'no_show';
+
+export const RESERVATION_PHASE_LABELS: Record<ReservationPhase, MessageKey> = {
+  awaiting_deposit: 'reservations.status.awaitingDeposit',
+  upcoming: 'reservations.status.upcoming',
+  check_in_open: 'reservations.status.checkInOpen',
+  checked_in: 'reservations.status.checkedIn',
+  cancelled: 'reservations.status.cancelled',
+  no_show: 'reservations.status.noShow',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const getCheckInOpensAt = (reservation: Reservation) =>
+  reservation.startsAt - reservation.policy.earlyCheckInMinutes * MINUTE_MS;
+
+export const getReservationPhase = (reservation: Reservation, now: number = Date.now()): ReservationPhase => {
+  if (reservation.status !== 'confirmed') return reservation.status;
+  // Past the hold counts as a no-show even before the backend says so
+  if (now > reservation.holdUntil) return 'no_show';
+  return now >= getCheckInOpensAt(reservation) ? 'check_in_open' : 'upcoming';
+};
+
+const keep = (deposit: number, forfeitPercent: number) =>
+  Math.round(deposit * (1 - Math.min(100, Math.max(0, forfeitPercent)) / 100));
+
+/** What cancelling now would refund: everything until the free cancellation cutoff */
+export const getCancellationRefund = (reservation: Reservation, now: number = Date.now()): number =>
+  now <= reservation.startsAt - reservation.policy.freeCancelMinutes * MINUTE_MS
+    ? reservation.deposit
+    : keep(reservation.deposit, reservation.policy.lateCancelForfeitPercent);
+
+/** What is refunded if nobody checks in before the hold ends */
+export const getNoShowRefund = (reservation: Reservation): number =>
+  reservation.refund ?? keep(reservation.deposit, reservation.policy.noShowForfeitPercent);
+
+/** Reservations still to come first, soonest first; the rest newest first */
+export const sortReservations = (reservations: Reservation[], now: number = Date.now()): Reservation[] => {
+  const isActive = (reservation: Reservation) => {
+    const phase = getReservationPhase(reservation, now);
+    return phase === 'upcoming' || phase === 'check_in_open';
+  };
+  const active = reservations.filter(isActive).sort((a, b) => a.startsAt - b.startsAt);
+  const rest = reservations.filter((reservation) => !isActive(reservation)).sort((a, b) => b.startsAt - a.startsAt);
+  return [...active, ...rest];
+};
+
+/** Reservations start on the hour or half hour */
+export const SLOT_MINUTES = 30;
+
+/**
+ * Start times on `day` a lot can be reserved from, every half hour while it
+ * is open, still in the future and leaving `durationMinutes` before closing.
+ */
+export const getReservableStarts = (
+  hours: OperatingHours,
+  day: Date,
+  durationMinutes: number,
+  now: number = Date.now()
+): number[] => {
+  if (!hours.days.includes(day.getDay())) return [];
+  const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  const starts: number[] = [];
+  const close = parseTimeOfDay(hours.close);
+  for (let minute = parseTimeOfDay(hours.open); minute + durationMinutes <= close; minute += SLOT_MINUTES) {
+    const startsAt = new Date(midnight).setHours(0, minute);
+    if (startsAt > now) starts.push(startsAt);
+  }
+  return starts;
+};
@@ -0,0 +1,40 @@
+import type { SessionCoords } from '@/services/sessionStore';
+import type { Language } from '@/services/settingsStore';
+import { formatMinutesDuration, getLocale, translate } from '@/utils/i18n';
+
+export const formatDuration = (totalSeconds: number, language?: Language): string =>
+  formatMinutesDuration(Math.floor(totalSeconds / 60), language);
+
+export const formatSessionDate = (timestamp: number, language?: Language): string =>
+  new Date(timestamp).toLocaleDateString(getLocale(language), {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+export const formatSessionTime = (timestamp: number, language?: Language): string =>
+  new Date(timestamp).toLocaleTimeString(getLocale(language), {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const formatLocation = (
+  locationName: string | null,
+  coords: SessionCoords | null,
+  language?: Language
+): string => {
+  if (locationName) return locationName;
+  if (coords) return `${coords.latitude.toFixed(5)}, ${coords.longitude.toFixed(5)}`;
+  return translate('common.unknownLocation', {}, language);
+};
+
+/** Countdown style h:mm:ss (or m:ss under an hour) */
+export const formatCountdown = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
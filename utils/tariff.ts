@@ -0,0 +1,282 @@
+/**
+ * Parking tariff engine.
+ *
+ * Pure functions only: given a tariff and a start/end time, work out what the
+ * driver owes and how that total was reached, so the same numbers can be shown
+ * on the status card, the payment drawer and receipts. Line labels come from
+ * the caller, in whichever language the quote is shown in.
+ */
+
+import { getMinuteOfDay, isWithinOperatingHours, toLocalDateKey, type OperatingHours } from '@/utils/localTime';
+
+export type RatePeriod = 'day' | 'night' | 'weekend' | 'holiday';
+
+export interface RateSchedule {
+  /** Price per hour for the first hour of the session (KSH) */
+  firstHourRate: number;
+  /** Price per hour for every hour after the first (KSH) */
+  subsequentHourlyRate: number;
+}
+
+export interface RoundingRule {
+  /** Billing is done in blocks of this many minutes */
+  unitMinutes: number;
+  /** How a partially used block is treated */
+  mode: 'up' | 'nearest' | 'down';
+}
+
+export interface Tariff {
+  id: string;
+  name: string;
+  /** Sessions no longer than this are free */
+  gracePeriodMinutes: number;
+  rounding: RoundingRule;
+  /** Maximum charged per calendar day (KSH), 0 for no cap */
+  dailyCap: number;
+  /** Hour of the day (0-23) at which night rates start */
+  nightStartHour: number;
+  /** Hour of the day (0-23) at which night rates end */
+  nightEndHour: number;
+  /** Hours the tariff charges in; time outside them is free. Null charges around the clock */
+  operatingHours: OperatingHours | null;
+  rates: Record<RatePeriod, RateSchedule>;
+  /**
+   * Days charged at holiday rates, either recurring (`MM-DD`) or one-off
+   * (`YYYY-MM-DD`) for holidays that move every year.
+   */
+  holidays: string[];
+}
+
+export interface TariffLine {
+  label: string;
+  period: RatePeriod | null;
+  minutes: number;
+  /** Hourly rate applied, null for lines that aren't time based */
+  rate: number | null;
+  amount: number;
+}
+
+/** Wording for each kind of quote line */
+export interface TariffLabels {
+  gracePeriod: (minutes: number) => string;
+  firstHour: (period: RatePeriod) => string;
+  additional: (period: RatePeriod) => string;
+  dailyCap: (amount: number) => string;
+  /** Free time outside the tariff's operating hours */
+  outsideHours: string;
+  /** Shillings added to round the total up to a whole amount */
+  rounding: string;
+}
+
+export interface TariffQuote {
+  tariffId: string;
+  billableMinutes: number;
+  lines: TariffLine[];
+  total: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Gazetted public holidays that fall on the same date every year
+export const KENYA_PUBLIC_HOLIDAYS = [
+  '01-01', // New Year's Day
+  '05-01', // Labour Day
+  '06-01', // Madaraka Day
+  '10-10', // Mazingira Day
+  '10-20', // Mashujaa Day
+  '12-12', // Jamhuri Day
+  '12-25', // Christmas Day
+  '12-26', // Boxing Day
+];
+
+export const DEFAULT_TARIFF: Tariff = {
+  id: 'nairobi-cbd',
+  name: 'Nairobi CBD',
+  gracePeriodMinutes: 10,
+  rounding: { unitMinutes: 15, mode: 'up' },
+  dailyCap: 1000,
+  nightStartHour: 19,
+  nightEndHour: 7,
+  operatingHours: null,
+  rates: {
+    day: { firstHourRate: 100, subsequentHourlyRate: 50 },
+    night: { firstHourRate: 50, subsequentHourlyRate: 30 },
+    weekend: { firstHourRate: 60, subsequentHourlyRate: 40 },
+    holiday: { firstHourRate: 60, subsequentHourlyRate: 40 },
+  },
+  holidays: KENYA_PUBLIC_HOLIDAYS,
+};
+
+export const isHoliday = (tariff: Tariff, date: Date): boolean => {
+  const full = toLocalDateKey(date);
+  return tariff.holidays.includes(full) || tariff.holidays.includes(full.slice(5));
+};
+
+export const getRatePeriod = (tariff: Tariff, date: Date): RatePeriod => {
+  if (isHoliday(tariff, date)) return 'holiday';
+
+  const weekday = date.getDay();
+  if (weekday === 0 || weekday === 6) return 'weekend';
+
+  const minute = getMinuteOfDay(date);
+  const nightStart = tariff.nightStartHour * 60;
+  const nightEnd = tariff.nightEndHour * 60;
+  const isNight = nightStart > nightEnd
+    ? minute >= nightStart || minute < nightEnd
+    : minute >= nightStart && minute < nightEnd;
+
+  return isNight ? 'night' : 'day';
+};
+
+export const roundBillableMinutes = (minutes: number, rounding: RoundingRule): number => {
+  const units = minutes / rounding.unitMinutes;
+  const rounded = rounding.mode === 'up'
+    ? Math.ceil(units)
+    : rounding.mode === 'down'
+      ? Math.floor(units)
+      : Math.round(units);
+  return rounded * rounding.unitMinutes;
+};
+
+const toShillings = (amount: number) => Math.round(amount * 100) / 100;
+
+type PricedLine = Omit<TariffLine, 'label'> &
+  (
+    | { kind: 'gracePeriod' | 'outsideHours' | 'dailyCap' | 'rounding' }
+    | { kind: 'firstHour' | 'additional'; period: RatePeriod }
+  );
+
+interface PricedSession {
+  billableMinutes: number;
+  lines: PricedLine[];
+  total: number;
+}
+
+/**
+ * Walk the session in billing units; each unit is priced at the rate of the
+ * period it starts in, using the first-hour rate for the first charged hour.
+ * Units starting outside the operating hours are free. Units are grouped into
+ * lines by period and rate, each calendar day is capped separately, and a
+ * rounding line makes up the difference to the whole-shilling total so the
+ * lines always add up to it.
+ */
+const priceSession = (tariff: Tariff, startTime: number, endTime: number): PricedSession => {
+  const elapsedMinutes = Math.max(0, (endTime - startTime) / MINUTE_MS);
+
+  if (elapsedMinutes <= tariff.gracePeriodMinutes) {
+    return {
+      billableMinutes: 0,
+      lines: [{ kind: 'gracePeriod', period: null, minutes: Math.ceil(elapsedMinutes), rate: null, amount: 0 }],
+      total: 0,
+    };
+  }
+
+  const { unitMinutes } = tariff.rounding;
+  const roundedMinutes = roundBillableMinutes(elapsedMinutes, tariff.rounding);
+  const lines: PricedLine[] = [];
+  const dailyTotals = new Map<string, number>();
+  let billableMinutes = 0;
+  let closedMinutes = 0;
+
+  for (let offset = 0; offset < roundedMinutes; offset += unitMinutes) {
+    const unitStart = new Date(startTime + offset * MINUTE_MS);
+    if (tariff.operatingHours && !isWithinOperatingHours(tariff.operatingHours, unitStart)) {
+      closedMinutes += unitMinutes;
+      continue;
+    }
+
+    const period = getRatePeriod(tariff, unitStart);
+    const kind = billableMinutes < 60 ? 'firstHour' : 'additional';
+    billableMinutes += unitMinutes;
+    const schedule = tariff.rates[period];
+    const rate = kind === 'firstHour' ? schedule.firstHourRate : schedule.subsequentHourlyRate;
+    const amount = (rate * unitMinutes) / 60;
+
+    const existing = lines.find((line) => line.kind === kind && line.period === period && line.rate === rate);
+    if (existing) {
+      existing.minutes += unitMinutes;
+      existing.amount += amount;
+    } else {
+      lines.push({ kind, period, minutes: unitMinutes, rate, amount });
+    }
+
+    const key = toLocalDateKey(unitStart);
+    dailyTotals.set(key, (dailyTotals.get(key) ?? 0) + amount);
+  }
+
+  if (closedMinutes > 0) {
+    lines.push({ kind: 'outsideHours', period: null, minutes: closedMinutes, rate: null, amount: 0 });
+  }
+
+  if (tariff.dailyCap > 0) {
+    let capDiscount = 0;
+    dailyTotals.forEach((amount) => {
+      capDiscount += Math.max(0, amount - tariff.dailyCap);
+    });
+
+    if (capDiscount > 0) {
+      lines.push({ kind: 'dailyCap', period: null, minutes: 0, rate: null, amount: -capDiscount });
+    }
+  }
+
+  const roundedLines = lines.map((line) => ({ ...line, amount: toShillings(line.amount) }));
+  const subtotal = toShillings(roundedLines.reduce((sum, line) => sum + line.amount, 0));
+  const total = Math.ceil(subtotal);
+  if (total > subtotal) {
+    roundedLines.push({
+      kind: 'rounding',
+      period: null,
+      minutes: 0,
+      rate: null,
+      amount: toShillings(total - subtotal),
+    });
+  }
+
+  return { billableMinutes, lines: roundedLines, total };
+};
+
+const labelLine = (tariff: Tariff, line: PricedLine, labels: TariffLabels): string => {
+  switch (line.kind) {
+    case 'gracePeriod':
+      return labels.gracePeriod(tariff.gracePeriodMinutes);
+    case 'firstHour':
+      return labels.firstHour(line.period);
+    case 'additional':
+      return labels.additional(line.period);
+    case 'outsideHours':
+      return labels.outsideHours;
+    case 'dailyCap':
+      return labels.dailyCap(tariff.dailyCap);
+    case 'rounding':
+      return labels.rounding;
+  }
+};
+
+/**
+ * Price a session from `startTime` to `endTime` (both epoch milliseconds),
+ * with each line worded by `labels`.
+ */
+export const calculateTariff = (
+  tariff: Tariff,
+  startTime: number,
+  endTime: number,
+  labels: TariffLabels
+): TariffQuote => {
+  const { billableMinutes, lines, total } = priceSession(tariff, startTime, endTime);
+  return {
+    tariffId: tariff.id,
+    billableMinutes,
+    lines: lines.map((line) => ({
+      label: labelLine(tariff, line, labels),
+      period: line.period,
+      minutes: line.minutes,
+      rate: line.rate,
+      amount: line.amount,
+    })),
+    total,
+  };
+};
+
+/** Total owed for a session, when the itemized lines aren't needed */
+export const getTariffTotal = (tariff: Tariff, startTime: number, endTime: number): number =>
+  priceSession(tariff, startTime, endTime).total;
@@ -0,0 +1,27 @@
+import type { Language } from '@/services/settingsStore';
+import { formatCurrency, type CurrencyFormat } from '@/utils/currency';
+import { formatMinutesDuration, translate, type MessageKey } from '@/utils/i18n';
+import type { RatePeriod, TariffLabels } from '@/utils/tariff';
+
+const PERIOD_LABELS: Record<RatePeriod, MessageKey> = {
+  day: 'tariff.period.day',
+  night: 'tariff.period.night',
+  weekend: 'tariff.period.weekend',
+  holiday: 'tariff.period.holiday',
+};
+
+/** Wording for tariff quote lines in `language`, with amounts in `currencyFormat` */
+export const getTariffLabels = (language: Language, currencyFormat: CurrencyFormat): TariffLabels => {
+  const periodLabel = (period: RatePeriod) => translate(PERIOD_LABELS[period], {}, language);
+
+  return {
+    gracePeriod: (minutes) =>
+      translate('tariff.gracePeriod', { duration: formatMinutesDuration(minutes, language) }, language),
+    firstHour: (period) => translate('tariff.firstHour', { period: periodLabel(period) }, language),
+    additional: (period) => translate('tariff.additional', { period: periodLabel(period) }, language),
+    dailyCap: (amount) =>
+      translate('tariff.dailyCap', { amount: formatCurrency(amount, currencyFormat, language) }, language),
+    outsideHours: translate('tariff.outsideHours', {}, language),
+    rounding: translate('tariff.rounding', {}, language),
+  };
+};
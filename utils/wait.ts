@@ -0,0 +1,16 @@
+/**
+ * Wait `ms`, resolving early if `signal` aborts. The abort listener is removed
+ * either way so a long-lived signal doesn't collect them.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });